@@ -2,65 +2,105 @@
 import React, { useState, useEffect } from 'react';
 import { StepLoad } from './components/StepLoad';
 import { StepMap } from './components/StepMap';
+import { StepQuality } from './components/StepQuality';
 import { StepReview } from './components/StepReview';
 import { StepInvoice } from './components/StepInvoice';
 import { 
   ProcessStep, 
   FilesState, 
   ConfigState, 
+  ImportPresetId,
   ProcessedDataState,
   MappingState,
+  ClassificationRule,
   SessionState,
-  isSessionState
+  SESSION_VERSION
 } from './types';
 import { processData, generateInitialMappings } from './services/processor';
-import { Check, ChevronRight } from 'lucide-react';
+import { DEFAULT_CONFIG } from './constants';
+import { downloadJson, safeFilePart } from './services/download';
+import { loadSavedRules, saveRules } from './services/ruleStore';
+import { loadSavedProfiles } from './services/profileStore';
+import { newSessionId, saveToWorkspace } from './services/workspace';
+import { Check, ChevronRight, FilePlus, HardDrive } from 'lucide-react';
 
 const STEPS = [
   { id: ProcessStep.LOAD, label: 'Load Data' },
   { id: ProcessStep.MAP, label: 'Map Columns' },
+  { id: ProcessStep.QUALITY, label: 'Check Data' },
   { id: ProcessStep.REVIEW, label: 'Review & Assign' },
   { id: ProcessStep.INVOICE, label: 'Generate Invoice' },
 ];
 
+const AUTOSAVE_DELAY_MS = 800;
+
+const emptyFiles = (): FilesState => ({
+  ota: [],
+  gl: [],
+  classificationMap: {},
+  classificationRules: loadSavedRules(),
+  forcedRows: {}
+});
+
+const emptyMappings = (): MappingState => ({ sources: {} });
+
 export default function App() {
   const [currentStep, setCurrentStep] = useState<ProcessStep>(ProcessStep.LOAD);
   
   // State for all data through the pipeline
-  const [files, setFiles] = useState<FilesState>({
-    otaRaw: [],
-    glRaw: [],
-    classificationMap: {}
-  });
+  const [files, setFiles] = useState<FilesState>(emptyFiles);
   
-  const [config, setConfig] = useState<ConfigState>({
-    periodStart: '',
-    periodEnd: '',
-    managerName: '',
-    managerContact: '',
-    managerBank: '',
-    ownerName: '',
-    mgmtFeePercent: 20,
-    feeBaseMode: 'gross_revenue'
-  });
+  const [config, setConfig] = useState<ConfigState>(DEFAULT_CONFIG);
 
-  const [mappings, setMappings] = useState<MappingState>({
-    ota: {},
-    gl: {}
-  });
+  const [mappings, setMappings] = useState<MappingState>(emptyMappings);
 
   const [processedData, setProcessedData] = useState<ProcessedDataState | null>(null);
+  // Unconfirmed edits from the Review step, kept only so autosave and
+  // export capture them before "Finalize" is pressed.
+  const [draftData, setDraftData] = useState<ProcessedDataState | null>(null);
+
+  const [sessionId, setSessionId] = useState<string>(newSessionId);
+  const [createdAt, setCreatedAt] = useState<string>(() => new Date().toISOString());
+  const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
 
   // Auto-scroll to top on step change
   useEffect(() => {
     window.scrollTo({ top: 0, behavior: 'smooth' });
   }, [currentStep]);
 
+  const buildSession = (): SessionState => ({
+    version: SESSION_VERSION,
+    id: sessionId,
+    savedAt: new Date().toISOString(),
+    createdAt,
+    currentStep,
+    files,
+    config,
+    mappings,
+    processedData: draftData ?? processedData
+  });
+
+  // Autosave to the local workspace once there is data worth keeping
+  useEffect(() => {
+    if (!files.ota.length && !files.gl.length) return;
+    setSaveStatus('saving');
+    const handle = setTimeout(() => {
+      saveToWorkspace(sessionId, buildSession())
+        .then(() => setSaveStatus('saved'))
+        .catch(err => {
+          console.error('Autosave failed', err);
+          setSaveStatus('error');
+        });
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(handle);
+  }, [sessionId, currentStep, files, config, mappings, processedData, draftData]);
+
   // Transitions
-  const handleFilesLoaded = (loadedFiles: FilesState, loadedConfig: ConfigState) => {
+  const handleFilesLoaded = (loadedFiles: FilesState, loadedConfig: ConfigState, presetChoices: Record<string, ImportPresetId | null>) => {
     setFiles(loadedFiles);
+    saveRules(loadedFiles.classificationRules);
     setConfig(loadedConfig);
-    const initialMappings = generateInitialMappings(loadedFiles.otaRaw, loadedFiles.glRaw);
+    const initialMappings = generateInitialMappings(loadedFiles, loadSavedProfiles(), presetChoices);
     setMappings(initialMappings);
     setCurrentStep(ProcessStep.MAP);
   };
@@ -69,17 +109,33 @@ export default function App() {
     setMappings(confirmedMappings);
     const result = processData(files, config, confirmedMappings);
     setProcessedData(result);
-    setCurrentStep(ProcessStep.REVIEW);
+    setDraftData(null);
+    setCurrentStep(ProcessStep.QUALITY);
+  };
+
+  // Fixes from the data-quality step go back into the source rows
+  const handleQualityFixes = (fixedFiles: FilesState) => {
+    setFiles(fixedFiles);
+    setProcessedData(processData(fixedFiles, config, mappings));
+    setDraftData(null);
+  };
+
+  const handleRulesAccepted = (learned: ClassificationRule[]) => {
+    const nextRules = [...(files.classificationRules || []), ...learned];
+    setFiles(prev => ({ ...prev, classificationRules: nextRules }));
+    saveRules(nextRules);
   };
 
   const handleReviewComplete = (updatedData: ProcessedDataState) => {
     setProcessedData(updatedData);
+    setDraftData(null);
     setCurrentStep(ProcessStep.INVOICE);
   };
 
   const handleBack = () => {
     if (currentStep === ProcessStep.MAP) setCurrentStep(ProcessStep.LOAD);
-    if (currentStep === ProcessStep.REVIEW) setCurrentStep(ProcessStep.MAP);
+    if (currentStep === ProcessStep.QUALITY) setCurrentStep(ProcessStep.MAP);
+    if (currentStep === ProcessStep.REVIEW) setCurrentStep(ProcessStep.QUALITY);
     if (currentStep === ProcessStep.INVOICE) setCurrentStep(ProcessStep.REVIEW);
   };
 
@@ -95,40 +151,39 @@ export default function App() {
   };
 
   const handleSaveSession = () => {
-    const session: SessionState = {
-      version: 1,
-      savedAt: new Date().toISOString(),
-      currentStep,
-      files,
-      config,
-      mappings,
-      processedData
-    };
-
-    const json = JSON.stringify(session, null, 2);
-    const blob = new Blob([json], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const safeOwner = config.ownerName ? config.ownerName.replace(/[^a-z0-9]/gi, '_').toLowerCase() : 'owner';
+    const session = buildSession();
+    const safeOwner = safeFilePart(config.ownerName, 'owner');
     const safePeriod = config.periodStart ? config.periodStart : 'draft';
     const timestamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, '');
-    const filename = `str-session-${safeOwner}-${safePeriod}-${timestamp}.json`;
-
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = filename;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    downloadJson(session, `str-session-${safeOwner}-${safePeriod}-${timestamp}.json`);
+  };
+
+  const handleNewSession = () => {
+    setFiles(emptyFiles());
+    setConfig(DEFAULT_CONFIG);
+    setMappings(emptyMappings());
+    setProcessedData(null);
+    setDraftData(null);
+    setSessionId(newSessionId());
+    setCreatedAt(new Date().toISOString());
+    setSaveStatus('idle');
+    setCurrentStep(ProcessStep.LOAD);
   };
 
   const restoreFromSession = (session: SessionState) => {
-    setFiles(session.files);
+    setSessionId(session.id || newSessionId());
+    setCreatedAt(session.createdAt || session.savedAt);
+    setDraftData(null);
+    setFiles({
+      ...session.files,
+      // Sessions from before the rule library carry no rules of their own
+      classificationRules: session.files.classificationRules.length ? session.files.classificationRules : loadSavedRules()
+    });
+    // Sessions arrive migrated and validated by services/sessionSchema
     setConfig(session.config);
     setMappings(session.mappings);
     setProcessedData(session.processedData);
-    const isValidStep = Object.values(ProcessStep).includes(session.currentStep);
-    setCurrentStep(isValidStep ? session.currentStep : ProcessStep.REVIEW);
+    setCurrentStep(session.currentStep);
   };
 
   return (
@@ -188,6 +243,23 @@ export default function App() {
                 );
               })}
             </nav>
+
+            <div className="flex items-center gap-3">
+              {saveStatus !== 'idle' && (
+                <span className={`hidden sm:flex items-center gap-1.5 text-xs font-medium ${saveStatus === 'error' ? 'text-red-500' : 'text-slate-400'}`}>
+                  <HardDrive size={14} />
+                  {saveStatus === 'saving' ? 'Saving…' : saveStatus === 'saved' ? 'Saved locally' : 'Autosave failed'}
+                </span>
+              )}
+              <button
+                onClick={handleNewSession}
+                className="inline-flex items-center px-3 py-1.5 border border-slate-300 text-xs font-medium rounded-lg text-slate-700 bg-white hover:bg-slate-50 transition-colors"
+                title="Start a new session (the current one stays in the workspace)"
+              >
+                <FilePlus className="mr-1.5 h-4 w-4" />
+                New
+              </button>
+            </div>
           </div>
         </div>
         <div className="md:hidden h-1 bg-slate-100 w-full">
@@ -202,7 +274,10 @@ export default function App() {
         <div className="max-w-5xl mx-auto">
           {currentStep === ProcessStep.LOAD && (
             <StepLoad 
+              key={sessionId}
               initialConfig={config}
+              initialRules={files.classificationRules || []}
+              activeSessionId={sessionId}
               onNext={handleFilesLoaded} 
               onResumeSession={restoreFromSession}
             />
@@ -211,19 +286,34 @@ export default function App() {
           {currentStep === ProcessStep.MAP && (
             <StepMap 
               files={files} 
+              config={config}
               initialMappings={mappings}
               onBack={handleBack}
               onNext={handleMappingConfirmed} 
             />
           )}
 
+          {currentStep === ProcessStep.QUALITY && processedData && (
+            <StepQuality
+              data={processedData}
+              files={files}
+              mappings={mappings}
+              onBack={handleBack}
+              onNext={() => setCurrentStep(ProcessStep.REVIEW)}
+              onReprocess={handleQualityFixes}
+            />
+          )}
+
           {currentStep === ProcessStep.REVIEW && processedData && (
             <StepReview 
               data={processedData}
               config={config}
+              rules={files.classificationRules || []}
               onBack={handleBack}
               onNext={handleReviewComplete}
               onSaveDraft={handleSaveSession}
+              onRulesAccepted={handleRulesAccepted}
+              onDraftChange={setDraftData}
             />
           )}
 
@@ -231,6 +321,7 @@ export default function App() {
             <StepInvoice 
               data={processedData}
               config={config}
+              sessionId={sessionId}
               onBack={handleBack}
               onSaveDraft={handleSaveSession}
             />
@@ -0,0 +1,97 @@
+import React from 'react';
+import { CanonicalGlRow, CanonicalOtaRow } from '../types';
+import { CATEGORY_LABELS } from '../constants';
+import { DuplicateGroup } from '../services/duplicates';
+import { formatMoney } from '../services/money';
+import { Copy, X } from 'lucide-react';
+
+interface Props {
+  groups: DuplicateGroup[];
+  rowsById: Map<string, CanonicalOtaRow | CanonicalGlRow>;
+  dismissed: string[];
+  currency: string;
+  onMerge: (group: DuplicateGroup, keepId: string) => void;
+  onDismiss: (key: string) => void;
+  onRestoreDismissed: () => void;
+}
+
+const KIND_LABELS: Record<DuplicateGroup['kind'], string> = {
+  booking: 'Bookings',
+  income: 'GL income',
+  expense: 'GL expenses'
+};
+
+const isBooking = (row: CanonicalOtaRow | CanonicalGlRow): row is CanonicalOtaRow => 'reservation_id' in row;
+
+export const DuplicatePanel: React.FC<Props> = ({ groups, rowsById, dismissed, currency, onMerge, onDismiss, onRestoreDismissed }) => {
+  const open = groups.filter(g => !dismissed.includes(g.key));
+  const dismissedCount = groups.length - open.length;
+  if (!groups.length) return null;
+
+  const describeRow = (row: CanonicalOtaRow | CanonicalGlRow) => isBooking(row)
+    ? { date: row.check_in_date, text: `${row.reservation_id} · ${row.guest_name || 'No guest name'}`, amount: row.net_payout, extra: row.matched_gl_ids?.length ? 'Matched' : '' }
+    : {
+        date: row.date,
+        text: [row.description || row.account_name, row.contact].filter(Boolean).join(' · '),
+        amount: row.debit_amount || row.credit_amount,
+        extra: row.is_reconciled_ota ? 'Matched' : row.assigned_category ? CATEGORY_LABELS[row.assigned_category] : ''
+      };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="p-4 border-b border-slate-200 bg-slate-50/50 flex items-center justify-between gap-4">
+        <div>
+          <h2 className="text-base font-bold text-slate-900 flex items-center gap-2"><Copy size={18} className="text-indigo-600" />Possible Duplicates</h2>
+          <p className="text-xs text-slate-500">Rows that look like the same transaction imported twice. Keep one to merge the group, or dismiss it if they are separate.</p>
+        </div>
+        {dismissedCount > 0 && (
+          <button onClick={onRestoreDismissed} className="text-xs font-medium text-indigo-600 hover:text-indigo-800 whitespace-nowrap">
+            Restore {dismissedCount} dismissed
+          </button>
+        )}
+      </div>
+      {open.length === 0 ? (
+        <p className="px-4 py-6 text-xs text-slate-400 text-center">All suspected duplicates have been resolved.</p>
+      ) : (
+        <div className="divide-y divide-slate-100 max-h-[480px] overflow-auto custom-scrollbar">
+          {open.map(group => (
+            <div key={group.key} className="px-4 py-3">
+              <div className="flex items-center justify-between mb-2">
+                <div className="flex items-center gap-2 text-xs">
+                  <span className="font-semibold text-slate-700">{KIND_LABELS[group.kind]}</span>
+                  {group.exact
+                    ? <span className="px-1.5 py-0.5 rounded bg-red-50 text-red-700 font-semibold uppercase text-[10px]">Exact copy</span>
+                    : <span className="px-1.5 py-0.5 rounded bg-amber-50 text-amber-700 font-semibold uppercase text-[10px]">Similar</span>}
+                </div>
+                <button onClick={() => onDismiss(group.key)} className="inline-flex items-center text-xs font-medium text-slate-500 hover:text-slate-800">
+                  <X className="mr-1 h-3.5 w-3.5" />
+                  Not duplicates
+                </button>
+              </div>
+              <table className="min-w-full text-xs">
+                <tbody>
+                  {group.ids.map(id => rowsById.get(id)).filter(Boolean).map(row => {
+                    const r = describeRow(row!);
+                    return (
+                      <tr key={row!.id}>
+                        <td className="py-1 pr-4 whitespace-nowrap text-slate-500">{r.date}</td>
+                        <td className="py-1 pr-4 text-slate-900 truncate max-w-[320px]">{r.text}</td>
+                        <td className="py-1 pr-4 whitespace-nowrap text-slate-400">{r.extra}</td>
+                        <td className="py-1 pr-4 whitespace-nowrap text-right font-medium text-slate-900">{formatMoney(r.amount, currency)}</td>
+                        <td className="py-1 text-right">
+                          <button onClick={() => onMerge(group, row!.id)} className="px-2 py-0.5 rounded-md text-indigo-700 bg-indigo-50 hover:bg-indigo-100 font-medium">
+                            Keep this one
+                          </button>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,143 @@
+import React from 'react';
+import { FeeModel, FeeTier } from '../types';
+import { Plus, Trash2 } from 'lucide-react';
+import { FEE_COMPONENTS } from '../services/bookingComponents';
+
+interface Props {
+  model: FeeModel;
+  flatPercent: number; // used when there are no tiers
+  onChange: (model: FeeModel) => void;
+}
+
+const inputClass = 'block w-full rounded-lg border-slate-200 text-sm focus:border-indigo-500 focus:ring-indigo-500 shadow-sm';
+
+export const FeeModelEditor: React.FC<Props> = ({ model, flatPercent, onChange }) => {
+  const update = (updates: Partial<FeeModel>) => onChange({ ...model, ...updates });
+
+  const updateTier = (index: number, updates: Partial<FeeTier>) =>
+    update({ tiers: model.tiers.map((t, i) => i === index ? { ...t, ...updates } : t) });
+
+  // Fee calculation treats the top tier as open-ended
+  const topTierLimit = model.tiers.length && model.tiers.every(t => t.upTo !== null)
+    ? Math.max(...model.tiers.map(t => t.upTo!))
+    : null;
+
+  const addTier = () => {
+    const last = model.tiers[model.tiers.length - 1];
+    // Close off the open-ended band so the new one starts where it ends
+    const previousLimit = model.tiers.length > 1 ? model.tiers[model.tiers.length - 2].upTo || 0 : 0;
+    const closed = last && last.upTo === null
+      ? model.tiers.map((t, i) => i === model.tiers.length - 1 ? { ...t, upTo: previousLimit + 5000 } : t)
+      : model.tiers;
+    update({ tiers: [...closed, { upTo: null, percent: last ? last.percent : flatPercent }] });
+  };
+
+  const channels: [string, number][] = Object.keys(model.channelPercents).map(c => [c, model.channelPercents[c]]);
+
+  const setChannels = (entries: [string, number][]) => {
+    const channelPercents: Record<string, number> = {};
+    entries.forEach(([channel, pct]) => { channelPercents[channel] = pct; });
+    update({ channelPercents });
+  };
+
+  const addChannel = () => {
+    let name = 'Channel';
+    for (let n = 2; name in model.channelPercents; n++) name = `Channel ${n}`;
+    setChannels([...channels, [name, flatPercent]]);
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <span className="text-xs font-medium text-slate-700">Revenue Tiers</span>
+          {model.tiers.length > 0 && (
+            <select className="rounded-lg border-slate-200 text-xs py-1 focus:border-indigo-500 focus:ring-indigo-500" value={model.tierMode} onChange={e => update({ tierMode: e.target.value as FeeModel['tierMode'] })}>
+              <option value="marginal">Each band at its own rate</option>
+              <option value="whole">Band reached applies to all</option>
+            </select>
+          )}
+        </div>
+        {model.tiers.length === 0 && <p className="text-xs text-slate-400">No tiers: the flat {flatPercent}% applies.</p>}
+        {model.tiers.map((tier, i) => (
+          <div key={i} className="flex items-center gap-2">
+            <span className="text-xs text-slate-400 w-12 shrink-0">Up to</span>
+            <input
+              type="number"
+              className={inputClass}
+              value={tier.upTo ?? ''}
+              placeholder="No limit"
+              onChange={e => updateTier(i, { upTo: e.target.value === '' ? null : parseFloat(e.target.value) })}
+            />
+            <div className="relative w-24 shrink-0">
+              <input type="number" className={`${inputClass} pr-7`} value={tier.percent} onChange={e => updateTier(i, { percent: parseFloat(e.target.value) || 0 })} />
+              <span className="pointer-events-none absolute inset-y-0 right-0 flex items-center pr-2.5 text-slate-400 text-xs">%</span>
+            </div>
+            <button onClick={() => update({ tiers: model.tiers.filter((_, j) => j !== i) })} className="p-1.5 rounded-md text-slate-400 hover:text-red-600 hover:bg-red-50 transition-colors" title="Remove tier">
+              <Trash2 size={14} />
+            </button>
+          </div>
+        ))}
+        {topTierLimit !== null && (
+          <p className="text-xs text-amber-700">The highest tier also covers revenue over {topTierLimit}, as if it had no limit.</p>
+        )}
+        <button onClick={addTier} className="inline-flex items-center text-xs font-medium text-indigo-600 hover:text-indigo-800">
+          <Plus className="mr-1 h-3.5 w-3.5" />
+          Add tier
+        </button>
+
+        <div className="pt-2">
+          <span className="text-xs font-medium text-slate-700">Channel Rates</span>
+          <p className="text-xs text-slate-400 mb-2">Bookings from these channels are charged at their own rate instead of the tiers. Needs the Channel column mapped or a channel set on the OTA file.</p>
+          {channels.map(([channel, pct], i) => (
+            <div key={i} className="flex items-center gap-2 mb-2">
+              <input
+                type="text"
+                className={inputClass}
+                value={channel}
+                onChange={e => setChannels(channels.map((c, j): [string, number] => j === i ? [e.target.value, c[1]] : c))}
+                placeholder="e.g. Airbnb"
+              />
+              <div className="relative w-24 shrink-0">
+                <input type="number" className={`${inputClass} pr-7`} value={pct} onChange={e => setChannels(channels.map((c, j): [string, number] => j === i ? [c[0], parseFloat(e.target.value) || 0] : c))} />
+                <span className="pointer-events-none absolute inset-y-0 right-0 flex items-center pr-2.5 text-slate-400 text-xs">%</span>
+              </div>
+              <button onClick={() => setChannels(channels.filter((_, j) => j !== i))} className="p-1.5 rounded-md text-slate-400 hover:text-red-600 hover:bg-red-50 transition-colors" title="Remove channel rate">
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+          <button onClick={addChannel} className="inline-flex items-center text-xs font-medium text-indigo-600 hover:text-indigo-800">
+            <Plus className="mr-1 h-3.5 w-3.5" />
+            Add channel rate
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <span className="text-xs font-medium text-slate-700 mb-1 block">Minimum Fee</span>
+            <input type="number" min={0} step="0.01" className={inputClass} value={model.minimumFee} onChange={e => update({ minimumFee: parseFloat(e.target.value) || 0 })} />
+          </div>
+          <div>
+            <span className="text-xs font-medium text-slate-700 mb-1 block">Per-Booking Fee</span>
+            <input type="number" min={0} step="0.01" className={inputClass} value={model.perBookingFee} onChange={e => update({ perBookingFee: parseFloat(e.target.value) || 0 })} />
+          </div>
+        </div>
+        <div>
+          <span className="text-xs font-medium text-slate-700 mb-1 block">Pass Through (not commissionable)</span>
+          <div className="flex flex-wrap gap-x-5 gap-y-1">
+            {FEE_COMPONENTS.map(c => (
+              <label key={c.key} className="flex items-center gap-2 text-xs text-slate-600">
+                <input type="checkbox" className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500" checked={model[c.setting]} onChange={e => update({ [c.setting]: e.target.checked })} />
+                {c.label}
+              </label>
+            ))}
+          </div>
+          <p className="text-xs text-slate-400 mt-1">Excluded from the fee base. Needs the fee's column mapped; lodging tax is never commissionable.</p>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,94 @@
+import React from 'react';
+import { BedDouble } from 'lucide-react';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
+import { formatAverage, formatPercent, KpiSummary } from '../services/kpis';
+import { formatMoney } from '../services/money';
+
+interface Props {
+  kpis: KpiSummary;
+  currency: string;
+}
+
+interface TileProps {
+  label: string;
+  value: string;
+  hint?: string;
+}
+
+const Tile: React.FC<TileProps> = ({ label, value, hint }) => (
+  <div className="rounded-lg bg-slate-50 px-3 py-2">
+    <div className="text-[10px] font-semibold text-slate-400 uppercase tracking-wide">{label}</div>
+    <div className="text-base font-bold text-slate-900">{value}</div>
+    {hint && <div className="text-[10px] text-slate-400">{hint}</div>}
+  </div>
+);
+
+// Occupancy and rate figures for the period, overall and per channel
+export const KpiDashboard: React.FC<Props> = ({ kpis, currency }) => {
+  const money = (n: number | null) => n === null ? '—' : formatMoney(n, currency);
+  const channels = kpis.byChannel.filter(c => c.nightsBooked > 0);
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6">
+      <h3 className="text-sm font-bold text-slate-900 mb-4 flex items-center gap-2">
+        <BedDouble className="w-4 h-4 text-indigo-500" />
+        Occupancy & Rates
+      </h3>
+      <div className="grid grid-cols-2 gap-2">
+        <Tile
+          label="Occupancy"
+          value={formatPercent(kpis.occupancy)}
+          hint={`${kpis.nightsBooked} of ${kpis.availableNights} nights${kpis.units > 1 ? ` · ${kpis.units} units` : ''}`}
+        />
+        <Tile label="ADR" value={money(kpis.adr)} hint="Room revenue per night" />
+        <Tile label="RevPAR" value={money(kpis.revpar)} hint="Per available night" />
+        <Tile label="Avg. stay" value={formatAverage(kpis.averageStay, 'nights')} />
+        <Tile label="Lead time" value={formatAverage(kpis.leadTime, 'days')} hint={kpis.leadTime === null ? 'Map a booking date' : undefined} />
+        <Tile label="Bookings" value={String(kpis.bookings)} />
+      </div>
+      {kpis.undatedStays > 0 && (
+        <p className="mt-3 text-xs text-amber-700">
+          {kpis.undatedStays} booking{kpis.undatedStays === 1 ? ' has' : 's have'} no check-out date and {kpis.undatedStays === 1 ? 'is' : 'are'} left out of the night counts.
+        </p>
+      )}
+
+      {channels.length > 1 && (
+        <>
+          <div className="w-full h-[140px] mt-4">
+            <ResponsiveContainer width="100%" height="100%" minHeight={120}>
+              <BarChart data={channels} layout="vertical" margin={{ left: 8, right: 8 }}>
+                <XAxis type="number" hide />
+                <YAxis type="category" dataKey="channel" width={80} tick={{ fontSize: 11 }} />
+                <Tooltip
+                  formatter={(val: number) => [`${val} nights`, 'Booked']}
+                  contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
+                />
+                <Bar dataKey="nightsBooked" fill="#6366f1" radius={[0, 4, 4, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+          <table className="w-full mt-2 text-xs">
+            <thead>
+              <tr className="text-slate-400">
+                <th className="py-1 text-left font-medium">Channel</th>
+                <th className="py-1 text-right font-medium">Occ.</th>
+                <th className="py-1 text-right font-medium">ADR</th>
+                <th className="py-1 text-right font-medium">Stay</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {channels.map(c => (
+                <tr key={c.channel}>
+                  <td className="py-1 text-slate-700">{c.channel}</td>
+                  <td className="py-1 text-right text-slate-700">{formatPercent(c.occupancy)}</td>
+                  <td className="py-1 text-right text-slate-700">{money(c.adr)}</td>
+                  <td className="py-1 text-right text-slate-500">{formatAverage(c.averageStay, 'n')}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+};
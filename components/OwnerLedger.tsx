@@ -0,0 +1,62 @@
+import React from 'react';
+import { IssuedStatement, OwnerBalance } from '../types';
+import { BookOpen } from 'lucide-react';
+import { formatMoney } from '../services/money';
+
+interface Props {
+  history: IssuedStatement[]; // oldest first
+  draft?: { periodStart: string; periodEnd: string; number: string; currency: string; balance: OwnerBalance };
+}
+
+export const OwnerLedger: React.FC<Props> = ({ history, draft }) => {
+  const rows = [
+    ...history.map(s => ({ key: s.id, periodStart: s.periodStart, periodEnd: s.periodEnd, number: s.number, currency: s.currency || 'USD', balance: s.balance!, isDraft: false })),
+    ...(draft ? [{ key: 'draft', ...draft, isDraft: true }] : [])
+  ];
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="p-4 border-b border-slate-200 bg-slate-50/50">
+        <h2 className="text-base font-bold text-slate-900 flex items-center gap-2"><BookOpen size={18} className="text-indigo-600" />Owner Ledger</h2>
+        <p className="text-xs text-slate-500">Running balance across finalized statements for this owner or property. Each opening balance is the previous closing balance.</p>
+      </div>
+      {rows.length === 0 ? (
+        <p className="px-4 py-6 text-xs text-slate-400 text-center">No balances recorded yet.</p>
+      ) : (
+        <div className="max-h-[320px] overflow-auto custom-scrollbar">
+          <table className="min-w-full divide-y divide-slate-100 text-sm">
+            <thead className="bg-slate-50 sticky top-0">
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-semibold text-slate-500 uppercase tracking-wide">Period</th>
+                <th className="px-4 py-2 text-left text-xs font-semibold text-slate-500 uppercase tracking-wide">Statement</th>
+                <th className="px-4 py-2 text-right text-xs font-semibold text-slate-500 uppercase tracking-wide">Opening</th>
+                <th className="px-4 py-2 text-right text-xs font-semibold text-slate-500 uppercase tracking-wide">Activity</th>
+                <th className="px-4 py-2 text-right text-xs font-semibold text-slate-500 uppercase tracking-wide">Received</th>
+                <th className="px-4 py-2 text-right text-xs font-semibold text-slate-500 uppercase tracking-wide">Paid Out</th>
+                <th className="px-4 py-2 text-right text-xs font-semibold text-slate-500 uppercase tracking-wide">Closing</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {rows.map(r => (
+                <tr key={r.key} className={r.isDraft ? 'bg-amber-50/40 italic' : 'hover:bg-slate-50'}>
+                  <td className="px-4 py-2 whitespace-nowrap text-xs text-slate-600">{r.periodStart} to {r.periodEnd}</td>
+                  <td className="px-4 py-2 whitespace-nowrap font-mono text-xs text-slate-900">
+                    {r.number}
+                    {r.isDraft && <span className="ml-1.5 not-italic font-sans text-[10px] font-semibold text-amber-600 uppercase">Draft</span>}
+                  </td>
+                  <td className="px-4 py-2 whitespace-nowrap text-right text-slate-600">{formatMoney(r.balance.openingBalance, r.currency)}</td>
+                  <td className="px-4 py-2 whitespace-nowrap text-right text-slate-600">{formatMoney(r.balance.activity, r.currency)}</td>
+                  <td className="px-4 py-2 whitespace-nowrap text-right text-slate-600">{formatMoney(r.balance.paymentsReceived, r.currency)}</td>
+                  <td className="px-4 py-2 whitespace-nowrap text-right text-slate-600">{formatMoney(r.balance.paymentToOwner, r.currency)}</td>
+                  <td className={`px-4 py-2 whitespace-nowrap text-right font-medium ${r.balance.closingBalance < 0 ? 'text-red-600' : 'text-slate-900'}`}>
+                    {formatMoney(r.balance.closingBalance, r.currency)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,205 @@
+import React, { useMemo, useState } from 'react';
+import { CanonicalGlRow, CanonicalOtaRow } from '../types';
+import { MATCH_RULE_LABELS } from '../constants';
+import { linkRows, ReconciliationRows, setTimingDifference, unlinkRows } from '../services/reconciliation';
+import { Link2, Unlink, Clock, GitMerge } from 'lucide-react';
+import { formatMoney } from '../services/money';
+
+interface Props {
+  otaBookings: CanonicalOtaRow[];
+  glIncome: CanonicalGlRow[];
+  currency: string;
+  onChange: (rows: ReconciliationRows) => void;
+}
+
+interface MatchGroup {
+  key: string;
+  otas: CanonicalOtaRow[];
+  gls: CanonicalGlRow[];
+}
+
+const toggle = (list: string[], id: string) =>
+  list.includes(id) ? list.filter(x => x !== id) : [...list, id];
+
+export const ReconciliationPanel: React.FC<Props> = ({ otaBookings, glIncome, currency, onChange }) => {
+  const [selectedOta, setSelectedOta] = useState<string[]>([]);
+  const [selectedGl, setSelectedGl] = useState<string[]>([]);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const rows: ReconciliationRows = { otaBookings, glIncome };
+  const unmatchedOta = otaBookings.filter(o => !o.matched_gl_ids?.length);
+  const unmatchedGl = glIncome.filter(g => !g.is_reconciled_ota);
+
+  const groups = useMemo(() => {
+    const byKey = new Map<string, MatchGroup>();
+    otaBookings.filter(o => o.matched_gl_ids?.length).forEach(o => {
+      const key = [...(o.matched_gl_ids || [])].sort().join('|');
+      if (!byKey.has(key)) {
+        byKey.set(key, { key, otas: [], gls: glIncome.filter(g => o.matched_gl_ids!.includes(g.id)) });
+      }
+      byKey.get(key)!.otas.push(o);
+    });
+    return Array.from(byKey.values());
+  }, [otaBookings, glIncome]);
+
+  const selectedOtaTotal = otaBookings.filter(o => selectedOta.includes(o.id)).reduce((sum, o) => sum + o.net_payout, 0);
+  const selectedGlTotal = glIncome.filter(g => selectedGl.includes(g.id)).reduce((sum, g) => sum + g.credit_amount, 0);
+  const canLink = selectedOta.length > 0 && selectedGl.length > 0;
+
+  const commit = (next: ReconciliationRows) => {
+    onChange(next);
+    setSelectedOta([]);
+    setSelectedGl([]);
+  };
+
+  const handleLink = () => {
+    if (canLink) commit(linkRows(rows, selectedOta, selectedGl));
+  };
+
+  // Dropping a booking on a deposit links it together with anything else selected
+  const handleDrop = (glId: string, e: React.DragEvent) => {
+    e.preventDefault();
+    setDropTarget(null);
+    const otaId = e.dataTransfer.getData('text/plain');
+    if (!otaId) return;
+    const otaIds = selectedOta.includes(otaId) ? selectedOta : [...selectedOta, otaId];
+    const glIds = selectedGl.includes(glId) ? selectedGl : [...selectedGl, glId];
+    commit(linkRows(rows, otaIds, glIds));
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="p-4 border-b border-slate-200 bg-slate-50/50 flex flex-col sm:flex-row justify-between items-center gap-4">
+        <div>
+          <h2 className="text-base font-bold text-slate-900 flex items-center gap-2"><GitMerge size={18} className="text-indigo-600" />Reconciliation</h2>
+          <p className="text-xs text-slate-500">Select or drag bookings onto GL credits to link them. Unlink wrong pairs below.</p>
+        </div>
+        <div className="flex items-center gap-3">
+          {canLink && (
+            <span className={`text-xs font-medium ${Math.abs(selectedOtaTotal - selectedGlTotal) < 0.01 ? 'text-emerald-600' : 'text-amber-600'}`}>
+              {formatMoney(selectedOtaTotal, currency)} vs {formatMoney(selectedGlTotal, currency)}
+            </span>
+          )}
+          <button
+            onClick={handleLink}
+            disabled={!canLink}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-xs font-medium rounded-lg text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <Link2 className="mr-1.5 h-4 w-4" />
+            Link Selected
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 divide-y md:divide-y-0 md:divide-x divide-slate-200">
+        <div className="max-h-[360px] overflow-auto custom-scrollbar">
+          <div className="px-4 py-2 text-xs font-bold text-slate-500 uppercase tracking-wider bg-slate-50 sticky top-0">
+            Unmatched Bookings ({unmatchedOta.length})
+          </div>
+          {unmatchedOta.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-slate-400 text-center">Every booking is matched.</p>
+          ) : unmatchedOta.map(o => (
+            <div
+              key={o.id}
+              draggable
+              onDragStart={e => e.dataTransfer.setData('text/plain', o.id)}
+              onClick={() => setSelectedOta(prev => toggle(prev, o.id))}
+              className={`px-4 py-2 flex items-center justify-between gap-3 cursor-pointer border-b border-slate-100 transition-colors ${
+                selectedOta.includes(o.id) ? 'bg-indigo-50' : 'hover:bg-slate-50'
+              }`}
+            >
+              <div className="min-w-0">
+                <div className="text-sm font-medium text-slate-900 truncate">{o.guest_name || 'Guest Booking'}</div>
+                <div className="text-xs text-slate-500">{o.payout_date || o.check_in_date} · Ref: {o.reservation_id}</div>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <span className="text-sm font-semibold text-slate-900">{formatMoney(o.net_payout, currency)}</span>
+                <button
+                  onClick={e => { e.stopPropagation(); commit(setTimingDifference(rows, o.id, !o.timing_difference)); }}
+                  className={`p-1 rounded-md transition-colors ${o.timing_difference ? 'bg-amber-100 text-amber-700' : 'text-slate-300 hover:text-amber-600 hover:bg-amber-50'}`}
+                  title={o.timing_difference ? 'Timing difference (click to clear)' : 'Mark as timing difference'}
+                >
+                  <Clock size={14} />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="max-h-[360px] overflow-auto custom-scrollbar">
+          <div className="px-4 py-2 text-xs font-bold text-slate-500 uppercase tracking-wider bg-slate-50 sticky top-0">
+            Unmatched GL Credits ({unmatchedGl.length})
+          </div>
+          {unmatchedGl.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-slate-400 text-center">No unmatched income.</p>
+          ) : unmatchedGl.map(g => (
+            <div
+              key={g.id}
+              onDragOver={e => { e.preventDefault(); setDropTarget(g.id); }}
+              onDragLeave={() => setDropTarget(null)}
+              onDrop={e => handleDrop(g.id, e)}
+              onClick={() => setSelectedGl(prev => toggle(prev, g.id))}
+              className={`px-4 py-2 flex items-center justify-between gap-3 cursor-pointer border-b border-slate-100 transition-colors ${
+                dropTarget === g.id ? 'bg-indigo-100 ring-2 ring-inset ring-indigo-400' : selectedGl.includes(g.id) ? 'bg-indigo-50' : 'hover:bg-slate-50'
+              }`}
+            >
+              <div className="min-w-0">
+                <div className="text-sm font-medium text-slate-900 truncate" title={g.description}>{g.description || g.account_name}</div>
+                <div className="text-xs text-slate-500">{g.date}{g.contact && ` · ${g.contact}`}</div>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <span className="text-sm font-semibold text-slate-900">{formatMoney(g.credit_amount, currency)}</span>
+                <button
+                  onClick={e => { e.stopPropagation(); commit(setTimingDifference(rows, g.id, !g.timing_difference)); }}
+                  className={`p-1 rounded-md transition-colors ${g.timing_difference ? 'bg-amber-100 text-amber-700' : 'text-slate-300 hover:text-amber-600 hover:bg-amber-50'}`}
+                  title={g.timing_difference ? 'Timing difference (click to clear)' : 'Mark as timing difference'}
+                >
+                  <Clock size={14} />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="border-t border-slate-200">
+        <div className="px-4 py-2 text-xs font-bold text-slate-500 uppercase tracking-wider bg-slate-50">
+          Matched ({groups.length})
+        </div>
+        <div className="max-h-[280px] overflow-auto custom-scrollbar divide-y divide-slate-100">
+          {groups.map(group => (
+            <div key={group.key} className="px-4 py-2 flex items-center justify-between gap-4">
+              <div className="min-w-0 flex-1 grid grid-cols-2 gap-4">
+                <div className="text-xs text-slate-700">
+                  {group.otas.map(o => (
+                    <div key={o.id} className="truncate">{o.guest_name || o.reservation_id} · {formatMoney(o.net_payout, currency)}</div>
+                  ))}
+                </div>
+                <div className="text-xs text-slate-700">
+                  {group.gls.map(g => (
+                    <div key={g.id} className="truncate">{g.date} · {g.description || g.account_name} · {formatMoney(g.credit_amount, currency)}</div>
+                  ))}
+                </div>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                {group.otas[0].match_rule && (
+                  <span className="text-[10px] font-semibold uppercase tracking-wide px-2 py-0.5 rounded-full bg-blue-50 text-blue-700">
+                    {MATCH_RULE_LABELS[group.otas[0].match_rule]}
+                    {group.otas[0].match_rule !== 'manual' && ` · ${Math.round((group.otas[0].match_score || 0) * 100)}%`}
+                  </span>
+                )}
+                <button
+                  onClick={() => commit(unlinkRows(rows, group.otas[0].id))}
+                  className="p-1.5 rounded-md text-slate-400 hover:text-red-600 hover:bg-red-50 transition-colors"
+                  title="Unlink"
+                >
+                  <Unlink size={14} />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
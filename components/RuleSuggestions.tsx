@@ -0,0 +1,90 @@
+import React, { useMemo, useState } from 'react';
+import { CanonicalGlRow, ClassificationRule } from '../types';
+import { CATEGORY_LABELS } from '../constants';
+import { proposeRules } from '../services/ruleLearning';
+import { Sparkles, Check } from 'lucide-react';
+
+interface Props {
+  rows: CanonicalGlRow[];
+  rules: ClassificationRule[];
+  onAccept: (rules: ClassificationRule[]) => void;
+}
+
+const BASIS_LABELS = {
+  contact: 'Contact contains',
+  account: 'Account is',
+  description: 'Description matches'
+};
+
+export const RuleSuggestions: React.FC<Props> = ({ rows, rules, onAccept }) => {
+  const proposals = useMemo(() => proposeRules(rows, rules), [rows, rules]);
+  const [deselected, setDeselected] = useState<string[]>([]);
+  const [acceptedCount, setAcceptedCount] = useState(0);
+
+  const selected = proposals.filter(p => !deselected.includes(p.key));
+
+  const handleAccept = () => {
+    if (!selected.length) return;
+    onAccept(selected.map(p => p.rule));
+    setAcceptedCount(selected.length);
+    setDeselected([]);
+  };
+
+  if (proposals.length === 0) {
+    if (!acceptedCount) return null;
+    return (
+      <div className="bg-emerald-50 border border-emerald-100 rounded-2xl p-4 text-sm text-emerald-800 flex items-center gap-2">
+        <Check size={16} />
+        {acceptedCount} rule{acceptedCount === 1 ? '' : 's'} saved. Matching rows will be classified automatically next period.
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="p-4 border-b border-slate-200 bg-slate-50/50 flex flex-col sm:flex-row justify-between items-center gap-4">
+        <div>
+          <h2 className="text-base font-bold text-slate-900 flex items-center gap-2"><Sparkles size={18} className="text-indigo-600" />Suggested Rules</h2>
+          <p className="text-xs text-slate-500">Learned from the categories assigned above. Accepted rules are saved on this device.</p>
+        </div>
+        <button
+          onClick={handleAccept}
+          disabled={!selected.length}
+          className="inline-flex items-center px-4 py-2 border border-transparent text-xs font-medium rounded-lg text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          <Check className="mr-1.5 h-4 w-4" />
+          Accept {selected.length} Rule{selected.length === 1 ? '' : 's'}
+        </button>
+      </div>
+      <div className="max-h-[280px] overflow-auto custom-scrollbar divide-y divide-slate-100">
+        {proposals.map(p => {
+          const isSelected = !deselected.includes(p.key);
+          const condition = p.rule.contact || p.rule.account || p.rule.descriptionPattern;
+          return (
+            <label key={p.key} className={`px-4 py-2.5 flex items-center gap-3 cursor-pointer transition-colors ${isSelected ? 'bg-white' : 'bg-slate-50 opacity-60'}`}>
+              <input
+                type="checkbox"
+                className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                checked={isSelected}
+                onChange={() => setDeselected(prev => isSelected ? [...prev, p.key] : prev.filter(k => k !== p.key))}
+              />
+              <div className="min-w-0 flex-1">
+                <div className="text-sm text-slate-900">
+                  <span className="text-slate-500">{BASIS_LABELS[p.basis]}</span>{' '}
+                  <span className="font-mono font-medium">{condition}</span>
+                  <span className="text-slate-400 mx-2">→</span>
+                  <span className="font-medium">{CATEGORY_LABELS[p.rule.category]}</span>
+                  {p.rule.splitPercent !== undefined && <span className="text-blue-600 font-medium"> ({p.rule.splitPercent}% owner)</span>}
+                </div>
+                <div className="text-xs text-slate-400">
+                  Based on {p.rowIds.length} row{p.rowIds.length === 1 ? '' : 's'}
+                  {p.conflictCount > 0 && <span className="text-amber-600"> · {p.conflictCount} classified differently</span>}
+                </div>
+              </div>
+            </label>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
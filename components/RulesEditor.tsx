@@ -0,0 +1,121 @@
+import React from 'react';
+import { ClassificationRule, ExpenseCategory } from '../types';
+import { CATEGORY_LABELS } from '../constants';
+import { createRule, validatePattern } from '../services/classificationRules';
+import { Plus, Trash2, AlertTriangle } from 'lucide-react';
+
+interface Props {
+  rules: ClassificationRule[];
+  onChange: (rules: ClassificationRule[]) => void;
+}
+
+const inputClass = 'block w-full rounded-md border-slate-200 text-xs focus:border-indigo-500 focus:ring-indigo-500 shadow-sm';
+
+const parseOptionalNumber = (val: string): number | undefined =>
+  val === '' || isNaN(parseFloat(val)) ? undefined : parseFloat(val);
+
+export const RulesEditor: React.FC<Props> = ({ rules, onChange }) => {
+  const update = (id: string, updates: Partial<ClassificationRule>) => {
+    onChange(rules.map(r => r.id === id ? { ...r, ...updates } : r));
+  };
+
+  const remove = (id: string) => onChange(rules.filter(r => r.id !== id));
+
+  const add = () => {
+    const topPriority = rules.reduce((max, r) => Math.max(max, r.priority), 0);
+    onChange([...rules, createRule({ priority: topPriority + 10 })]);
+  };
+
+  return (
+    <div className="space-y-3">
+      {rules.length === 0 && (
+        <p className="text-xs text-slate-400">No rules yet. Rows fall back to the account-name classification map, then to manual review.</p>
+      )}
+      {rules.map(rule => {
+        const patternError = validatePattern(rule.descriptionPattern);
+        return (
+          <div key={rule.id} className={`rounded-lg border p-3 space-y-3 ${rule.enabled ? 'border-slate-200 bg-white' : 'border-slate-100 bg-slate-50 opacity-70'}`}>
+            <div className="flex items-center gap-3">
+              <input type="checkbox" className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500" checked={rule.enabled} onChange={e => update(rule.id, { enabled: e.target.checked })} title="Enabled" />
+              <input type="text" className={`${inputClass} font-medium`} value={rule.name} onChange={e => update(rule.id, { name: e.target.value })} placeholder="Rule name" />
+              <div className="flex items-center gap-1.5 shrink-0">
+                <span className="text-[10px] font-bold text-slate-400 uppercase">Priority</span>
+                <input type="number" className={`${inputClass} w-20`} value={rule.priority} onChange={e => update(rule.id, { priority: parseFloat(e.target.value) || 0 })} />
+              </div>
+              <button onClick={() => remove(rule.id)} className="p-1.5 rounded-md text-slate-400 hover:text-red-600 hover:bg-red-50 transition-colors shrink-0" title="Delete rule">
+                <Trash2 size={14} />
+              </button>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-6 gap-2">
+              <div className="md:col-span-2">
+                <label className="block text-[10px] font-bold text-slate-400 uppercase mb-1">Account is</label>
+                <input type="text" className={inputClass} value={rule.account || ''} onChange={e => update(rule.id, { account: e.target.value || undefined })} placeholder="Any" />
+              </div>
+              <div className="md:col-span-2">
+                <label className="block text-[10px] font-bold text-slate-400 uppercase mb-1">Contact contains</label>
+                <input type="text" className={inputClass} value={rule.contact || ''} onChange={e => update(rule.id, { contact: e.target.value || undefined })} placeholder="Any" />
+              </div>
+              <div className="md:col-span-2">
+                <label className="block text-[10px] font-bold text-slate-400 uppercase mb-1">Source type is</label>
+                <input type="text" className={inputClass} value={rule.sourceType || ''} onChange={e => update(rule.id, { sourceType: e.target.value || undefined })} placeholder="Any" />
+              </div>
+              <div className="md:col-span-4">
+                <label className="block text-[10px] font-bold text-slate-400 uppercase mb-1">Description matches (regex)</label>
+                <input
+                  type="text"
+                  className={`${inputClass} font-mono ${patternError ? 'border-red-300 bg-red-50' : ''}`}
+                  value={rule.descriptionPattern || ''}
+                  onChange={e => update(rule.id, { descriptionPattern: e.target.value || undefined })}
+                  placeholder="e.g. home depot|lowe's"
+                />
+              </div>
+              <div>
+                <label className="block text-[10px] font-bold text-slate-400 uppercase mb-1">Min $</label>
+                <input type="number" className={inputClass} value={rule.minAmount ?? ''} onChange={e => update(rule.id, { minAmount: parseOptionalNumber(e.target.value) })} />
+              </div>
+              <div>
+                <label className="block text-[10px] font-bold text-slate-400 uppercase mb-1">Max $</label>
+                <input type="number" className={inputClass} value={rule.maxAmount ?? ''} onChange={e => update(rule.id, { maxAmount: parseOptionalNumber(e.target.value) })} />
+              </div>
+            </div>
+
+            {patternError && (
+              <div className="text-[11px] text-red-600 flex items-center gap-1"><AlertTriangle size={12} />{patternError}</div>
+            )}
+
+            <div className="grid grid-cols-2 md:grid-cols-6 gap-2 pt-2 border-t border-slate-100">
+              <div className="md:col-span-2">
+                <label className="block text-[10px] font-bold text-slate-400 uppercase mb-1">Then classify as</label>
+                <select className={inputClass} value={rule.category} onChange={e => update(rule.id, { category: e.target.value as ExpenseCategory })}>
+                  {Object.values(ExpenseCategory).map(cat => (
+                    <option key={cat} value={cat}>{CATEGORY_LABELS[cat]}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-[10px] font-bold text-slate-400 uppercase mb-1">Owner %</label>
+                <input
+                  type="number"
+                  className={inputClass}
+                  value={rule.splitPercent ?? ''}
+                  onChange={e => update(rule.id, { splitPercent: parseOptionalNumber(e.target.value) })}
+                  disabled={rule.category !== ExpenseCategory.SHARED}
+                  placeholder={rule.category === ExpenseCategory.SHARED ? '50' : '-'}
+                />
+              </div>
+              <div className="md:col-span-3">
+                <label className="block text-[10px] font-bold text-slate-400 uppercase mb-1">Default note</label>
+                <input type="text" className={inputClass} value={rule.note || ''} onChange={e => update(rule.id, { note: e.target.value || undefined })} />
+              </div>
+            </div>
+          </div>
+        );
+      })}
+      <button onClick={add} className="inline-flex items-center px-4 py-2 border border-slate-300 shadow-sm text-xs font-medium rounded-lg text-slate-700 bg-white hover:bg-slate-50 transition-colors">
+        <Plus className="mr-1.5 h-4 w-4" />
+        Add Rule
+      </button>
+    </div>
+  );
+};
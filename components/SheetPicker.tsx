@@ -0,0 +1,116 @@
+import React from 'react';
+import { SheetRange, WorkbookSheet, detectFooterRows, detectHeaderRow, sheetRange, sheetRows } from '../services/excelService';
+
+interface Props {
+  sheets: WorkbookSheet[];
+  range: SheetRange;
+  onChange: (range: SheetRange) => void;
+}
+
+const PREVIEW_COLUMNS = 6;
+const PREVIEW_ROWS = 3;
+
+const inputClass = 'block w-full rounded-md border-slate-200 text-xs py-1 focus:border-indigo-500 focus:ring-indigo-500';
+
+const cellText = (cell: any) => String(cell ?? '').trim();
+
+// Sheet, header row and footer of one source, with the lines each setting
+// keeps and drops
+export const SheetPicker: React.FC<Props> = ({ sheets, range, onChange }) => {
+  const sheet = sheets.find(s => s.name === range.sheet) || sheets[0];
+  const grid = sheet?.grid || [];
+  const rowCount = sheet ? sheetRows(sheet, range).length : 0;
+  const detectedHeader = detectHeaderRow(grid);
+  const firstFooter = grid.length - range.footerRows;
+
+  const above = grid.slice(Math.max(0, range.headerRow - PREVIEW_ROWS), range.headerRow)
+    .map((row, i) => ({ row, line: Math.max(0, range.headerRow - PREVIEW_ROWS) + i, kind: 'skipped' as const }));
+  const header = { row: grid[range.headerRow] || [], line: range.headerRow, kind: 'header' as const };
+  const body = grid.slice(range.headerRow + 1, Math.min(firstFooter, range.headerRow + 1 + PREVIEW_ROWS))
+    .map((row, i) => ({ row, line: range.headerRow + 1 + i, kind: 'data' as const }));
+  const footer = grid.slice(Math.max(firstFooter, range.headerRow + 1), grid.length)
+    .map((row, i) => ({ row, line: Math.max(firstFooter, range.headerRow + 1) + i, kind: 'skipped' as const }))
+    .filter(({ row }) => row.some(c => cellText(c)))
+    .slice(0, PREVIEW_ROWS);
+  const columns = Math.min(PREVIEW_COLUMNS, Math.max(0, ...[header, ...body].map(r => r.row.length)));
+
+  const setHeaderRow = (line: number) => {
+    const headerRow = Math.min(Math.max(0, line), Math.max(0, grid.length - 1));
+    onChange({ ...range, headerRow, footerRows: Math.min(range.footerRows, Math.max(0, grid.length - headerRow - 1)) });
+  };
+
+  return (
+    <div className="mt-2 space-y-2 text-left">
+      <div className="grid grid-cols-3 gap-2">
+        {sheets.length > 1 && (
+          <label className="col-span-3 block">
+            <span className="text-[11px] text-slate-500">Sheet</span>
+            <select
+              className={inputClass}
+              value={range.sheet}
+              onChange={e => onChange(sheetRange(sheets.find(s => s.name === e.target.value)!))}
+            >
+              {sheets.map(s => (
+                <option key={s.name} value={s.name}>{s.name}</option>
+              ))}
+            </select>
+          </label>
+        )}
+        <label className="block">
+          <span className="text-[11px] text-slate-500">Header row</span>
+          <input
+            type="number"
+            min={1}
+            max={Math.max(1, grid.length)}
+            className={inputClass}
+            value={range.headerRow + 1}
+            onChange={e => setHeaderRow((parseInt(e.target.value, 10) || 1) - 1)}
+          />
+        </label>
+        <label className="block">
+          <span className="text-[11px] text-slate-500">Footer lines</span>
+          <input
+            type="number"
+            min={0}
+            className={inputClass}
+            value={range.footerRows}
+            onChange={e => onChange({ ...range, footerRows: Math.min(Math.max(0, parseInt(e.target.value, 10) || 0), Math.max(0, grid.length - range.headerRow - 1)) })}
+          />
+        </label>
+        <div className="flex items-end">
+          <button
+            onClick={() => onChange({ ...range, headerRow: detectedHeader, footerRows: detectFooterRows(grid, detectedHeader) })}
+            className="text-[11px] font-medium text-indigo-600 hover:text-indigo-800 pb-1"
+            title="Find the header row and footer lines again"
+          >
+            Detect
+          </button>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto rounded-md border border-slate-200">
+        <table className="min-w-full text-[10px]">
+          <tbody className="divide-y divide-slate-100">
+            {[...above, header, ...body, ...footer].map(({ row, line, kind }) => (
+              <tr
+                key={line}
+                className={kind === 'header' ? 'bg-indigo-50 font-semibold text-indigo-900' : kind === 'skipped' ? 'text-slate-300 line-through' : 'text-slate-700'}
+              >
+                <td className="px-1.5 py-1 text-slate-400 no-underline">{line + 1}</td>
+                {Array.from({ length: columns }, (_, i) => (
+                  <td key={i} className="px-1.5 py-1 max-w-[6rem] truncate" title={cellText(row[i])}>{cellText(row[i])}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-[11px] text-slate-500">
+        {rowCount} row{rowCount === 1 ? '' : 's'}
+        {range.headerRow > 0 && <> · {range.headerRow} title line{range.headerRow === 1 ? '' : 's'} skipped</>}
+        {range.footerRows > 0 && <> · {range.footerRows} footer line{range.footerRows === 1 ? '' : 's'} trimmed</>}
+        {range.headerRow !== detectedHeader && <> · detected header: row {detectedHeader + 1}</>}
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,87 @@
+import React from 'react';
+import { IssuedStatement, StatementKind, StatementStatus } from '../types';
+import { Download, History } from 'lucide-react';
+import { formatMoney } from '../services/money';
+
+interface Props {
+  ledger: IssuedStatement[];
+  currentId?: string;
+  onExport: () => void;
+}
+
+const KIND_LABELS: Record<StatementKind, string> = {
+  statement: 'Statement',
+  revision: 'Revision',
+  credit_note: 'Credit Note'
+};
+
+const STATUS_STYLES: Record<StatementStatus, string> = {
+  final: 'bg-emerald-50 text-emerald-700',
+  superseded: 'bg-slate-100 text-slate-500',
+  credited: 'bg-amber-50 text-amber-700'
+};
+
+const formatIssuedAt = (iso: string) => {
+  const d = new Date(iso);
+  return isNaN(d.getTime()) ? iso : d.toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+};
+
+export const StatementHistory: React.FC<Props> = ({ ledger, currentId, onExport }) => {
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="p-4 border-b border-slate-200 bg-slate-50/50 flex justify-between items-center gap-4">
+        <div>
+          <h2 className="text-base font-bold text-slate-900 flex items-center gap-2"><History size={18} className="text-indigo-600" />Statement History</h2>
+          <p className="text-xs text-slate-500">Every finalized statement, revision and credit note issued on this device.</p>
+        </div>
+        <button
+          onClick={onExport}
+          disabled={!ledger.length}
+          className="inline-flex items-center px-3 py-1.5 border border-slate-300 text-xs font-medium rounded-lg text-slate-700 bg-white hover:bg-slate-50 disabled:opacity-50 transition-colors"
+        >
+          <Download className="mr-1.5 h-4 w-4" />
+          Export Ledger
+        </button>
+      </div>
+      {ledger.length === 0 ? (
+        <p className="px-4 py-6 text-xs text-slate-400 text-center">No statements have been finalized yet.</p>
+      ) : (
+        <div className="max-h-[320px] overflow-auto custom-scrollbar">
+          <table className="min-w-full divide-y divide-slate-100 text-sm">
+            <thead className="bg-slate-50 sticky top-0">
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-semibold text-slate-500 uppercase tracking-wide">Number</th>
+                <th className="px-4 py-2 text-left text-xs font-semibold text-slate-500 uppercase tracking-wide">Owner / Subject</th>
+                <th className="px-4 py-2 text-left text-xs font-semibold text-slate-500 uppercase tracking-wide">Period</th>
+                <th className="px-4 py-2 text-right text-xs font-semibold text-slate-500 uppercase tracking-wide">Net to Owner</th>
+                <th className="px-4 py-2 text-left text-xs font-semibold text-slate-500 uppercase tracking-wide">Issued</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {ledger.map(s => (
+                <tr key={s.id} className={s.id === currentId ? 'bg-indigo-50/60' : 'hover:bg-slate-50'}>
+                  <td className="px-4 py-2 whitespace-nowrap">
+                    <div className="font-mono font-medium text-slate-900">{s.number}</div>
+                    <div className="flex items-center gap-1.5 mt-0.5">
+                      <span className="text-[10px] font-semibold text-slate-500 uppercase">{KIND_LABELS[s.kind]}</span>
+                      <span className={`text-[10px] font-semibold uppercase px-1.5 rounded ${STATUS_STYLES[s.status]}`}>{s.status}</span>
+                    </div>
+                  </td>
+                  <td className="px-4 py-2">
+                    <div className="text-slate-900">{s.ownerName || 'No owner set'}</div>
+                    <div className="text-xs text-slate-400">{s.subjectLabel}</div>
+                  </td>
+                  <td className="px-4 py-2 whitespace-nowrap text-xs text-slate-600">{s.periodStart} to {s.periodEnd}</td>
+                  <td className={`px-4 py-2 whitespace-nowrap text-right font-medium ${s.totals.netToOwner < 0 ? 'text-red-600' : 'text-slate-900'}`}>
+                    {formatMoney(s.totals.netToOwner, s.currency || 'USD')}
+                  </td>
+                  <td className="px-4 py-2 whitespace-nowrap text-xs text-slate-400">{formatIssuedAt(s.issuedAt)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,70 +1,222 @@
 
-import React, { useMemo, useState } from 'react';
-import { ConfigState, ExpenseCategory, ProcessedDataState } from '../types';
-import { ArrowLeft, Download, Printer, Save, Check, AlertCircle } from 'lucide-react';
-import { format, isValid } from 'date-fns';
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  ConfigState,
+  ExpenseCategory,
+  IssuedStatement,
+  ProcessedDataState,
+  PropertyConfig
+} from '../types';
+import { ArrowLeft, Download, Printer, Save, Check, AlertCircle, Lock, FilePen, FileMinus } from 'lucide-react';
+import { configForProperty, ownerKey, portfolioOwners, propertiesForOwner, sliceByProperty } from '../services/portfolio';
+import {
+  findIssued,
+  issueCreditNote,
+  issueRevision,
+  issueStatement,
+  listStatements,
+  previewNumber,
+  snapshotMatches,
+  StatementDraft,
+  statementYear
+} from '../services/statementLedger';
+import { downloadJson } from '../services/download';
+import { buildLineItems, calculateTotals, channelSubtotals, chargedAmount, sumTotals, taxLines } from '../services/statementTotals';
+import { describeFeeModel } from '../services/feeModel';
+import { findDuplicates, unresolvedExactDuplicates } from '../services/duplicates';
+import { deferredNet, recognizedBooking } from '../services/recognition';
+import { countsInFeeBase, groupBookings, LINE_TYPE_LABELS } from '../services/adjustments';
+import { COMPONENT_LABELS, hasComponents } from '../services/bookingComponents';
+import { calculateKpis, formatAverage, formatPercent } from '../services/kpis';
+import { formatMoney, roundMoney } from '../services/money';
+import { computeOwnerBalance, balanceHistory, findPriorStatement } from '../services/ownerBalance';
+import { StatementHistory } from './StatementHistory';
+import { OwnerLedger } from './OwnerLedger';
+import { TrendReports } from './TrendReports';
+import { TREND_METRICS, yearToDate } from '../services/trends';
+import { format } from 'date-fns';
 import * as XLSX from 'xlsx';
 
 interface Props {
   data: ProcessedDataState;
   config: ConfigState;
+  sessionId?: string;
   onBack: () => void;
   onSaveDraft: () => void;
 }
 
-export const StepInvoice: React.FC<Props> = ({ data, config, onBack, onSaveDraft }) => {
+export const StepInvoice: React.FC<Props> = ({ data, config, sessionId, onBack, onSaveDraft }) => {
+  const properties = config.portfolioMode ? config.properties : [];
+  // '' = single statement, 'property:<id>' = one unit, 'owner:<name>' = consolidated roll-up
+  const [target, setTarget] = useState<string>(properties.length ? `property:${properties[0].id}` : '');
   const [isPrinting, setIsPrinting] = useState(false);
   const [isDownloading, setIsDownloading] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [printError, setPrintError] = useState<string | null>(null);
+  const [ledger, setLedger] = useState<IssuedStatement[]>([]);
+  const [ledgerError, setLedgerError] = useState<string | null>(null);
+  // Kept apart from ledgerError, which each ledger refresh resets
+  const [issueError, setIssueError] = useState<string | null>(null);
+  const [isIssuing, setIsIssuing] = useState(false);
 
-  const invoiceDate = format(new Date(), 'dd MMM yyyy');
-  
-  const invoiceId = useMemo(() => {
-    const end = config.periodEnd ? new Date(config.periodEnd) : new Date();
-    const dateStr = isValid(end) ? format(end, 'yyMMdd') : format(new Date(), 'yyMMdd');
-    return `SW${dateStr}1124`;
-  }, [config.periodEnd]);
+  const selectedProperty: PropertyConfig | undefined = properties.find(p => target === `property:${p.id}`);
+  const rollupOwner = target.startsWith('owner:') ? target.slice('owner:'.length) : undefined;
+
+  const statementData = useMemo(
+    () => selectedProperty ? sliceByProperty(data, selectedProperty.id) : data,
+    [data, selectedProperty]
+  );
+
+  const statementConfig = useMemo(() => {
+    if (selectedProperty) return configForProperty(config, selectedProperty);
+    if (rollupOwner) {
+      const owner = portfolioOwners(config).find(o => o.id === rollupOwner);
+      return { ...config, ownerName: owner?.name || rollupOwner, ownerId: rollupOwner };
+    }
+    return config;
+  }, [config, selectedProperty, rollupOwner]);
+
+  const rollup = useMemo(() => {
+    if (!rollupOwner) return [];
+    return propertiesForOwner(config, rollupOwner).map(property => ({
+      property,
+      totals: calculateTotals(sliceByProperty(data, property.id), configForProperty(config, property))
+    }));
+  }, [data, config, rollupOwner]);
 
   const sortedBookings = useMemo(() => {
-    return [...data.otaBookings].sort((a, b) => {
+    return [...statementData.otaBookings].sort((a, b) => {
       const dateA = new Date(a.check_in_date || a.payout_date || 0).getTime();
       const dateB = new Date(b.check_in_date || b.payout_date || 0).getTime();
       return dateA - dateB;
     });
-  }, [data.otaBookings]);
+  }, [statementData.otaBookings]);
+
+  // Channel column once bookings carry one; subtotals once there are several
+  const channels = useMemo(() => channelSubtotals(sortedBookings), [sortedBookings]);
+  const bookingGroups = useMemo(() => groupBookings(sortedBookings), [sortedBookings]);
+  const deferred = useMemo(() => sortedBookings.reduce((sum, b) => sum + deferredNet(b), 0), [sortedBookings]);
+  const showChannels = sortedBookings.some(b => b.channel);
+  const columnCount = showChannels ? 3 : 2;
+
+  const timingDifferences = useMemo(
+    () => rollupOwner ? [] : sortedBookings.filter(b => b.timing_difference && !b.matched_gl_ids?.length),
+    [sortedBookings, rollupOwner]
+  );
+
+  // A roll-up covers the owner's units only
+  const kpis = useMemo(() => {
+    if (!statementConfig.kpiSummary) return null;
+    if (!rollupOwner) return calculateKpis(sortedBookings, statementConfig);
+    const ids = new Set(rollup.map(r => r.property.id));
+    return calculateKpis(data.otaBookings.filter(b => b.property_id && ids.has(b.property_id)), statementConfig, Math.max(1, rollup.length));
+  }, [statementConfig, rollupOwner, rollup, sortedBookings, data.otaBookings]);
 
   const totals = useMemo(() => {
-    const grossRevenue = data.stats.totalOtaRevenue;
-    const netPayouts = data.stats.totalOtaNet;
-    const feeBase = config.feeBaseMode === 'gross_revenue' ? grossRevenue : netPayouts;
-    const mgmtFeeAmount = feeBase * (config.mgmtFeePercent / 100);
-    const allProcessedExpenses = [
-      ...data.autoReimbursables,
-      ...data.reviewRows
-    ];
-    const reimbursableItems = allProcessedExpenses.filter(r => r.include_flag);
-    const totalReimbursables = reimbursableItems.reduce((sum, r) => {
-      let amount = r.debit_amount;
-      if (r.assigned_category === ExpenseCategory.SHARED && r.split_percent !== undefined) {
-        amount = amount * (r.split_percent / 100);
-      }
-      return sum + amount;
-    }, 0);
-    const totalDeductions = mgmtFeeAmount + totalReimbursables;
-    const netToOwner = netPayouts - totalDeductions;
+    if (!rollupOwner) return calculateTotals(statementData, statementConfig);
+    return sumTotals(rollup.map(r => r.totals), config);
+  }, [statementData, statementConfig, config, rollupOwner, rollup]);
+
+  const refreshLedger = async () => {
+    try {
+      setLedger(await listStatements());
+      setLedgerError(null);
+    } catch (err) {
+      console.error('Failed to load statement history', err);
+      setLedgerError('Statement history is unavailable in this browser, so statements cannot be finalized.');
+    }
+  };
+
+  useEffect(() => {
+    refreshLedger();
+  }, []);
+
+  const subject = selectedProperty ? `property:${selectedProperty.id}` : rollupOwner ? `owner:${rollupOwner}` : `single:${ownerKey(config)}`;
+
+  const prior = findPriorStatement(ledger, subject, statementConfig.periodStart);
+  const balance = useMemo(
+    () => computeOwnerBalance(totals.netToOwner, config.balances, prior),
+    [totals.netToOwner, config.balances, prior]
+  );
+
+  const draft: StatementDraft = useMemo(() => {
+    const subjectLabel = selectedProperty ? selectedProperty.name : rollupOwner ? `Roll-up: ${rollup.length} properties` : 'Owner statement';
+    const { reimbursableItems, feeBaseLabel, feeLines, taxes, payouts, ...snapshotTotals } = totals;
     return {
-      grossRevenue,
-      netPayouts,
-      feeBase,
-      feeBaseLabel: config.feeBaseMode === 'gross_revenue' ? 'Gross OTA Revenue' : 'Net OTA Payouts',
-      mgmtFeeAmount,
-      totalReimbursables,
-      totalDeductions,
-      netToOwner,
-      reimbursableItems
+      subject,
+      subjectLabel,
+      ownerName: statementConfig.ownerName,
+      ownerId: ownerKey(statementConfig),
+      periodStart: statementConfig.periodStart,
+      periodEnd: statementConfig.periodEnd,
+      currency: config.currency,
+      sessionId,
+      totals: snapshotTotals,
+      balance,
+      lineItems: buildLineItems(sortedBookings, totals, rollup)
     };
-  }, [data, config]);
+  }, [subject, selectedProperty, rollupOwner, rollup, statementConfig, sessionId, totals, balance, sortedBookings]);
+
+  const issued = findIssued(ledger, draft.subject, draft.periodStart, draft.periodEnd);
+
+  // Earlier statements this year for the same subject; the column is left
+  // off until there is one
+  const ytd = useMemo(
+    () => yearToDate(ledger, subject, config.currency, draft),
+    [ledger, subject, config.currency, draft]
+  );
+
+  const isChanged = !!issued && !snapshotMatches(issued, draft);
+  const isFinal = !!issued && !isChanged;
+
+  // A finalized statement prints under its issued number and date; anything
+  // else is a draft showing the number it would be given.
+  const invoiceId = isFinal
+    ? issued!.number
+    : issued
+      ? `${issued.number.replace(/-R\d+$/, '')}-R${issued.revision + 1}`
+      : previewNumber(ledger, config.numbering, draft);
+  const invoiceDate = format(isFinal ? new Date(issued!.issuedAt) : new Date(), 'dd MMM yyyy');
+
+  const runIssue = async (action: () => Promise<unknown>) => {
+    setIsIssuing(true);
+    setIssueError(null);
+    try {
+      await action();
+    } catch (err: any) {
+      console.error('Statement could not be issued', err);
+      setIssueError(err?.message || 'The statement could not be saved to the history.');
+    }
+    await refreshLedger();
+    setIsIssuing(false);
+  };
+
+  // Exact duplicates would double-count; the Review step has to resolve them
+  const blockingDuplicates = useMemo(
+    () => unresolvedExactDuplicates(findDuplicates(data), data.dismissedDuplicates).length,
+    [data]
+  );
+
+  const handleFinalize = () => {
+    if (!window.confirm(`Finalize statement ${invoiceId}? It will be locked in the statement history.`)) return;
+    runIssue(() => issueStatement(ledger, config.numbering, draft));
+  };
+
+  const handleRevise = () => {
+    if (!issued) return;
+    if (!window.confirm(`Issue ${invoiceId} to replace ${issued.number}?`)) return;
+    runIssue(() => issueRevision(issued, draft));
+  };
+
+  const handleCreditAndReissue = () => {
+    if (!issued) return;
+    if (!window.confirm(`Issue a credit note reversing ${issued.number} and a new statement for the corrected figures?`)) return;
+    runIssue(() => issueCreditNote(ledger, config.numbering, issued, draft));
+  };
+
+  const handleExportLedger = () => {
+    downloadJson({ exportedAt: new Date().toISOString(), statements: ledger }, `statement-ledger-${format(new Date(), 'yyyyMMdd')}.json`);
+  };
 
   const handlePrint = () => {
     setIsPrinting(true);
@@ -148,8 +300,12 @@ export const StepInvoice: React.FC<Props> = ({ data, config, onBack, onSaveDraft
         Contact: item.contact,
         'Original Amount': item.debit_amount,
         Category: item.assigned_category,
+        Rule: item.rule_name || '',
         'Split %': item.split_percent || 100,
-        'Charged Amount': (item.assigned_category === ExpenseCategory.SHARED ? item.debit_amount * ((item.split_percent || 100)/100) : item.debit_amount),
+        'Charged Amount': roundMoney(chargedAmount(item), config.currency),
+        Currency: config.currency,
+        'Reported Currency': item.currency || config.currency,
+        'FX Rate': item.fx_rate ?? '',
         Note: item.note || ''
       }));
 
@@ -163,7 +319,12 @@ export const StepInvoice: React.FC<Props> = ({ data, config, onBack, onSaveDraft
     setTimeout(() => setIsDownloading(false), 2000);
   };
 
-  const isNetPositive = totals.netToOwner >= 0;
+  const isNetPositive = balance.closingBalance >= 0;
+  const hasTaxSummary = totals.taxes.lodgingTaxCollected !== 0 || totals.totalTax !== 0;
+  // Only once the GL has income to match payouts against
+  const hasPayoutReconciliation = data.glIncome.length > 0;
+  const hasAccountLines = balance.openingBalance !== 0 || balance.paymentsReceived !== 0 || balance.closingBalance !== 0;
+  const money = (n: number) => formatMoney(n, config.currency);
 
   return (
     <div className="animate-in fade-in slide-in-from-bottom-4 duration-500 pb-12">
@@ -209,6 +370,92 @@ export const StepInvoice: React.FC<Props> = ({ data, config, onBack, onSaveDraft
             {printError}
           </div>
         )}
+        {properties.length > 0 && (
+          <div className="flex items-center justify-end gap-3">
+            <label className="text-xs font-semibold text-slate-500 uppercase tracking-wide">Statement</label>
+            <select
+              className="block rounded-lg border-slate-300 text-sm focus:border-indigo-500 focus:ring-indigo-500 shadow-sm"
+              value={target}
+              onChange={e => setTarget(e.target.value)}
+            >
+              <optgroup label="Per Property">
+                {properties.map(p => (
+                  <option key={p.id} value={`property:${p.id}`}>{p.name}</option>
+                ))}
+              </optgroup>
+              <optgroup label="Owner Roll-up">
+                {portfolioOwners(config).map(owner => (
+                  <option key={owner.id} value={`owner:${owner.id}`}>{owner.name} (all properties)</option>
+                ))}
+              </optgroup>
+            </select>
+          </div>
+        )}
+        {ledgerError && (
+          <div className="bg-amber-50 border border-amber-200 text-amber-800 px-4 py-2 rounded-lg text-xs flex items-center">
+            <AlertCircle size={14} className="mr-2 shrink-0" />
+            {ledgerError}
+          </div>
+        )}
+        {issueError && (
+          <div className="bg-red-50 border border-red-100 text-red-700 px-4 py-2 rounded-lg text-xs flex items-center">
+            <AlertCircle size={14} className="mr-2 shrink-0" />
+            Not issued: {issueError}
+          </div>
+        )}
+        {blockingDuplicates > 0 && (
+          <div className="bg-red-50 border border-red-100 text-red-700 px-4 py-2 rounded-lg text-xs flex items-center">
+            <AlertCircle size={14} className="mr-2 shrink-0" />
+            {blockingDuplicates} group{blockingDuplicates === 1 ? '' : 's'} of exact duplicate rows are unresolved. Go back to Review to merge or dismiss them before issuing.
+          </div>
+        )}
+        {!issued && (
+          <div className="bg-white border border-slate-200 rounded-xl px-4 py-3 flex items-center justify-between gap-4">
+            <p className="text-sm text-slate-600">
+              <span className="font-semibold text-slate-900">Draft.</span> Finalizing assigns number <span className="font-mono font-medium text-slate-900">{invoiceId}</span> and locks this statement in the history.
+            </p>
+            <button
+              onClick={handleFinalize}
+              disabled={isIssuing || !!ledgerError || blockingDuplicates > 0}
+              className="inline-flex items-center shrink-0 px-4 py-2 border border-transparent text-xs font-medium rounded-lg text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              <Lock className="mr-1.5 h-4 w-4" />
+              Finalize Statement
+            </button>
+          </div>
+        )}
+        {isFinal && (
+          <div className="bg-emerald-50 border border-emerald-100 rounded-xl px-4 py-3 text-sm text-emerald-800 flex items-center gap-2">
+            <Lock size={16} />
+            Finalized as <span className="font-mono font-medium">{issued!.number}</span> on {invoiceDate}. Later changes to the data will need a revision or credit note.
+          </div>
+        )}
+        {isChanged && (
+          <div className="bg-amber-50 border border-amber-200 rounded-xl px-4 py-3 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+            <p className="text-sm text-amber-800">
+              The data no longer matches <span className="font-mono font-medium">{issued!.number}</span> as finalized
+              (net to owner {money(issued!.totals.netToOwner)}, now {money(totals.netToOwner)}).
+            </p>
+            <div className="flex gap-2 shrink-0">
+              <button
+                onClick={handleRevise}
+                disabled={isIssuing || blockingDuplicates > 0}
+                className="inline-flex items-center px-3 py-2 border border-amber-300 text-xs font-medium rounded-lg text-amber-800 bg-white hover:bg-amber-100 disabled:opacity-50 transition-colors"
+              >
+                <FilePen className="mr-1.5 h-4 w-4" />
+                Issue Revision
+              </button>
+              <button
+                onClick={handleCreditAndReissue}
+                disabled={isIssuing || blockingDuplicates > 0}
+                className="inline-flex items-center px-3 py-2 border border-amber-300 text-xs font-medium rounded-lg text-amber-800 bg-white hover:bg-amber-100 disabled:opacity-50 transition-colors"
+              >
+                <FileMinus className="mr-1.5 h-4 w-4" />
+                Credit &amp; Reissue
+              </button>
+            </div>
+          </div>
+        )}
       </div>
 
       <div id="printable-invoice" className="bg-white shadow-2xl shadow-slate-200 mx-auto w-full max-w-[210mm] min-h-[297mm] text-slate-900 relative print:shadow-none print:w-full print:max-w-none print:m-0 flex flex-col">
@@ -217,19 +464,24 @@ export const StepInvoice: React.FC<Props> = ({ data, config, onBack, onSaveDraft
           <div className="flex justify-between items-start mb-16">
             <div>
               <h1 className="text-3xl font-bold tracking-tight text-slate-900 mb-1 uppercase">Owner Statement</h1>
-              <p className="text-slate-500 font-medium">#{invoiceId}</p>
+              <p className="text-slate-500 font-medium">
+                #{invoiceId}
+                {!isFinal && <span className="ml-2 text-xs font-bold text-amber-600 uppercase tracking-wider">Draft</span>}
+              </p>
             </div>
             <div className="text-right">
-              <h2 className="text-xl font-bold text-slate-900">{config.managerName}</h2>
-              <p className="text-slate-500 whitespace-pre-line text-sm mt-1">{config.managerContact}</p>
+              <h2 className="text-xl font-bold text-slate-900">{statementConfig.managerName}</h2>
+              <p className="text-slate-500 whitespace-pre-line text-sm mt-1">{statementConfig.managerContact}</p>
             </div>
           </div>
 
           <div className="grid grid-cols-2 gap-12 mb-12 border-b border-slate-100 pb-12">
             <div>
               <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-3">Prepared For</h3>
-              <div className="text-lg font-semibold text-slate-900">{config.ownerName}</div>
-              <div className="text-slate-600">Property Owner</div>
+              <div className="text-lg font-semibold text-slate-900">{statementConfig.ownerName}</div>
+              <div className="text-slate-600">
+                {selectedProperty ? selectedProperty.name : rollupOwner ? `Consolidated: ${rollup.length} properties` : 'Property Owner'}
+              </div>
             </div>
             <div className="grid grid-cols-2 gap-8">
               <div>
@@ -239,108 +491,361 @@ export const StepInvoice: React.FC<Props> = ({ data, config, onBack, onSaveDraft
               <div>
                 <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-3">Period</h3>
                 <div className="font-medium text-slate-900 text-sm">
-                   {config.periodStart} <span className="text-slate-400 text-xs mx-1">to</span> {config.periodEnd}
+                   {statementConfig.periodStart} <span className="text-slate-400 text-xs mx-1">to</span> {statementConfig.periodEnd}
                 </div>
               </div>
             </div>
           </div>
 
-          <table className="w-full mb-12">
-            <thead>
-              <tr className="border-b-2 border-slate-900">
-                <th className="py-3 text-left text-xs font-bold text-slate-500 uppercase tracking-wide">Description</th>
-                <th className="py-3 text-right text-xs font-bold text-slate-500 uppercase tracking-wide w-40">Amount</th>
-              </tr>
-            </thead>
-            <tbody className="divide-y divide-slate-100">
-              <tr>
-                <td colSpan={2} className="py-2">
-                   <div className="text-xs font-bold text-slate-400 uppercase tracking-wider">Funds Received (Bookings)</div>
-                </td>
-              </tr>
-              {sortedBookings.map((booking) => (
-                <tr key={booking.id} className="hover:bg-slate-50/50">
-                  <td className="py-2 pl-4 pr-4">
-                    <div className="text-sm font-medium text-slate-900">{booking.guest_name || 'Guest Booking'}</div>
-                    <div className="text-xs text-slate-500 flex items-center gap-2">
-                       <span>{booking.check_in_date}</span>
-                       {booking.check_out_date && <span>to {booking.check_out_date}</span>}
-                       <span className="w-1 h-1 rounded-full bg-slate-300"></span>
-                       <span>Ref: {booking.reservation_id}</span>
-                    </div>
+          {rollupOwner ? (
+            <table className="w-full mb-12">
+              <thead>
+                <tr className="border-b-2 border-slate-900">
+                  <th className="py-3 text-left text-xs font-bold text-slate-500 uppercase tracking-wide">Property</th>
+                  <th className="py-3 text-right text-xs font-bold text-slate-500 uppercase tracking-wide">Funds Received</th>
+                  <th className="py-3 text-right text-xs font-bold text-slate-500 uppercase tracking-wide">Mgmt Fee</th>
+                  <th className="py-3 text-right text-xs font-bold text-slate-500 uppercase tracking-wide">Reimbursables</th>
+                  {totals.totalTax !== 0 && <th className="py-3 text-right text-xs font-bold text-slate-500 uppercase tracking-wide">Tax</th>}
+                  <th className="py-3 text-right text-xs font-bold text-slate-500 uppercase tracking-wide">Net</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {rollup.map(({ property, totals: t }) => (
+                  <tr key={property.id}>
+                    <td className="py-2 pr-4">
+                      <div className="text-sm font-medium text-slate-900">{property.name}</div>
+                      <div className="text-xs text-slate-500">{describeFeeModel(configForProperty(config, property))}</div>
+                    </td>
+                    <td className="py-2 text-right align-top text-slate-600 text-sm">{money(t.netPayouts)}</td>
+                    <td className="py-2 text-right align-top text-slate-600 text-sm">({money(t.mgmtFeeAmount)})</td>
+                    <td className="py-2 text-right align-top text-slate-600 text-sm">({money(t.totalReimbursables)})</td>
+                    {totals.totalTax !== 0 && <td className="py-2 text-right align-top text-slate-600 text-sm">({money(t.totalTax)})</td>}
+                    <td className="py-2 text-right align-top font-medium text-slate-900 text-sm">{money(t.netToOwner)}</td>
+                  </tr>
+                ))}
+                <tr className="border-t border-slate-200 bg-slate-50">
+                  <td className="py-3 pl-2 text-right text-xs font-semibold text-slate-500 uppercase tracking-wide">Portfolio Total</td>
+                  <td className="py-3 text-right font-bold text-slate-900 text-sm">{money(totals.netPayouts)}</td>
+                  <td className="py-3 text-right font-semibold text-slate-700 text-sm">({money(totals.mgmtFeeAmount)})</td>
+                  <td className="py-3 text-right font-semibold text-slate-700 text-sm">({money(totals.totalReimbursables)})</td>
+                  {totals.totalTax !== 0 && <td className="py-3 text-right font-semibold text-slate-700 text-sm">({money(totals.totalTax)})</td>}
+                  <td className="py-3 text-right font-bold text-slate-900 text-sm">{money(totals.netToOwner)}</td>
+                </tr>
+              </tbody>
+            </table>
+          ) : (
+            <table className="w-full mb-12">
+              <thead>
+                <tr className="border-b-2 border-slate-900">
+                  <th className="py-3 text-left text-xs font-bold text-slate-500 uppercase tracking-wide">Description</th>
+                  {showChannels && <th className="py-3 text-left text-xs font-bold text-slate-500 uppercase tracking-wide w-32">Channel</th>}
+                  <th className="py-3 text-right text-xs font-bold text-slate-500 uppercase tracking-wide w-40">Amount</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                <tr>
+                  <td colSpan={columnCount} className="py-2">
+                     <div className="text-xs font-bold text-slate-400 uppercase tracking-wider">Funds Received (Bookings)</div>
+                  </td>
+                </tr>
+                {bookingGroups.map(({ booking, adjustments }) => (
+                  <React.Fragment key={booking.id}>
+                    <tr className="hover:bg-slate-50/50">
+                      <td className="py-2 pl-4 pr-4">
+                        <div className="text-sm font-medium text-slate-900">
+                          {booking.line_type && <span className="text-slate-500">{LINE_TYPE_LABELS[booking.line_type]}: </span>}
+                          {booking.guest_name || 'Guest Booking'}
+                        </div>
+                        <div className="text-xs text-slate-500 flex items-center gap-2">
+                           <span>{booking.check_in_date}</span>
+                           {booking.check_out_date && <span>to {booking.check_out_date}</span>}
+                           <span className="w-1 h-1 rounded-full bg-slate-300"></span>
+                           <span>Ref: {booking.reservation_id}</span>
+                        </div>
+                        {hasComponents(booking) && (
+                          <div className="text-xs text-slate-400">
+                            {(Object.keys(COMPONENT_LABELS) as (keyof typeof COMPONENT_LABELS)[])
+                              .filter(key => booking[key])
+                              .map(key => `${COMPONENT_LABELS[key]} ${money(recognizedBooking(booking)[key]!)}`)
+                              .join(' · ')}
+                          </div>
+                        )}
+                        {booking.recognition && (
+                          <div className="text-xs text-slate-400">
+                            {booking.recognition.periodNights} of {booking.recognition.nights} nights this period
+                            {deferredNet(booking) !== 0 && <> · {money(deferredNet(booking))} deferred</>}
+                            {' '}· payout {money(booking.net_payout)}
+                          </div>
+                        )}
+                      </td>
+                      {showChannels && <td className="py-2 pr-4 align-top text-xs text-slate-500">{booking.channel || '—'}</td>}
+                      <td className="py-2 text-right align-top text-slate-600 text-sm">
+                        {money(recognizedBooking(booking).net_payout)}
+                      </td>
+                    </tr>
+                    {adjustments.map(line => (
+                      <tr key={line.id} className="hover:bg-slate-50/50">
+                        <td className="py-1 pl-8 pr-4 text-xs text-slate-500">
+                          {LINE_TYPE_LABELS[line.line_type!]}
+                          {line.payout_date && <span className="text-slate-400"> · paid {line.payout_date}</span>}
+                          {!countsInFeeBase(line, statementConfig) && <span className="text-slate-400"> · not in fee base</span>}
+                        </td>
+                        {showChannels && <td className="py-1 pr-4 align-top text-xs text-slate-400">{line.channel || '—'}</td>}
+                        <td className="py-1 text-right align-top text-slate-500 text-xs">
+                          {money(recognizedBooking(line).net_payout)}
+                        </td>
+                      </tr>
+                    ))}
+                  </React.Fragment>
+                ))}
+                {channels.length > 1 && channels.map(c => (
+                  <tr key={c.channel} className="bg-slate-50/50">
+                    <td colSpan={columnCount - 1} className="py-1.5 pl-2 text-right text-xs text-slate-500">
+                      {c.channel} ({c.bookings} booking{c.bookings === 1 ? '' : 's'})
+                    </td>
+                    <td className="py-1.5 text-right text-sm text-slate-600">{money(c.netPayouts)}</td>
+                  </tr>
+                ))}
+                <tr className="border-t border-slate-200 bg-slate-50">
+                  <td colSpan={columnCount - 1} className="py-3 pl-2 text-right text-xs font-semibold text-slate-500 uppercase tracking-wide">
+                    Total Funds Received
                   </td>
-                  <td className="py-2 text-right align-top text-slate-600 text-sm">
-                    ${booking.net_payout.toLocaleString(undefined, { minimumFractionDigits: 2 })}
+                  <td className="py-3 text-right font-bold text-slate-900">
+                    {money(totals.netPayouts)}
                   </td>
                 </tr>
-              ))}
-              <tr className="border-t border-slate-200 bg-slate-50">
-                <td className="py-3 pl-2 text-right text-xs font-semibold text-slate-500 uppercase tracking-wide">
-                  Total Funds Received
-                </td>
-                <td className="py-3 text-right font-bold text-slate-900">
-                  ${totals.netPayouts.toLocaleString(undefined, { minimumFractionDigits: 2 })}
-                </td>
-              </tr>
-              <tr><td colSpan={2} className="h-4"></td></tr>
-              <tr>
-                <td colSpan={2} className="py-2">
-                   <div className="text-xs font-bold text-slate-400 uppercase tracking-wider">Less Deductions</div>
-                </td>
-              </tr>
-              <tr>
-                <td className="py-4 pl-2 pr-4">
-                  <div className="font-medium text-slate-900">Property Management Fee</div>
-                  <div className="text-xs text-slate-500 mt-0.5">
-                    {config.mgmtFeePercent}% of {totals.feeBaseLabel} (${totals.feeBase.toLocaleString(undefined, { minimumFractionDigits: 2 })})
-                  </div>
-                </td>
-                <td className="py-4 text-right align-top text-slate-900">
-                  (${totals.mgmtFeeAmount.toLocaleString(undefined, { minimumFractionDigits: 2 })})
-                </td>
-              </tr>
-              {totals.reimbursableItems.map((item) => {
-                let displayAmount = item.debit_amount;
-                let descSuffix = "";
-                if (item.assigned_category === ExpenseCategory.SHARED) {
-                   displayAmount = item.debit_amount * ((item.split_percent || 100) / 100);
-                   descSuffix = ` (Split ${item.split_percent}%)`;
-                }
-                return (
-                  <tr key={item.id} className="hover:bg-slate-50/50">
-                    <td className="py-2 pl-4 pr-4">
-                      <div className="text-sm font-medium text-slate-900">{item.description}</div>
-                      <div className="text-xs text-slate-500 flex items-center gap-2">
-                         <span>{item.date}</span>
-                         <span className="w-1 h-1 rounded-full bg-slate-300"></span>
-                         <span>{item.account_name}</span>
-                         {item.contact && (
-                           <>
-                             <span className="w-1 h-1 rounded-full bg-slate-300"></span>
-                             <span>{item.contact}</span>
-                           </>
-                         )}
-                         {descSuffix && <span className="text-blue-600 font-medium">{descSuffix}</span>}
-                      </div>
+                {deferred !== 0 && (
+                  <tr>
+                    <td colSpan={columnCount - 1} className="py-1.5 pl-2 text-right text-xs text-slate-500">
+                      Deferred to later periods (nights after {statementConfig.periodEnd})
                     </td>
+                    <td className="py-1.5 text-right text-sm text-slate-400">{money(deferred)}</td>
+                  </tr>
+                )}
+                <tr><td colSpan={columnCount} className="h-4"></td></tr>
+                <tr>
+                  <td colSpan={columnCount} className="py-2">
+                     <div className="text-xs font-bold text-slate-400 uppercase tracking-wider">Less Deductions</div>
+                  </td>
+                </tr>
+                <tr>
+                  <td colSpan={columnCount - 1} className="py-4 pl-2 pr-4">
+                    <div className="font-medium text-slate-900">Property Management Fee</div>
+                    <div className="text-xs text-slate-500 mt-0.5">
+                      {describeFeeModel(statementConfig)} ({money(totals.feeBase)})
+                    </div>
+                    {totals.feeLines.length > 1 && (
+                      <table className="mt-2 text-xs text-slate-500">
+                        <tbody>
+                          {totals.feeLines.map((line, i) => (
+                            <tr key={i}>
+                              <td className="pr-4 py-0.5">{line.label}</td>
+                              <td className="pr-4 py-0.5 text-right">
+                                {line.base !== undefined && `${line.percent}% × ${money(line.base)}`}
+                              </td>
+                              <td className="py-0.5 text-right text-slate-700">{money(line.amount)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                  </td>
+                  <td className="py-4 text-right align-top text-slate-900">
+                    ({money(totals.mgmtFeeAmount)})
+                  </td>
+                </tr>
+                {totals.reimbursableItems.map((item) => {
+                  const displayAmount = chargedAmount(item);
+                  const descSuffix = item.assigned_category === ExpenseCategory.SHARED ? ` (Split ${item.split_percent}%)` : '';
+                  return (
+                    <tr key={item.id} className="hover:bg-slate-50/50">
+                      <td colSpan={columnCount - 1} className="py-2 pl-4 pr-4">
+                        <div className="text-sm font-medium text-slate-900">{item.description}</div>
+                        <div className="text-xs text-slate-500 flex items-center gap-2">
+                           <span>{item.date}</span>
+                           <span className="w-1 h-1 rounded-full bg-slate-300"></span>
+                           <span>{item.account_name}</span>
+                           {item.contact && (
+                             <>
+                               <span className="w-1 h-1 rounded-full bg-slate-300"></span>
+                               <span>{item.contact}</span>
+                             </>
+                           )}
+                           {descSuffix && <span className="text-blue-600 font-medium">{descSuffix}</span>}
+                        </div>
+                      </td>
+                      <td className="py-2 text-right align-top text-slate-600 text-sm">
+                        ({money(displayAmount)})
+                      </td>
+                    </tr>
+                  );
+                })}
+                {taxLines(totals.taxes).map(([label, amount]) => (
+                  <tr key={label}>
+                    <td colSpan={columnCount - 1} className="py-2 pl-4 pr-4 text-sm font-medium text-slate-900">{label}</td>
                     <td className="py-2 text-right align-top text-slate-600 text-sm">
-                      (${displayAmount.toLocaleString(undefined, { minimumFractionDigits: 2 })})
+                      ({money(amount)})
                     </td>
                   </tr>
-                );
-              })}
-              <tr className="border-t border-slate-200">
-                <td className="py-3 pl-2 text-right text-xs font-semibold text-slate-500 uppercase tracking-wide">
-                  Total Deductions
-                </td>
-                <td className="py-3 text-right font-semibold text-slate-700">
-                  (${totals.totalDeductions.toLocaleString(undefined, { minimumFractionDigits: 2 })})
-                </td>
-              </tr>
-            </tbody>
-          </table>
+                ))}
+                <tr className="border-t border-slate-200">
+                  <td colSpan={columnCount - 1} className="py-3 pl-2 text-right text-xs font-semibold text-slate-500 uppercase tracking-wide">
+                    Total Deductions
+                  </td>
+                  <td className="py-3 text-right font-semibold text-slate-700">
+                    ({money(totals.totalDeductions)})
+                  </td>
+                </tr>
+              </tbody>
+            </table>
+          )}
+
+          {hasTaxSummary && (
+            <div className="mb-12">
+              <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-3">Tax Summary</h3>
+              <table className="w-full text-sm">
+                <tbody className="divide-y divide-slate-100">
+                  {totals.taxes.lodgingTaxCollected !== 0 && (
+                    <>
+                      <tr>
+                        <td className="py-1.5 text-slate-600">Lodging / occupancy tax collected on bookings</td>
+                        <td className="py-1.5 text-right text-slate-900 w-40">{money(totals.taxes.lodgingTaxCollected)}</td>
+                      </tr>
+                      <tr>
+                        <td className="py-1.5 pl-4 text-slate-500">Remitted by OTA (marketplace facilitator)</td>
+                        <td className="py-1.5 text-right text-slate-600">{money(totals.taxes.remittedByOta)}</td>
+                      </tr>
+                      <tr>
+                        <td className="py-1.5 pl-4 text-slate-500">
+                          Remitted by manager{totals.taxes.withheldForRemittance ? ' (withheld above)' : ''}
+                        </td>
+                        <td className="py-1.5 text-right text-slate-600">{money(totals.taxes.remittedByManager)}</td>
+                      </tr>
+                    </>
+                  )}
+                  {totals.taxes.feeTax !== 0 && (
+                    <tr>
+                      <td className="py-1.5 text-slate-600">{totals.taxes.feeTaxLabel} charged on management fee</td>
+                      <td className="py-1.5 text-right text-slate-900 w-40">{money(totals.taxes.feeTax)}</td>
+                    </tr>
+                  )}
+                  {totals.taxes.reimbursableTax !== 0 && (
+                    <tr>
+                      <td className="py-1.5 text-slate-600">{totals.taxes.feeTaxLabel} charged on reimbursables</td>
+                      <td className="py-1.5 text-right text-slate-900 w-40">{money(totals.taxes.reimbursableTax)}</td>
+                    </tr>
+                  )}
+                  <tr className="border-t border-slate-300">
+                    <td className="py-1.5 font-semibold text-slate-900">Total tax deducted from owner</td>
+                    <td className="py-1.5 text-right font-semibold text-slate-900">{money(totals.totalTax)}</td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {kpis && (
+            <div className="mb-12">
+              <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-3">Occupancy & Performance</h3>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-slate-500">
+                    <th className="py-1.5 text-left font-medium"></th>
+                    <th className="py-1.5 text-right font-medium">Nights</th>
+                    <th className="py-1.5 text-right font-medium">Occupancy</th>
+                    <th className="py-1.5 text-right font-medium">ADR</th>
+                    <th className="py-1.5 text-right font-medium">RevPAR</th>
+                    <th className="py-1.5 text-right font-medium">Avg. stay</th>
+                    <th className="py-1.5 text-right font-medium">Lead time</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {[...(kpis.byChannel.length > 1 ? kpis.byChannel.map(c => ({ label: c.channel, figures: c })) : []), { label: 'All bookings', figures: kpis }].map(({ label, figures }) => (
+                    <tr key={label} className={label === 'All bookings' ? 'font-semibold text-slate-900' : 'text-slate-600'}>
+                      <td className="py-1.5">{label}</td>
+                      <td className="py-1.5 text-right">{figures.nightsBooked}</td>
+                      <td className="py-1.5 text-right">{formatPercent(figures.occupancy)}</td>
+                      <td className="py-1.5 text-right">{figures.adr === null ? '—' : money(figures.adr)}</td>
+                      <td className="py-1.5 text-right">{figures.revpar === null ? '—' : money(figures.revpar)}</td>
+                      <td className="py-1.5 text-right">{formatAverage(figures.averageStay, 'nights')}</td>
+                      <td className="py-1.5 text-right">{formatAverage(figures.leadTime, 'days')}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="mt-2 text-xs text-slate-400">
+                {kpis.availableNights} nights available{kpis.units > 1 ? ` across ${kpis.units} units` : ''}; ADR and RevPAR exclude guest fees such as cleaning.
+              </p>
+            </div>
+          )}
+
+          {ytd.statements > 0 && (
+            <div className="mb-12">
+              <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-3">Period and Year to Date</h3>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-slate-500">
+                    <th className="py-1.5 text-left font-medium"></th>
+                    <th className="py-1.5 text-right font-medium w-40">This period</th>
+                    <th className="py-1.5 text-right font-medium w-40">Year to date</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {TREND_METRICS.map(({ key, label }) => (
+                    <tr key={key} className={key === 'netToOwner' ? 'font-semibold text-slate-900' : 'text-slate-600'}>
+                      <td className="py-1.5">{label}</td>
+                      <td className="py-1.5 text-right">{money(draft.totals[key])}</td>
+                      <td className="py-1.5 text-right">{money(ytd.totals[key])}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="mt-2 text-xs text-slate-400">
+                Year to date includes {ytd.statements} earlier statement{ytd.statements === 1 ? '' : 's'} for {statementYear(draft.periodEnd)}.
+              </p>
+            </div>
+          )}
 
           <div className="mt-auto mb-16">
+             {hasAccountLines && (
+               <div className="flex justify-end mb-6">
+                 <table className="w-2/3 md:w-1/2 text-sm">
+                   <thead>
+                     <tr><th colSpan={2} className="pb-2 text-left text-xs font-bold text-slate-400 uppercase tracking-wider">Owner Account</th></tr>
+                   </thead>
+                   <tbody className="divide-y divide-slate-100">
+                     <tr>
+                       <td className="py-1.5 text-slate-600">
+                         Opening balance
+                         {balance.priorNumber && <span className="text-xs text-slate-400"> (from #{balance.priorNumber})</span>}
+                       </td>
+                       <td className="py-1.5 text-right text-slate-900">{money(balance.openingBalance)}</td>
+                     </tr>
+                     <tr>
+                       <td className="py-1.5 text-slate-600">Net activity this period</td>
+                       <td className="py-1.5 text-right text-slate-900">{money(balance.activity)}</td>
+                     </tr>
+                     {balance.paymentsReceived !== 0 && (
+                       <tr>
+                         <td className="py-1.5 text-slate-600">Payments received from owner</td>
+                         <td className="py-1.5 text-right text-slate-900">{money(balance.paymentsReceived)}</td>
+                       </tr>
+                     )}
+                     <tr>
+                       <td className="py-1.5 text-slate-600">Paid to owner</td>
+                       <td className="py-1.5 text-right text-slate-900">({money(balance.paymentToOwner)})</td>
+                     </tr>
+                     <tr className="border-t border-slate-300">
+                       <td className="py-1.5 font-semibold text-slate-900">
+                         Closing balance
+                         {balance.reserveHeld > 0 && <span className="text-xs font-normal text-slate-400"> (reserve held {money(balance.reserveHeld)})</span>}
+                       </td>
+                       <td className={`py-1.5 text-right font-semibold ${isNetPositive ? 'text-slate-900' : 'text-red-600'}`}>{money(balance.closingBalance)}</td>
+                     </tr>
+                   </tbody>
+                 </table>
+               </div>
+             )}
              <div className="flex justify-end">
                <div className="w-2/3 md:w-1/2 bg-slate-900 text-white rounded-lg p-6 shadow-lg">
                  <div className="flex justify-between items-center">
@@ -348,21 +853,67 @@ export const StepInvoice: React.FC<Props> = ({ data, config, onBack, onSaveDraft
                      {isNetPositive ? 'Net Payout to Owner' : 'Amount Due from Owner'}
                    </span>
                    <span className="text-3xl font-bold">
-                     ${Math.abs(totals.netToOwner).toLocaleString(undefined, { minimumFractionDigits: 2 })}
+                     {money(isNetPositive ? balance.paymentToOwner : -balance.closingBalance)}
                    </span>
                  </div>
                  {!isNetPositive && (
                    <div className="mt-2 text-xs text-red-200 bg-red-900/30 px-2 py-1 rounded inline-block">
-                     Expenses exceeded revenue this period.
+                     Expenses exceeded revenue. The deficit carries forward to the next statement unless paid.
+                   </div>
+                 )}
+                 {isNetPositive && balance.reserveHeld > 0 && (
+                   <div className="mt-2 text-xs text-slate-300">
+                     {money(balance.reserveHeld)} held in reserve and carried forward.
                    </div>
                  )}
                </div>
              </div>
           </div>
 
+          {hasPayoutReconciliation && (
+            <div className="mb-8">
+              <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-3">Payouts to Bank</h3>
+              <table className="w-full md:w-1/2 text-sm">
+                <tbody className="divide-y divide-slate-100">
+                  <tr>
+                    <td className="py-1.5 text-slate-600">Deposited to the bank account</td>
+                    <td className="py-1.5 text-right text-slate-900 w-40">{money(totals.payouts.deposited)}</td>
+                  </tr>
+                  {totals.payouts.depositDifference !== 0 && (
+                    <tr>
+                      <td className="py-1.5 text-slate-600">Difference from the OTA payouts deposited</td>
+                      <td className="py-1.5 text-right text-slate-600">{money(totals.payouts.depositDifference)}</td>
+                    </tr>
+                  )}
+                  {totals.payouts.inTransit !== 0 && (
+                    <tr>
+                      <td className="py-1.5 text-slate-600">In transit at period end</td>
+                      <td className="py-1.5 text-right text-slate-600">{money(totals.payouts.inTransit)}</td>
+                    </tr>
+                  )}
+                  {totals.payouts.unmatched !== 0 && (
+                    <tr>
+                      <td className="py-1.5 text-slate-600">Not matched to a deposit</td>
+                      <td className="py-1.5 text-right text-slate-600">{money(totals.payouts.unmatched)}</td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+              {timingDifferences.length > 0 && (
+                <p className="mt-2 text-xs text-slate-500">
+                  <span className="font-semibold text-slate-700">Timing differences: </span>
+                  payout for {timingDifferences.map(b => b.reservation_id).join(', ')} had not reached the account by period end.
+                </p>
+              )}
+              <p className="mt-2 text-xs text-slate-400">
+                From the payouts matched to deposits in the Review step. Funds received and the net payout above follow the OTA's payouts and do not change with the matching.
+              </p>
+            </div>
+          )}
+
           <div className="bg-slate-50 rounded-xl p-6 border border-slate-100 print:border-none print:bg-transparent print:p-0 mt-8">
             <h4 className="text-xs font-bold text-slate-900 mb-2 uppercase tracking-wide">Payment / Transfer Details</h4>
-            <p className="text-slate-600 text-sm font-mono whitespace-pre-wrap">{config.managerBank}</p>
+            <p className="text-slate-600 text-sm font-mono whitespace-pre-wrap">{statementConfig.managerBank}</p>
           </div>
         </div>
         
@@ -370,6 +921,21 @@ export const StepInvoice: React.FC<Props> = ({ data, config, onBack, onSaveDraft
            <p className="text-[10px] text-slate-400">Generated by STR Invoicer</p>
         </div>
       </div>
+
+      <div className="mt-10 space-y-6 no-print">
+        <OwnerLedger
+          history={balanceHistory(ledger, subject)}
+          draft={issued ? undefined : { periodStart: draft.periodStart, periodEnd: draft.periodEnd, number: invoiceId, currency: config.currency, balance }}
+        />
+        <TrendReports
+          ledger={ledger}
+          subject={subject}
+          subjectLabel={draft.subjectLabel}
+          currency={config.currency}
+          draft={issued ? undefined : { number: invoiceId, periodStart: draft.periodStart, periodEnd: draft.periodEnd, totals: draft.totals, paidToOwner: balance.paymentToOwner, draft: true }}
+        />
+        <StatementHistory ledger={ledger} currentId={issued?.id} onExport={handleExportLedger} />
+      </div>
     </div>
   );
 };
@@ -1,23 +1,194 @@
 
 import React, { useState } from 'react';
-import { Upload, FileText, Settings, AlertCircle, ArrowRight, CheckCircle, FileJson } from 'lucide-react';
-import { ConfigState, FilesState, SessionState, isSessionState } from '../types';
-import { readSpreadsheet, parseClassificationMap } from '../services/excelService';
+import { Upload, FileText, Settings, AlertCircle, ArrowRight, CheckCircle, FileJson, Building2, Plus, Trash2, ListChecks, Download, ChevronDown, ChevronUp, Eye, Layers } from 'lucide-react';
+import { BalanceSettings, ClassificationRule, ConfigState, ExchangeRate, FilesState, ImportPresetId, NumberingScheme, PropertyConfig, RecognitionMode, SessionState, SourceFile, SourceKind, TaxSettings } from '../types';
+import { defaultSheetRange, guessChannel, parseClassificationMap, readWorkbook, sheetRange, SheetRange, sheetSource, WorkbookSheet } from '../services/excelService';
+import { createProperty, ownerKey } from '../services/portfolio';
+import { exportRulesFile, importRulesFile } from '../services/classificationRules';
+import { RulesEditor } from './RulesEditor';
+import { FeeModelEditor } from './FeeModelEditor';
+import { WorkspacePanel } from './WorkspacePanel';
+import { SheetPicker } from './SheetPicker';
+import { loadSession, SessionLoadResult } from '../services/sessionSchema';
+import { formatStatementNumber, statementYear } from '../services/statementLedger';
+import { describeFeeModel } from '../services/feeModel';
+import { COMMON_CURRENCIES, normalizeCurrency } from '../services/money';
+import { importRatesFile } from '../services/exchangeRates';
+import { findProfile } from '../services/mappingProfiles';
+import { loadSavedProfiles } from '../services/profileStore';
+import { detectPreset, findPreset, presetsFor } from '../services/importPresets';
+import { RECOGNITION_MODE_LABELS } from '../services/recognition';
+import { ADJUSTMENT_TYPES, LINE_TYPE_LABELS } from '../services/adjustments';
 
 interface Props {
   initialConfig: ConfigState;
-  onNext: (files: FilesState, config: ConfigState) => void;
+  initialRules: ClassificationRule[];
+  activeSessionId: string;
+  onNext: (files: FilesState, config: ConfigState, presetChoices: Record<string, ImportPresetId | null>) => void;
   onResumeSession: (session: SessionState) => void;
 }
 
-export const StepLoad: React.FC<Props> = ({ initialConfig, onNext, onResumeSession }) => {
+// 'auto' recognises the export from its headers; 'none' leaves the columns
+// to be mapped by hand
+type PresetChoice = ImportPresetId | 'auto' | 'none';
+
+const PresetSelect = ({
+  kind,
+  value,
+  onChange
+}: {
+  kind: SourceKind,
+  value: PresetChoice,
+  onChange: (value: PresetChoice) => void
+}) => (
+  <select
+    className="mt-1 block w-full rounded-md border-slate-200 text-xs py-1 text-slate-600 focus:border-indigo-500 focus:ring-indigo-500"
+    value={value}
+    onChange={e => onChange(e.target.value as PresetChoice)}
+    title="Export format"
+  >
+    <option value="auto">Detect export format</option>
+    {presetsFor(kind).map(p => (
+      <option key={p.id} value={p.id}>{p.label}</option>
+    ))}
+    <option value="none">Other (map columns myself)</option>
+  </select>
+);
+
+// One sheet of an uploaded workbook, read when it was added so its layout
+// can be checked before continuing. A workbook can give several.
+interface PendingSource {
+  key: string;
+  fileName: string;
+  sheets: WorkbookSheet[];
+  range: SheetRange;
+  channel: string; // OTA only
+  preset: PresetChoice;
+}
+
+const pendingSource = (fileName: string, sheets: WorkbookSheet[], range: SheetRange, kind: SourceKind): PendingSource => ({
+  key: Math.random().toString(36).substring(2, 9),
+  fileName,
+  sheets,
+  range,
+  channel: kind === 'ota' ? guessChannel(range.sheet) || guessChannel(fileName) : '',
+  preset: 'auto'
+});
+
+interface PendingSourceItemProps {
+  source: PendingSource;
+  kind: SourceKind;
+  open: boolean;
+  onToggle: () => void;
+  onChange: (updates: Partial<PendingSource>) => void;
+  onRemove: () => void;
+  onAddSheet: () => void;
+}
+
+const PendingSourceItem: React.FC<PendingSourceItemProps> = ({ source, kind, open, onToggle, onChange, onRemove, onAddSheet }) => {
+  const name = source.sheets.length > 1 ? `${source.fileName} › ${source.range.sheet}` : source.fileName;
+  return (
+    <li className="bg-white rounded-lg border border-slate-200 p-2">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs text-slate-700 truncate" title={name}>{name}</span>
+        <div className="flex items-center shrink-0">
+          {source.sheets.length > 1 && (
+            <button onClick={onAddSheet} className="p-1 rounded-md text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 transition-colors" title="Import another sheet of this workbook">
+              <Layers className="h-3.5 w-3.5" />
+            </button>
+          )}
+          <button onClick={onToggle} className={`p-1 rounded-md transition-colors ${open ? 'text-indigo-600 bg-indigo-50' : 'text-slate-400 hover:text-indigo-600 hover:bg-indigo-50'}`} title="Sheet, header row and preview">
+            <Eye className="h-3.5 w-3.5" />
+          </button>
+          <button onClick={onRemove} className="p-1 rounded-md text-slate-400 hover:text-red-600 hover:bg-red-50 transition-colors" title="Remove file">
+            <Trash2 className="h-3.5 w-3.5" />
+          </button>
+        </div>
+      </div>
+      {kind === 'ota' && (
+        <input
+          type="text"
+          className="mt-1 block w-full rounded-md border-slate-200 text-xs py-1 focus:border-indigo-500 focus:ring-indigo-500"
+          placeholder="Channel (e.g. Airbnb)"
+          value={source.channel}
+          onChange={e => onChange({ channel: e.target.value })}
+        />
+      )}
+      <PresetSelect
+        kind={kind}
+        value={source.preset}
+        onChange={preset => onChange(kind === 'ota'
+          ? { preset, channel: source.channel || findPreset(preset)?.channel || '' }
+          : { preset }
+        )}
+      />
+      {open && (
+        <SheetPicker sheets={source.sheets} range={source.range} onChange={range => onChange({ range })} />
+      )}
+    </li>
+  );
+};
+
+// Any number of exports of one kind, each listed with a remove button.
+// Declared outside StepLoad so the channel inputs keep focus while typing.
+const SourceListCard = ({
+  title,
+  desc,
+  count,
+  onAdd,
+  children
+}: {
+  title: string,
+  desc: string,
+  count: number,
+  onAdd: (e: React.ChangeEvent<HTMLInputElement>) => void,
+  children: React.ReactNode
+}) => (
+  <div className={`relative border-2 border-dashed rounded-xl p-6 transition-all duration-200 ${
+    count ? 'border-indigo-300 bg-indigo-50/50' : 'border-slate-200'
+  }`}>
+    <div className="absolute top-4 right-4">
+      {count ? (
+        <div className="bg-green-100 p-1 rounded-full"><CheckCircle className="w-5 h-5 text-green-600" /></div>
+      ) : (
+        <span className="text-xs font-medium text-red-400 bg-red-50 px-2 py-1 rounded-full">Required</span>
+      )}
+    </div>
+    <div className="flex flex-col items-center text-center">
+      <div className={`p-3 rounded-full mb-3 ${count ? 'bg-indigo-100 text-indigo-600' : 'bg-slate-100 text-slate-400'}`}>
+        <FileText size={24} />
+      </div>
+      <h3 className="text-sm font-bold text-slate-900">{title}</h3>
+      <p className="text-xs text-slate-500 mt-1 mb-4 h-5 truncate w-full">{count ? `${count} file${count === 1 ? '' : 's'}` : desc}</p>
+    </div>
+    {count > 0 && <ul className="space-y-2 mb-4">{children}</ul>}
+    <div className="flex justify-center">
+      <label className="inline-flex items-center px-4 py-2 border border-transparent text-xs font-semibold rounded-full text-indigo-700 bg-indigo-100 hover:bg-indigo-200 transition-colors cursor-pointer">
+        <input type="file" multiple onChange={onAdd} className="hidden" accept=".xlsx,.xls,.csv" />
+        <Plus className="mr-1 h-3.5 w-3.5" />
+        {count ? 'Add Files' : 'Select Files'}
+      </label>
+    </div>
+  </div>
+);
+
+export const StepLoad: React.FC<Props> = ({ initialConfig, initialRules, activeSessionId, onNext, onResumeSession }) => {
   const [config, setConfig] = useState<ConfigState>(initialConfig);
-  const [otaFile, setOtaFile] = useState<File | null>(null);
-  const [glFile, setGlFile] = useState<File | null>(null);
+  const [rules, setRules] = useState<ClassificationRule[]>(initialRules);
+  const [showRules, setShowRules] = useState(false);
+  const [showFeeModel, setShowFeeModel] = useState(false);
+  const [feeModelPropertyId, setFeeModelPropertyId] = useState<string | null>(null);
+  const [rulesError, setRulesError] = useState<string | null>(null);
+  const [ratesError, setRatesError] = useState<string | null>(null);
+  // Each OTA export carries the channel its bookings are labelled with
+  const [otaFiles, setOtaFiles] = useState<PendingSource[]>([]);
+  const [glFiles, setGlFiles] = useState<PendingSource[]>([]);
+  const [openPreview, setOpenPreview] = useState<string | null>(null);
   const [mapFile, setMapFile] = useState<File | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [resumeError, setResumeError] = useState<string | null>(null);
+  const [recovery, setRecovery] = useState<SessionLoadResult | null>(null);
 
   const handleFileChange = (setter: React.Dispatch<React.SetStateAction<File | null>>) => (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
@@ -25,6 +196,147 @@ export const StepLoad: React.FC<Props> = ({ initialConfig, onNext, onResumeSessi
     }
   };
 
+  const setSources = (kind: SourceKind) => kind === 'ota' ? setOtaFiles : setGlFiles;
+
+  // Each workbook starts from its largest sheet with the header row found
+  const addSources = (kind: SourceKind) => async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const added: File[] = Array.from(e.target.files || []);
+    e.target.value = '';
+    setError(null);
+    const failed: string[] = [];
+    const read = await Promise.all(added.map(async file => {
+      try {
+        const sheets = await readWorkbook(file);
+        return pendingSource(file.name, sheets, defaultSheetRange(sheets), kind);
+      } catch (err) {
+        failed.push(file.name);
+        return null;
+      }
+    }));
+    const pending = read.filter((p): p is PendingSource => !!p);
+    setSources(kind)(prev => [...prev, ...pending]);
+    if (failed.length) setError(`Could not read ${failed.join(', ')}. Please ensure they are valid Excel/CSV files.`);
+  };
+
+  const updateSource = (kind: SourceKind, key: string, updates: Partial<PendingSource>) =>
+    setSources(kind)(prev => prev.map(p => p.key === key ? { ...p, ...updates } : p));
+
+  const removeSource = (kind: SourceKind, key: string) =>
+    setSources(kind)(prev => prev.filter(p => p.key !== key));
+
+  // Another source from the same workbook, on the first sheet not yet used
+  const addSheet = (kind: SourceKind, source: PendingSource) => {
+    const current = kind === 'ota' ? otaFiles : glFiles;
+    const used = new Set(current.filter(p => p.sheets === source.sheets).map(p => p.range.sheet));
+    const sheet = source.sheets.find(s => !used.has(s.name)) || source.sheets[0];
+    const added = pendingSource(source.fileName, source.sheets, sheetRange(sheet), kind);
+    const at = current.findIndex(p => p.key === source.key);
+    setSources(kind)([...current.slice(0, at + 1), added, ...current.slice(at + 1)]);
+    setOpenPreview(added.key);
+  };
+
+  const addProperty = () => {
+    setConfig(prev => ({
+      ...prev,
+      properties: [
+        ...prev.properties,
+        {
+          ...createProperty(`Unit ${prev.properties.length + 1}`),
+          ownerName: prev.ownerName,
+          ownerId: prev.ownerId,
+          mgmtFeePercent: prev.mgmtFeePercent,
+          feeBaseMode: prev.feeBaseMode
+        }
+      ]
+    }));
+  };
+
+  const updateNumbering = (updates: Partial<NumberingScheme>) => {
+    setConfig(prev => ({ ...prev, numbering: { ...prev.numbering, ...updates } }));
+  };
+
+  const updateBalances = (updates: Partial<BalanceSettings>) => {
+    setConfig(prev => ({ ...prev, balances: { ...prev.balances, ...updates } }));
+  };
+
+  const updateTaxes = (updates: Partial<TaxSettings>) => {
+    setConfig(prev => ({ ...prev, taxes: { ...prev.taxes, ...updates } }));
+  };
+
+  const updateRate = (index: number, updates: Partial<ExchangeRate>) => {
+    setConfig(prev => ({ ...prev, exchangeRates: prev.exchangeRates.map((r, i) => i === index ? { ...r, ...updates } : r) }));
+  };
+
+  const handleRatesImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setRatesError(null);
+    try {
+      const imported = await importRatesFile(file);
+      // An imported rate replaces the one for the same currency and date
+      const key = (r: ExchangeRate) => `${r.currency}|${r.date || ''}`;
+      setConfig(prev => ({
+        ...prev,
+        exchangeRates: [...prev.exchangeRates.filter(r => !imported.some(i => key(i) === key(r))), ...imported]
+      }));
+    } catch (err) {
+      setRatesError(err instanceof Error ? err.message : 'Could not read the exchange rate file.');
+    }
+  };
+
+  // Owner IDs are set from the name once it is entered; an owner already in
+  // the portfolio under the same name keeps their ID
+  const pinPropertyOwner = (property: PropertyConfig) => {
+    const name = property.ownerName.trim();
+    if (property.ownerId.trim() || !name) return;
+    const same = name === config.ownerName.trim()
+      ? ownerKey(config)
+      : config.properties.filter(p => p.id !== property.id && p.ownerName.trim() === name).map(ownerKey).find(Boolean);
+    updateProperty(property.id, { ownerId: same || name });
+  };
+
+  const updateProperty = (id: string, updates: Partial<PropertyConfig>) => {
+    setConfig(prev => ({
+      ...prev,
+      properties: prev.properties.map(p => p.id === id ? { ...p, ...updates } : p)
+    }));
+  };
+
+  const removeProperty = (id: string) => {
+    setConfig(prev => ({ ...prev, properties: prev.properties.filter(p => p.id !== id) }));
+  };
+
+  const handleRulesImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setRulesError(null);
+    try {
+      const imported = await importRulesFile(file);
+      // Imported rules replace same-id rules and are appended otherwise
+      setRules(prev => [...prev.filter(r => !imported.some(i => i.id === r.id)), ...imported]);
+      setShowRules(true);
+    } catch (err) {
+      setRulesError("Could not read rules. Please choose a rules .json file exported from STR Invoicer.");
+    }
+  };
+
+  // Migrates and validates a stored session. Clean loads resume straight away;
+  // anything that had to be dropped or defaulted is shown for confirmation.
+  const resumeFromRaw = (raw: any) => {
+    setResumeError(null);
+    setRecovery(null);
+    const result = loadSession(raw);
+    if (!result.session) {
+      setResumeError(result.error || "The uploaded file does not appear to be a valid STR Invoicer session file.");
+    } else if (result.issues.length) {
+      setRecovery(result);
+    } else {
+      onResumeSession(result.session);
+    }
+  };
+
   const handleResumeFile = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
@@ -33,11 +345,7 @@ export const StepLoad: React.FC<Props> = ({ initialConfig, onNext, onResumeSessi
     reader.onload = (event) => {
       try {
         const json = JSON.parse(event.target?.result as string);
-        if (isSessionState(json)) {
-          onResumeSession(json);
-        } else {
-          setResumeError("The uploaded file does not appear to be a valid STR Invoicer session file.");
-        }
+        resumeFromRaw(json);
       } catch (err) {
         setResumeError("Failed to read file. Please ensure it is a valid JSON file.");
       }
@@ -46,24 +354,50 @@ export const StepLoad: React.FC<Props> = ({ initialConfig, onNext, onResumeSessi
   };
 
   const handleNext = async () => {
-    if (!otaFile || !glFile) {
-      setError("Please upload both OTA and GL files.");
+    if (!otaFiles.length || !glFiles.length) {
+      setError("Please upload at least one OTA file and one GL file.");
       return;
     }
     if (!config.periodStart || !config.periodEnd) {
       setError("Please specify the reporting period.");
       return;
     }
+    if (config.portfolioMode && (config.properties.length === 0 || config.properties.some(p => !p.name.trim()))) {
+      setError("Portfolio mode needs at least one property, and every property needs a name.");
+      return;
+    }
     setIsLoading(true);
     setError(null);
     try {
-      const otaRaw = await readSpreadsheet(otaFile);
-      const glRaw = await readSpreadsheet(glFile);
+      const presetOf = (choice: PresetChoice, file: SourceFile) =>
+        choice === 'auto' ? detectPreset(file) : findPreset(choice);
+      // A file left without a channel takes the one saved with its mapping
+      // profile, or the one its export format belongs to
+      const profiles = loadSavedProfiles();
+      const ota = otaFiles
+        .map(p => sheetSource(p.fileName, p.sheets, p.range, 'ota', p.channel))
+        .map((f, i) => f.channel ? f : { ...f, channel: findProfile(profiles, f)?.channel || presetOf(otaFiles[i].preset, f)?.channel });
+      const gl = glFiles.map(p => sheetSource(p.fileName, p.sheets, p.range, 'gl'));
+      const empty = [...ota, ...gl].find(f => !f.rows.length);
+      if (empty) {
+        setError(`${empty.name} has no rows below its header row. Check the sheet and header row in its preview.`);
+        return;
+      }
+      if (ota.length > 1 && ota.some(f => !f.channel)) {
+        setError("Give each OTA file a channel so its bookings can be told apart on the statement.");
+        return;
+      }
       let classificationMap = {};
       if (mapFile) {
         classificationMap = await parseClassificationMap(mapFile);
       }
-      onNext({ otaRaw, glRaw, classificationMap }, config);
+      // Detection is the default, so only explicit choices are passed on
+      const presetChoices: Record<string, ImportPresetId | null> = {};
+      [...ota.map((f, i) => [f.id, otaFiles[i].preset] as const), ...gl.map((f, i) => [f.id, glFiles[i].preset] as const)]
+        .forEach(([id, choice]) => {
+          if (choice !== 'auto') presetChoices[id] = choice === 'none' ? null : choice;
+        });
+      onNext({ ota, gl, classificationMap, classificationRules: rules, forcedRows: {} }, config, presetChoices);
     } catch (err: any) {
       setError("Failed to parse files. Please ensure they are valid Excel/CSV files.");
     } finally {
@@ -121,10 +455,13 @@ export const StepLoad: React.FC<Props> = ({ initialConfig, onNext, onResumeSessi
           <FileJson size={18} className="text-indigo-600" />
           <h2 className="text-sm font-bold uppercase tracking-wide text-slate-700">Resume in-flight invoice prep</h2>
         </div>
+        <div className="px-6 pt-6">
+          <WorkspacePanel activeSessionId={activeSessionId} onOpen={resumeFromRaw} />
+        </div>
         <div className="p-6 flex flex-col sm:flex-row items-center justify-between gap-6">
           <div className="text-sm text-slate-600">
-            <p className="font-medium">Have a saved session file (.json)?</p>
-            <p className="text-xs text-slate-400 mt-1">Load it here to restore your configuration immediately.</p>
+            <p className="font-medium">Have a backup session file (.json)?</p>
+            <p className="text-xs text-slate-400 mt-1">Load it here to restore it into this device's workspace.</p>
           </div>
           <div className="shrink-0 w-full sm:w-auto">
             <label className="cursor-pointer w-full flex justify-center">
@@ -136,6 +473,40 @@ export const StepLoad: React.FC<Props> = ({ initialConfig, onNext, onResumeSessi
             </label>
           </div>
         </div>
+        {recovery?.session && (
+          <div className="px-6 pb-6 pt-0">
+            <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 text-sm text-amber-900 space-y-3">
+              <div className="flex items-start">
+                <AlertCircle className="h-5 w-5 mr-2 shrink-0 text-amber-500" />
+                <div>
+                  <p className="font-semibold">Some of this session could not be loaded.</p>
+                  <p className="text-xs mt-0.5">
+                    {recovery.issues.filter(i => i.action === 'dropped').length} item(s) will be dropped and{' '}
+                    {recovery.issues.filter(i => i.action === 'defaulted').length} reset to defaults
+                    {recovery.fromVersion !== null && recovery.fromVersion < recovery.session.version && ` (upgraded from schema v${recovery.fromVersion})`}.
+                  </p>
+                </div>
+              </div>
+              <ul className="max-h-48 overflow-auto custom-scrollbar bg-white/70 rounded-md border border-amber-100 divide-y divide-amber-100 text-xs">
+                {recovery.issues.map((issue, idx) => (
+                  <li key={idx} className="px-3 py-1.5 flex gap-3">
+                    <span className={`shrink-0 font-semibold uppercase text-[10px] mt-0.5 ${issue.action === 'dropped' ? 'text-red-600' : 'text-amber-700'}`}>{issue.action}</span>
+                    <span className="font-mono text-slate-700 shrink-0">{issue.path}</span>
+                    <span className="text-slate-500">{issue.problem}</span>
+                  </li>
+                ))}
+              </ul>
+              <div className="flex justify-end gap-2">
+                <button onClick={() => setRecovery(null)} className="inline-flex items-center px-4 py-2 border border-slate-300 text-xs font-medium rounded-lg text-slate-700 bg-white hover:bg-slate-50 transition-colors">
+                  Cancel
+                </button>
+                <button onClick={() => { const s = recovery.session!; setRecovery(null); onResumeSession(s); }} className="inline-flex items-center px-4 py-2 border border-transparent text-xs font-medium rounded-lg text-white bg-amber-600 hover:bg-amber-700 transition-colors">
+                  Load Recovered Session
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
         {resumeError && (
           <div className="px-6 pb-6 pt-0">
              <div className="bg-red-50 border border-red-100 text-red-700 px-4 py-3 rounded-lg text-sm flex items-start">
@@ -157,8 +528,34 @@ export const StepLoad: React.FC<Props> = ({ initialConfig, onNext, onResumeSessi
           <div className="text-xs text-slate-400">Supports .xlsx, .csv</div>
         </div>
         <div className="p-6 grid grid-cols-1 md:grid-cols-3 gap-6">
-          <FileCard title="OTA Export" desc="Booking statements" file={otaFile} onChange={handleFileChange(setOtaFile)} icon={FileText} required />
-          <FileCard title="General Ledger" desc="Accounting export" file={glFile} onChange={handleFileChange(setGlFile)} icon={FileText} required />
+          <SourceListCard title="OTA Exports" desc="Booking statements, one per channel" count={otaFiles.length} onAdd={addSources('ota')}>
+            {otaFiles.map(source => (
+              <PendingSourceItem
+                key={source.key}
+                source={source}
+                kind="ota"
+                open={openPreview === source.key}
+                onToggle={() => setOpenPreview(prev => prev === source.key ? null : source.key)}
+                onChange={updates => updateSource('ota', source.key, updates)}
+                onRemove={() => removeSource('ota', source.key)}
+                onAddSheet={() => addSheet('ota', source)}
+              />
+            ))}
+          </SourceListCard>
+          <SourceListCard title="General Ledger" desc="Accounting or bank exports" count={glFiles.length} onAdd={addSources('gl')}>
+            {glFiles.map(source => (
+              <PendingSourceItem
+                key={source.key}
+                source={source}
+                kind="gl"
+                open={openPreview === source.key}
+                onToggle={() => setOpenPreview(prev => prev === source.key ? null : source.key)}
+                onChange={updates => updateSource('gl', source.key, updates)}
+                onRemove={() => removeSource('gl', source.key)}
+                onAddSheet={() => addSheet('gl', source)}
+              />
+            ))}
+          </SourceListCard>
           <FileCard title="Classification Map" desc="Mapping rules" file={mapFile} onChange={handleFileChange(setMapFile)} icon={Settings} />
         </div>
       </section>
@@ -198,12 +595,70 @@ export const StepLoad: React.FC<Props> = ({ initialConfig, onNext, onResumeSessi
                   </select>
                 </div>
               </div>
+              <div>
+                <label className="block text-xs font-medium text-slate-700 mb-1.5">Booking Adjustments in Fee Base</label>
+                <div className="flex flex-wrap gap-x-5 gap-y-1">
+                  {ADJUSTMENT_TYPES.map(type => (
+                    <label key={type} className="flex items-center gap-2 text-xs text-slate-600">
+                      <input type="checkbox" className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500" checked={config.adjustmentFeeBase[type]} onChange={e => setConfig({...config, adjustmentFeeBase: { ...config.adjustmentFeeBase, [type]: e.target.checked }})} />
+                      {LINE_TYPE_LABELS[type]}s
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-slate-400 mt-1">Unticked lines still reach the owner but are not charged a management fee.</p>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-slate-700 mb-1.5">Revenue Recognition</label>
+                <select className="block w-full rounded-lg border-slate-200 text-sm focus:border-indigo-500 focus:ring-indigo-500 shadow-sm" value={config.recognitionMode} onChange={e => setConfig({...config, recognitionMode: e.target.value as RecognitionMode})}>
+                  {Object.entries<string>(RECOGNITION_MODE_LABELS).map(([mode, label]) => (
+                    <option key={mode} value={mode}>{label}</option>
+                  ))}
+                </select>
+                {config.recognitionMode === 'nightly' && (
+                  <p className="text-xs text-slate-400 mt-1">Stays crossing the period end are split by nights; the rest is deferred to the next statement.</p>
+                )}
+                <label className="flex items-center gap-2 text-xs text-slate-600 mt-2">
+                  <input type="checkbox" className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500" checked={config.kpiSummary} onChange={e => setConfig({...config, kpiSummary: e.target.checked})} />
+                  Show occupancy and rate figures on the statement
+                </label>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-slate-700 mb-1.5">Statement Numbering</label>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <span className="text-xs text-slate-400 mb-1 block">Prefix</span>
+                    <input type="text" className="block w-full rounded-lg border-slate-200 text-sm font-mono focus:border-indigo-500 focus:ring-indigo-500 shadow-sm" value={config.numbering.prefix} onChange={e => updateNumbering({ prefix: e.target.value })} placeholder="e.g. SW" />
+                  </div>
+                  <div>
+                    <span className="text-xs text-slate-400 mb-1 block">Digits</span>
+                    <input type="number" min={1} max={8} className="block w-full rounded-lg border-slate-200 text-sm focus:border-indigo-500 focus:ring-indigo-500 shadow-sm" value={config.numbering.padding} onChange={e => updateNumbering({ padding: Math.min(8, Math.max(1, parseInt(e.target.value, 10) || 1)) })} />
+                  </div>
+                </div>
+                <div className="flex flex-wrap gap-x-5 gap-y-1 mt-2">
+                  <label className="flex items-center gap-2 text-xs text-slate-600">
+                    <input type="checkbox" className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500" checked={config.numbering.perOwnerSequence} onChange={e => updateNumbering({ perOwnerSequence: e.target.checked })} />
+                    Separate sequence per owner
+                  </label>
+                  <label className="flex items-center gap-2 text-xs text-slate-600">
+                    <input type="checkbox" className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500" checked={config.numbering.resetYearly} onChange={e => updateNumbering({ resetYearly: e.target.checked })} />
+                    Restart each year
+                  </label>
+                </div>
+                <p className="text-xs text-slate-400 mt-1.5">
+                  First number: <span className="font-mono text-slate-600">{formatStatementNumber(config.numbering, config.ownerName, statementYear(config.periodEnd), 1)}</span>. Numbers are assigned when a statement is finalized.
+                </p>
+              </div>
             </div>
             <div className="space-y-4">
               <h3 className="text-sm font-medium text-slate-900 border-b border-slate-100 pb-2 mb-4">Entity Details</h3>
               <div>
                  <label className="block text-xs font-medium text-slate-700 mb-1.5">Property Owner Name</label>
-                 <input type="text" className="block w-full rounded-lg border-slate-200 text-sm focus:border-indigo-500 focus:ring-indigo-500 shadow-sm" value={config.ownerName} onChange={e => setConfig({...config, ownerName: e.target.value})} placeholder="e.g. John Smith" />
+                 <input type="text" className="block w-full rounded-lg border-slate-200 text-sm focus:border-indigo-500 focus:ring-indigo-500 shadow-sm" value={config.ownerName} onChange={e => setConfig({...config, ownerName: e.target.value})} onBlur={() => !config.ownerId.trim() && config.ownerName.trim() && setConfig({...config, ownerId: config.ownerName.trim()})} placeholder="e.g. John Smith" />
+              </div>
+              <div>
+                 <label className="block text-xs font-medium text-slate-700 mb-1.5">Owner ID</label>
+                 <input type="text" className="block w-full rounded-lg border-slate-200 text-sm focus:border-indigo-500 focus:ring-indigo-500 shadow-sm" value={config.ownerId} onChange={e => setConfig({...config, ownerId: e.target.value})} placeholder="Taken from the owner name" />
+                 <p className="text-xs text-slate-400 mt-1">Statement history and numbering are kept under this ID, so the name can be corrected without starting over.</p>
               </div>
               <div>
                  <label className="block text-xs font-medium text-slate-700 mb-1.5">Property Manager Name</label>
@@ -219,11 +674,301 @@ export const StepLoad: React.FC<Props> = ({ initialConfig, onNext, onResumeSessi
                    <input type="text" className="block w-full rounded-lg border-slate-200 text-sm focus:border-indigo-500 focus:ring-indigo-500 shadow-sm" value={config.managerBank} onChange={e => setConfig({...config, managerBank: e.target.value})} placeholder="Bank Account info" />
                 </div>
               </div>
+              <div>
+                <label className="block text-xs font-medium text-slate-700 mb-1.5">Owner Balance</label>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <span className="text-xs text-slate-400 mb-1 block">Reserve held back</span>
+                    <input type="number" min={0} step="0.01" className="block w-full rounded-lg border-slate-200 text-sm focus:border-indigo-500 focus:ring-indigo-500 shadow-sm" value={config.balances.reserveTarget} onChange={e => updateBalances({ reserveTarget: parseFloat(e.target.value) || 0 })} />
+                  </div>
+                  <div>
+                    <span className="text-xs text-slate-400 mb-1 block">Received from owner this period</span>
+                    <input type="number" step="0.01" className="block w-full rounded-lg border-slate-200 text-sm focus:border-indigo-500 focus:ring-indigo-500 shadow-sm" value={config.balances.ownerPaymentsReceived} onChange={e => updateBalances({ ownerPaymentsReceived: parseFloat(e.target.value) || 0 })} />
+                  </div>
+                </div>
+                <div className="flex items-center gap-3 mt-2">
+                  <label className="flex items-center gap-2 text-xs text-slate-600 shrink-0">
+                    <input type="checkbox" className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500" checked={config.balances.manualOpeningBalance} onChange={e => updateBalances({ manualOpeningBalance: e.target.checked })} />
+                    Set opening balance manually
+                  </label>
+                  {config.balances.manualOpeningBalance && (
+                    <input type="number" step="0.01" className="block w-32 rounded-lg border-slate-200 text-sm focus:border-indigo-500 focus:ring-indigo-500 shadow-sm" value={config.balances.openingBalance} onChange={e => updateBalances({ openingBalance: parseFloat(e.target.value) || 0 })} />
+                  )}
+                </div>
+                <p className="text-xs text-slate-400 mt-1.5">
+                  Otherwise each statement opens with the closing balance of the last finalized one. Negative balances are owed by the owner.
+                </p>
+              </div>
+            </div>
+          </div>
+          <div className="border-t border-slate-100 pt-4">
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <h3 className="text-sm font-medium text-slate-900">Management Fee Model</h3>
+                <p className="text-xs text-slate-500">{describeFeeModel(config)}</p>
+              </div>
+              <button onClick={() => setShowFeeModel(!showFeeModel)} className="inline-flex items-center px-3 py-1.5 text-xs font-medium rounded-lg text-indigo-700 bg-indigo-50 hover:bg-indigo-100 transition-colors">
+                {showFeeModel ? <ChevronUp className="mr-1 h-3.5 w-3.5" /> : <ChevronDown className="mr-1 h-3.5 w-3.5" />}
+                {showFeeModel ? 'Hide' : 'Edit'}
+              </button>
+            </div>
+            {showFeeModel && (
+              <div className="mt-4">
+                <FeeModelEditor model={config.feeModel} flatPercent={config.mgmtFeePercent} onChange={feeModel => setConfig(prev => ({ ...prev, feeModel }))} />
+              </div>
+            )}
+          </div>
+          <div className="border-t border-slate-100 pt-4">
+            <h3 className="text-sm font-medium text-slate-900 mb-3">Taxes</h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+              <div className="space-y-3">
+                <div>
+                  <label className="block text-xs font-medium text-slate-700 mb-1.5">Marketplace Facilitator Channels</label>
+                  <input
+                    type="text"
+                    className="block w-full rounded-lg border-slate-200 text-sm focus:border-indigo-500 focus:ring-indigo-500 shadow-sm"
+                    defaultValue={config.taxes.marketplaceChannels.join(', ')}
+                    onBlur={e => updateTaxes({ marketplaceChannels: e.target.value.split(',').map(v => v.trim()).filter(Boolean) })}
+                    placeholder="e.g. Airbnb, Vrbo"
+                  />
+                  <p className="text-xs text-slate-400 mt-1">Lodging tax on these channels is remitted by the OTA, unless a Tax Remitted by OTA column is mapped.</p>
+                </div>
+                <label className="flex items-center gap-2 text-xs text-slate-600">
+                  <input type="checkbox" className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500" checked={config.taxes.withholdManagerRemittedTax} onChange={e => updateTaxes({ withholdManagerRemittedTax: e.target.checked })} />
+                  Withhold lodging tax the manager remits from the owner's funds
+                </label>
+              </div>
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-xs font-medium text-slate-700 mb-1.5">Tax Name</label>
+                  <input type="text" className="block w-full rounded-lg border-slate-200 text-sm focus:border-indigo-500 focus:ring-indigo-500 shadow-sm" value={config.taxes.feeTaxLabel} onChange={e => updateTaxes({ feeTaxLabel: e.target.value })} placeholder="VAT" />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-slate-700 mb-1.5">On Mgmt Fee</label>
+                  <div className="relative rounded-md shadow-sm">
+                    <input type="number" min={0} step="0.01" className="block w-full rounded-lg border-slate-200 pr-8 text-sm focus:border-indigo-500 focus:ring-indigo-500" value={config.taxes.feeTaxPercent} onChange={e => updateTaxes({ feeTaxPercent: parseFloat(e.target.value) || 0 })} />
+                    <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center pr-3"><span className="text-slate-400 sm:text-sm">%</span></div>
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-slate-700 mb-1.5">On Reimbursables</label>
+                  <div className="relative rounded-md shadow-sm">
+                    <input type="number" min={0} step="0.01" className="block w-full rounded-lg border-slate-200 pr-8 text-sm focus:border-indigo-500 focus:ring-indigo-500" value={config.taxes.reimbursableTaxPercent} onChange={e => updateTaxes({ reimbursableTaxPercent: parseFloat(e.target.value) || 0 })} />
+                    <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center pr-3"><span className="text-slate-400 sm:text-sm">%</span></div>
+                  </div>
+                </div>
+              </div>
+            </div>
+          </div>
+          <div className="border-t border-slate-100 pt-4">
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-sm font-medium text-slate-900">Currency</h3>
+              <label className="cursor-pointer inline-flex items-center px-3 py-1.5 border border-slate-300 text-xs font-medium rounded-lg text-slate-700 bg-white hover:bg-slate-50 transition-colors">
+                <Upload className="mr-1.5 h-3.5 w-3.5 text-slate-400" />
+                Import Rates
+                <input type="file" onChange={handleRatesImport} className="hidden" accept=".xlsx,.xls,.csv" />
+              </label>
+            </div>
+            {ratesError && (
+              <div className="mb-3 bg-red-50 border border-red-100 text-red-700 px-4 py-3 rounded-lg text-sm flex items-start">
+                <AlertCircle className="h-5 w-5 mr-2 shrink-0" />
+                <span>{ratesError}</span>
+              </div>
+            )}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
+              <div>
+                <label className="block text-xs font-medium text-slate-700 mb-1.5">Statement Currency</label>
+                <input
+                  type="text"
+                  list="statement-currencies"
+                  className="block w-full rounded-lg border-slate-200 text-sm font-mono uppercase focus:border-indigo-500 focus:ring-indigo-500 shadow-sm"
+                  defaultValue={config.currency}
+                  onBlur={e => {
+                    const currency = normalizeCurrency(e.target.value) || config.currency;
+                    e.target.value = currency;
+                    setConfig(prev => ({ ...prev, currency }));
+                  }}
+                  placeholder="USD"
+                />
+                <datalist id="statement-currencies">
+                  {COMMON_CURRENCIES.map(c => <option key={c} value={c} />)}
+                </datalist>
+                <p className="text-xs text-slate-400 mt-1">Rows in other currencies are converted with the rates alongside. Map a Currency column, or amounts like "€120", to mark them.</p>
+              </div>
+              <div className="md:col-span-2 space-y-2">
+                <span className="block text-xs font-medium text-slate-700">Exchange Rates <span className="font-normal text-slate-400">(1 unit = rate × {config.currency}; a dated rate applies from its date)</span></span>
+                {config.exchangeRates.length === 0 && <p className="text-xs text-slate-400">No rates. Every row is taken to be in {config.currency}.</p>}
+                {config.exchangeRates.map((rate, i) => (
+                  <div key={i} className="flex items-center gap-2">
+                    <input type="text" className="block w-24 rounded-lg border-slate-200 text-sm font-mono uppercase focus:border-indigo-500 focus:ring-indigo-500 shadow-sm" value={rate.currency} onChange={e => updateRate(i, { currency: e.target.value.toUpperCase().trim() })} placeholder="EUR" />
+                    <input type="number" min={0} step="0.0001" className="block w-32 rounded-lg border-slate-200 text-sm focus:border-indigo-500 focus:ring-indigo-500 shadow-sm" value={rate.rate} onChange={e => updateRate(i, { rate: parseFloat(e.target.value) || 0 })} />
+                    <input type="date" className="block w-40 rounded-lg border-slate-200 text-sm focus:border-indigo-500 focus:ring-indigo-500 shadow-sm" value={rate.date || ''} onChange={e => updateRate(i, { date: e.target.value || undefined })} />
+                    <button onClick={() => setConfig(prev => ({ ...prev, exchangeRates: prev.exchangeRates.filter((_, j) => j !== i) }))} className="p-1.5 rounded-md text-slate-400 hover:text-red-600 hover:bg-red-50 transition-colors" title="Remove rate">
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                ))}
+                <button onClick={() => setConfig(prev => ({ ...prev, exchangeRates: [...prev.exchangeRates, { currency: '', rate: 1 }] }))} className="inline-flex items-center text-xs font-medium text-indigo-600 hover:text-indigo-800">
+                  <Plus className="mr-1 h-3.5 w-3.5" />
+                  Add rate
+                </button>
+              </div>
             </div>
           </div>
         </div>
       </section>
 
+      <section className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-100 bg-slate-50/50 flex items-center justify-between">
+          <div className="flex items-center gap-2"><Building2 size={18} className="text-indigo-600" /><h2 className="text-sm font-bold uppercase tracking-wide text-slate-700">3. Portfolio</h2></div>
+          <label className="flex items-center gap-2 text-xs font-medium text-slate-600 cursor-pointer">
+            <input type="checkbox" className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500" checked={config.portfolioMode} onChange={e => setConfig({...config, portfolioMode: e.target.checked})} />
+            Multiple properties in these files
+          </label>
+        </div>
+        {config.portfolioMode ? (
+          <div className="p-6 space-y-4">
+            <p className="text-xs text-slate-500">
+              Rows are assigned to a property by the mapped Property / Listing column. A cell matches a property by its name or any of its listing IDs.
+              Owner and fee terms below override the defaults above for that property's statement.
+            </p>
+            {config.properties.length > 0 && (
+              <div className="overflow-x-auto">
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs font-bold text-slate-500 uppercase tracking-wider">
+                      <th className="pb-2 pr-3">Property</th>
+                      <th className="pb-2 pr-3">Listing IDs / Codes</th>
+                      <th className="pb-2 pr-3">Owner</th>
+                      <th className="pb-2 pr-3 w-24">Fee %</th>
+                      <th className="pb-2 pr-3">Fee Base</th>
+                      <th className="pb-2 pr-3">Fee Model</th>
+                      <th className="pb-2"></th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {config.properties.map(p => (
+                      <React.Fragment key={p.id}>
+                      <tr>
+                        <td className="py-2 pr-3">
+                          <input type="text" className="block w-full rounded-lg border-slate-200 text-sm focus:border-indigo-500 focus:ring-indigo-500 shadow-sm" value={p.name} onChange={e => updateProperty(p.id, { name: e.target.value })} placeholder="e.g. Beach House" />
+                        </td>
+                        <td className="py-2 pr-3">
+                          <input
+                            type="text"
+                            className="block w-full rounded-lg border-slate-200 text-sm focus:border-indigo-500 focus:ring-indigo-500 shadow-sm"
+                            defaultValue={p.listingIds.join(', ')}
+                            onBlur={e => updateProperty(p.id, { listingIds: e.target.value.split(',').map(v => v.trim()).filter(Boolean) })}
+                            placeholder="Comma separated"
+                          />
+                        </td>
+                        <td className="py-2 pr-3">
+                          <input type="text" className="block w-full rounded-lg border-slate-200 text-sm focus:border-indigo-500 focus:ring-indigo-500 shadow-sm" value={p.ownerName} onChange={e => updateProperty(p.id, { ownerName: e.target.value })} onBlur={() => pinPropertyOwner(p)} placeholder={config.ownerName || 'Owner name'} />
+                        </td>
+                        <td className="py-2 pr-3">
+                          <input type="number" className="block w-full rounded-lg border-slate-200 text-sm focus:border-indigo-500 focus:ring-indigo-500 shadow-sm" value={p.mgmtFeePercent} onChange={e => updateProperty(p.id, { mgmtFeePercent: parseFloat(e.target.value) })} />
+                        </td>
+                        <td className="py-2 pr-3">
+                          <select className="block w-full rounded-lg border-slate-200 text-sm focus:border-indigo-500 focus:ring-indigo-500 shadow-sm" value={p.feeBaseMode} onChange={e => updateProperty(p.id, { feeBaseMode: e.target.value as any })}>
+                            <option value="gross_revenue">Gross Revenue</option>
+                            <option value="net_payouts">Net Payouts</option>
+                          </select>
+                        </td>
+                        <td className="py-2 pr-3">
+                          <button
+                            onClick={() => setFeeModelPropertyId(feeModelPropertyId === p.id ? null : p.id)}
+                            className={`inline-flex items-center px-2.5 py-1.5 text-xs font-medium rounded-lg transition-colors whitespace-nowrap ${p.feeModel ? 'text-indigo-700 bg-indigo-50 hover:bg-indigo-100' : 'text-slate-500 bg-slate-50 hover:bg-slate-100'}`}
+                          >
+                            {feeModelPropertyId === p.id ? <ChevronUp className="mr-1 h-3.5 w-3.5" /> : <ChevronDown className="mr-1 h-3.5 w-3.5" />}
+                            {p.feeModel ? 'Custom' : 'Default'}
+                          </button>
+                        </td>
+                        <td className="py-2 text-right">
+                          <button onClick={() => removeProperty(p.id)} className="p-1.5 rounded-md text-slate-400 hover:text-red-600 hover:bg-red-50 transition-colors" title="Remove property">
+                            <Trash2 size={16} />
+                          </button>
+                        </td>
+                      </tr>
+                      {feeModelPropertyId === p.id && (
+                        <tr>
+                          <td colSpan={7} className="pb-4 pt-1">
+                            <div className="bg-slate-50 rounded-xl p-4 space-y-4">
+                              <label className="flex items-center gap-2 text-xs font-medium text-slate-600">
+                                <input
+                                  type="checkbox"
+                                  className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                                  checked={!!p.feeModel}
+                                  onChange={e => updateProperty(p.id, { feeModel: e.target.checked ? { ...config.feeModel } : undefined })}
+                                />
+                                Use a custom fee model for this property
+                              </label>
+                              {p.feeModel ? (
+                                <FeeModelEditor model={p.feeModel} flatPercent={p.mgmtFeePercent} onChange={feeModel => updateProperty(p.id, { feeModel })} />
+                              ) : (
+                                <p className="text-xs text-slate-400">Uses the fee model above at this property's rate and fee base.</p>
+                              )}
+                            </div>
+                          </td>
+                        </tr>
+                      )}
+                      </React.Fragment>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+            <button onClick={addProperty} className="inline-flex items-center px-4 py-2 border border-slate-300 shadow-sm text-xs font-medium rounded-lg text-slate-700 bg-white hover:bg-slate-50 transition-colors">
+              <Plus className="mr-1.5 h-4 w-4" />
+              Add Property
+            </button>
+          </div>
+        ) : (
+          <div className="p-6 text-xs text-slate-400">Single-property mode: every booking and GL row belongs to one statement.</div>
+        )}
+      </section>
+
+      <section className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-100 bg-slate-50/50 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <ListChecks size={18} className="text-indigo-600" />
+            <h2 className="text-sm font-bold uppercase tracking-wide text-slate-700">4. Classification Rules</h2>
+            <span className="text-xs font-medium px-2 py-0.5 rounded-full bg-slate-200 text-slate-600">{rules.length}</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <label className="cursor-pointer inline-flex items-center px-3 py-1.5 border border-slate-300 text-xs font-medium rounded-lg text-slate-700 bg-white hover:bg-slate-50 transition-colors">
+              <Upload className="mr-1.5 h-3.5 w-3.5 text-slate-400" />
+              Import
+              <input type="file" onChange={handleRulesImport} className="hidden" accept=".json" />
+            </label>
+            <button onClick={() => exportRulesFile(rules)} disabled={rules.length === 0} className="inline-flex items-center px-3 py-1.5 border border-slate-300 text-xs font-medium rounded-lg text-slate-700 bg-white hover:bg-slate-50 transition-colors disabled:opacity-50">
+              <Download className="mr-1.5 h-3.5 w-3.5 text-slate-400" />
+              Export
+            </button>
+            <button onClick={() => setShowRules(!showRules)} className="inline-flex items-center px-3 py-1.5 text-xs font-medium rounded-lg text-indigo-700 bg-indigo-50 hover:bg-indigo-100 transition-colors">
+              {showRules ? <ChevronUp className="mr-1 h-3.5 w-3.5" /> : <ChevronDown className="mr-1 h-3.5 w-3.5" />}
+              {showRules ? 'Hide' : 'Edit'}
+            </button>
+          </div>
+        </div>
+        {rulesError && (
+          <div className="px-6 pt-4">
+            <div className="bg-red-50 border border-red-100 text-red-700 px-4 py-3 rounded-lg text-sm flex items-start">
+              <AlertCircle className="h-5 w-5 mr-2 shrink-0" />
+              <span>{rulesError}</span>
+            </div>
+          </div>
+        )}
+        {showRules ? (
+          <div className="p-6">
+            <RulesEditor rules={rules} onChange={setRules} />
+          </div>
+        ) : (
+          <div className="p-6 text-xs text-slate-400">
+            Rules match on account, contact, description, amount and source type, and run before the account-name classification map.
+          </div>
+        )}
+      </section>
+
       {error && (
         <div className="rounded-lg bg-red-50 p-4 border border-red-100 flex items-start shadow-sm">
           <AlertCircle className="h-5 w-5 text-red-500 mt-0.5" />
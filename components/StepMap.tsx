@@ -1,77 +1,487 @@
-import React, { useState } from 'react';
-import { FilesState, MappingState } from '../types';
-import { REQUIRED_OTA_FIELDS, REQUIRED_GL_FIELDS, ALL_OTA_FIELDS } from '../constants';
-import { ArrowLeft, ArrowRight, Table, CheckCircle2, AlertTriangle } from 'lucide-react';
+import React, { useMemo, useState } from 'react';
+import { ConfigState, DateOrder, FileLocale, FilesState, MappingProfile, MappingState, SourceFile, SourceKind, SourceMapping } from '../types';
+import { REQUIRED_OTA_FIELDS, REQUIRED_GL_FIELDS, ALL_OTA_FIELDS, ALL_GL_FIELDS, PROPERTY_FIELD, DATE_FIELDS } from '../constants';
+import { checkDateColumn, DATE_ORDER_LABELS, DateColumnCheck, parseAmount, parseDate } from '../services/locale';
+import { detectSourceLocale, initialSourceMapping, presetSourceMapping } from '../services/processor';
+import { findPreset, prepareRows, presetsFor, presetSuppliedFields } from '../services/importPresets';
+import { compileExpression, ExpressionPreview, previewExpression } from '../services/expressions';
+import {
+  applyProfile,
+  createProfile,
+  exportProfilesFile,
+  findProfile,
+  importProfilesFile,
+  mergeProfiles,
+  profileMatches,
+  sourceHeaders,
+  upsertProfile
+} from '../services/mappingProfiles';
+import { loadSavedProfiles, saveProfiles } from '../services/profileStore';
+import { ArrowLeft, ArrowRight, Table, CheckCircle2, AlertTriangle, Globe, RefreshCw, BookmarkCheck, Upload, Download, FileCog } from 'lucide-react';
 
 interface FieldRowProps {
   field: { key: string, label: string };
   value: string;
   options: string[];
+  samples: string[];
+  supplied?: string;  // how the preset fills the field when no column is mapped
+  expression?: string; // set when the field is computed instead of read from one column
+  preview?: ExpressionPreview;
   onChange: (val: string) => void;
+  onExpressionChange: (expression: string | undefined) => void;
 }
 
 const FieldRow: React.FC<FieldRowProps> = ({ 
   field, 
   value, 
   options, 
-  onChange 
+  samples,
+  supplied,
+  expression,
+  preview,
+  onChange,
+  onExpressionChange
 }) => {
-  const isMapped = !!value;
+  const isExpression = expression !== undefined;
+  const isInvalid = isExpression && !!preview?.error;
+  const isMapped = isExpression ? !isInvalid : !!value;
+  const isSupplied = !isMapped && !isExpression && !!supplied;
+  const shown = isExpression ? preview?.samples || [] : samples;
   return (
     <div className="group relative bg-white rounded-lg border border-slate-200 p-3 hover:border-indigo-300 hover:shadow-sm transition-all duration-200">
       <div className="flex items-center justify-between mb-2">
         <label className="text-xs font-semibold text-slate-700 flex items-center gap-1">
           {field.label}
         </label>
-        {isMapped ? (
-          <CheckCircle2 size={14} className="text-green-500" />
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => onExpressionChange(isExpression ? undefined : value ? `[${value}]` : '')}
+            className={`px-1.5 rounded text-[11px] font-mono italic transition-colors ${
+              isExpression ? 'bg-indigo-100 text-indigo-700' : 'text-slate-400 hover:text-indigo-600 hover:bg-indigo-50'
+            }`}
+            title={isExpression ? 'Read from a single column' : 'Compute from an expression over the columns'}
+          >
+            fx
+          </button>
+          {isMapped || isSupplied ? (
+            <CheckCircle2 size={14} className="text-green-500" />
+          ) : (
+            <div className={`h-2 w-2 rounded-full ${isInvalid ? 'bg-red-500' : 'bg-amber-400'}`} />
+          )}
+        </div>
+      </div>
+      {isExpression ? (
+        <input
+          type="text"
+          value={expression}
+          onChange={e => onExpressionChange(e.target.value)}
+          placeholder="[Amount] + [Host Fee]"
+          spellCheck={false}
+          className={`block w-full rounded-md border-0 py-1.5 px-3 text-sm font-mono ring-1 ring-inset focus:ring-2 focus:ring-indigo-600 transition-colors ${
+            isInvalid ? 'text-red-700 ring-red-200 bg-red-50' : 'text-slate-900 ring-slate-300 bg-slate-50'
+          }`}
+        />
+      ) : (
+        <select
+          value={value || ''}
+          onChange={(e) => onChange(e.target.value)}
+          className={`block w-full rounded-md border-0 py-1.5 pl-3 pr-8 text-sm ring-1 ring-inset focus:ring-2 focus:ring-indigo-600 sm:text-sm sm:leading-6 transition-colors ${
+            isMapped ? 'text-slate-900 ring-slate-300 bg-slate-50' : isSupplied ? 'text-slate-500 ring-slate-200 bg-slate-50' : 'text-slate-500 ring-amber-200 bg-amber-50'
+          }`}
+        >
+          <option value="">Select header...</option>
+          {options.map(h => (
+            <option key={h} value={h}>{h}</option>
+          ))}
+        </select>
+      )}
+      {isInvalid && (
+        <p className="mt-1.5 text-[11px] text-red-600">{preview!.error}</p>
+      )}
+      {isMapped && (
+        <p className="mt-1.5 text-[11px] text-slate-400 truncate" title={shown.join('\n')}>
+          {shown.length ? <>e.g. {shown.join(' · ')}</> : 'No values in the first rows'}
+        </p>
+      )}
+      {isMapped && isExpression && !!preview?.failures && (
+        <p className="mt-1 text-[11px] text-amber-600">
+          {preview.failure} in {preview.failures} row{preview.failures === 1 ? '' : 's'}. Check the columns used in arithmetic.
+        </p>
+      )}
+      {isSupplied && (
+        <p className="mt-1.5 text-[11px] text-slate-400">{supplied}</p>
+      )}
+    </div>
+  );
+};
+
+const THOUSANDS_LABELS: [FileLocale['thousandsSeparator'], string][] = [
+  [',', 'Comma (1,234)'],
+  ['.', 'Dot (1.234)'],
+  [' ', 'Space (1 234)'],
+  ["'", "Apostrophe (1'234)"],
+  ['', 'None (1234)']
+];
+
+const selectClass = 'block w-full rounded-md border-0 py-1 pl-2 pr-7 text-xs ring-1 ring-inset ring-slate-300 bg-white focus:ring-2 focus:ring-indigo-600';
+
+interface LocaleRowProps {
+  locale: FileLocale;
+  sampleDate?: any;
+  sampleAmount?: any;
+  onChange: (updates: Partial<FileLocale>) => void;
+}
+
+const LocaleRow: React.FC<LocaleRowProps> = ({ locale, sampleDate, sampleAmount, onChange }) => {
+  const setDecimal = (decimalSeparator: FileLocale['decimalSeparator']) =>
+    onChange({
+      decimalSeparator,
+      // The two separators cannot be the same character
+      ...(locale.thousandsSeparator === decimalSeparator ? { thousandsSeparator: decimalSeparator === ',' ? '.' : ',' } : {})
+    });
+
+  return (
+    <div className="px-6 py-3 border-b border-slate-100 bg-white">
+      <div className="grid grid-cols-3 gap-3">
+        <label className="block">
+          <span className="text-xs font-medium text-slate-600">Dates</span>
+          <select className={selectClass} value={locale.dateOrder} onChange={e => onChange({ dateOrder: e.target.value as DateOrder })}>
+            {(Object.keys(DATE_ORDER_LABELS) as DateOrder[]).map(o => <option key={o} value={o}>{DATE_ORDER_LABELS[o]}</option>)}
+          </select>
+        </label>
+        <label className="block">
+          <span className="text-xs font-medium text-slate-600">Decimal</span>
+          <select className={selectClass} value={locale.decimalSeparator} onChange={e => setDecimal(e.target.value as FileLocale['decimalSeparator'])}>
+            <option value=".">Dot (12.50)</option>
+            <option value=",">Comma (12,50)</option>
+          </select>
+        </label>
+        <label className="block">
+          <span className="text-xs font-medium text-slate-600">Thousands</span>
+          <select className={selectClass} value={locale.thousandsSeparator} onChange={e => onChange({ thousandsSeparator: e.target.value as FileLocale['thousandsSeparator'] })}>
+            {THOUSANDS_LABELS.filter(([sep]) => sep !== locale.decimalSeparator).map(([sep, label]) => <option key={label} value={sep}>{label}</option>)}
+          </select>
+        </label>
+      </div>
+      {(sampleDate !== undefined || sampleAmount !== undefined) && (
+        <p className="mt-2 text-xs text-slate-400">
+          {sampleDate !== undefined && <>"{String(sampleDate)}" reads as {parseDate(sampleDate, locale.dateOrder) || 'not a date'}</>}
+          {sampleDate !== undefined && sampleAmount !== undefined && ' · '}
+          {sampleAmount !== undefined && <>"{String(sampleAmount)}" reads as {parseAmount(sampleAmount, locale)}</>}
+        </p>
+      )}
+    </div>
+  );
+};
+
+const MAX_LISTED_ROWS = 5;
+
+interface DateWarningsProps {
+  checks: { label: string; header: string; check: DateColumnCheck }[];
+  order: DateOrder;
+}
+
+// Dates that would come out differently if the file used the other
+// day/month order
+const DateWarnings: React.FC<DateWarningsProps> = ({ checks, order }) => {
+  const flagged = checks.filter(c => c.check.ambiguous.length || c.check.conflicts.length);
+  if (!flagged.length) return null;
+  return (
+    <div className="px-6 py-3 border-b border-amber-100 bg-amber-50 space-y-3">
+      {flagged.map(({ label, header, check }) => {
+        const rows = [...check.conflicts, ...check.ambiguous].sort((a, b) => a.row - b.row);
+        return (
+          <div key={header} className="flex items-start gap-2 text-xs text-amber-800">
+            <AlertTriangle size={14} className="mt-0.5 shrink-0 text-amber-500" />
+            <div>
+              <p className="font-semibold">
+                {label} ("{header}"):{' '}
+                {check.conflicts.length > 0 && `${check.conflicts.length} date${check.conflicts.length === 1 ? '' : 's'} only valid in the other day/month order`}
+                {check.conflicts.length > 0 && check.ambiguous.length > 0 && ', '}
+                {check.ambiguous.length > 0 && `${check.ambiguous.length} date${check.ambiguous.length === 1 ? '' : 's'} that read differently either way`}
+              </p>
+              <p className="opacity-80">
+                {check.confirmed
+                  ? `Other rows in this column only make sense as ${DATE_ORDER_LABELS[order]}, so that order is likely right.`
+                  : `Nothing in this column confirms ${DATE_ORDER_LABELS[order]}. Check these rows against the source before continuing.`}
+              </p>
+              <ul className="mt-1 space-y-0.5 font-mono">
+                {rows.slice(0, MAX_LISTED_ROWS).map(r => (
+                  <li key={r.row}>Row {r.row}: {r.value} → {r.parsed || 'invalid'} (otherwise {r.alternative})</li>
+                ))}
+              </ul>
+              {rows.length > MAX_LISTED_ROWS && <p className="opacity-80">and {rows.length - MAX_LISTED_ROWS} more</p>}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+interface SourceCardProps {
+  file: SourceFile;
+  mapping: SourceMapping;
+  fields: { key: string, label: string }[];
+  profile?: MappingProfile;
+  onChange: (mapping: SourceMapping) => void;
+  onSaveProfile: (name: string) => void;
+  onForgetProfile: () => void;
+}
+
+const PREVIEW_ROWS = 3;
+
+const SAMPLE_FIELDS: Record<SourceKind, { date: string; amount: string }> = {
+  ota: { date: 'check_in_date', amount: 'net_payout' },
+  gl: { date: 'date', amount: 'debit_amount' }
+};
+
+// Mapping and locale of one uploaded file
+const SourceCard: React.FC<SourceCardProps> = ({ file, mapping, fields, profile, onChange, onSaveProfile, onForgetProfile }) => {
+  const headers = sourceHeaders(file.rows);
+  const isOta = file.kind === 'ota';
+  const preset = findPreset(mapping.preset);
+  const supplied = presetSuppliedFields(mapping);
+  const [profileName, setProfileName] = useState(file.channel || '');
+  const inSync = !!profile && profileMatches(profile, file, mapping);
+
+  // Rows as processing will read them: preset summary and heading lines
+  // left out, carried-down cells filled in
+  const previewRows = useMemo(() => {
+    const prepared = prepareRows(file, mapping);
+    return prepared.rows.filter((_, i) => !prepared.skipped.has(i));
+  }, [file, mapping.preset, mapping.fields]);
+
+  // First few non-blank values of each column, to check a mapping at a glance
+  const samplesOf = (header: string) => previewRows
+    .map(r => r[header])
+    .filter(v => v !== undefined && v !== null && String(v).trim() !== '')
+    .slice(0, PREVIEW_ROWS)
+    .map(v => String(v).trim());
+
+  const previews = useMemo(() => {
+    const out: Record<string, ExpressionPreview> = {};
+    Object.entries<string>(mapping.expressions || {}).forEach(([field, source]) => {
+      out[field] = previewExpression(source, previewRows, mapping.locale, PREVIEW_ROWS);
+    });
+    return out;
+  }, [previewRows, mapping.expressions, mapping.locale]);
+
+  const setExpression = (field: string, expression: string | undefined) => {
+    const expressions = { ...(mapping.expressions || {}) };
+    if (expression === undefined) delete expressions[field];
+    else expressions[field] = expression;
+    onChange({ ...mapping, expressions });
+  };
+
+  const dateChecks = useMemo(() => {
+    const labelOf = (key: string) => fields.find(f => f.key === key)?.label || key;
+    return DATE_FIELDS[file.kind]
+      .filter(key => mapping.fields[key])
+      .map(key => ({
+        label: labelOf(key),
+        header: mapping.fields[key],
+        check: checkDateColumn(file.rows, mapping.fields[key], mapping.locale.dateOrder)
+      }));
+  }, [file, mapping, fields]);
+
+  const firstValue = (header: string | undefined) =>
+    header ? file.rows.map(r => r[header]).find(v => v !== undefined && v !== null && v !== '') : undefined;
+
+  return (
+    <section className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden flex flex-col">
+      <div className="px-6 py-4 border-b border-slate-100 bg-slate-50/50 flex items-center gap-3">
+        <div className={`p-2 rounded-lg ${isOta ? 'bg-indigo-100 text-indigo-600' : 'bg-emerald-100 text-emerald-600'}`}>
+          <Table size={20} />
+        </div>
+        <div className="min-w-0">
+          <h2 className="text-sm font-bold text-slate-900 uppercase tracking-wide">{isOta ? 'OTA File Mapping' : 'GL File Mapping'}</h2>
+          <p className="text-xs text-slate-500 truncate">
+            {file.name || (isOta ? 'Booking / Reservation Export' : 'Accounting / Bank Export')}
+            {isOta && file.channel && <> · <span className="font-medium text-slate-700">{file.channel}</span></>}
+          </p>
+        </div>
+        <div className="ml-auto text-xs font-medium px-2.5 py-0.5 rounded-full bg-slate-200 text-slate-600">
+          {optionsCount(mapping, fields)} / {fields.length}
+        </div>
+      </div>
+      <div className="px-6 py-2 border-b border-slate-100 bg-white flex items-center gap-2 text-xs">
+        <BookmarkCheck size={14} className={profile ? 'text-indigo-500' : 'text-slate-300'} />
+        {profile ? (
+          <>
+            <span className="text-slate-600">Profile <span className="font-semibold text-slate-900">{profile.name}</span>{inSync ? ' applied' : ' (changed)'}</span>
+            {!inSync && (
+              <button onClick={() => onSaveProfile(profile.name)} className="ml-auto font-medium text-indigo-600 hover:text-indigo-800">Update profile</button>
+            )}
+            <button onClick={onForgetProfile} className={`${inSync ? 'ml-auto' : ''} font-medium text-slate-500 hover:text-red-600`}>Forget</button>
+          </>
         ) : (
-          <div className="h-2 w-2 rounded-full bg-amber-400" />
+          <>
+            <input
+              type="text"
+              className="flex-1 min-w-0 rounded-md border-slate-200 text-xs py-1 focus:border-indigo-500 focus:ring-indigo-500"
+              placeholder="Profile name, e.g. Airbnb payouts"
+              value={profileName}
+              onChange={e => setProfileName(e.target.value)}
+            />
+            <button
+              onClick={() => onSaveProfile(profileName)}
+              className="font-medium text-indigo-600 hover:text-indigo-800 whitespace-nowrap"
+              title="Apply this mapping automatically to files with the same columns"
+            >
+              Save as profile
+            </button>
+          </>
         )}
       </div>
-      <select
-        value={value || ''}
-        onChange={(e) => onChange(e.target.value)}
-        className={`block w-full rounded-md border-0 py-1.5 pl-3 pr-8 text-sm ring-1 ring-inset focus:ring-2 focus:ring-indigo-600 sm:text-sm sm:leading-6 transition-colors ${
-          isMapped ? 'text-slate-900 ring-slate-300 bg-slate-50' : 'text-slate-500 ring-amber-200 bg-amber-50'
-        }`}
-      >
-        <option value="">Select header...</option>
-        {options.map(h => (
-          <option key={h} value={h}>{h}</option>
+      <div className="px-6 py-2 border-b border-slate-100 bg-white text-xs">
+        <div className="flex items-center gap-2">
+          <FileCog size={14} className={preset ? 'text-indigo-500' : 'text-slate-300'} />
+          <span className="text-slate-500">Export format</span>
+          <select
+            className="flex-1 min-w-0 rounded-md border-slate-200 text-xs py-1 focus:border-indigo-500 focus:ring-indigo-500"
+            value={mapping.preset || ''}
+            onChange={e => {
+              const next = findPreset(e.target.value);
+              const { preset: _, ...rest } = mapping;
+              onChange(next ? presetSourceMapping(next, file) : rest);
+            }}
+          >
+            <option value="">Other (no preset)</option>
+            {presetsFor(file.kind).map(p => (
+              <option key={p.id} value={p.id}>{p.label}</option>
+            ))}
+          </select>
+        </div>
+        {preset && <p className="mt-1 text-slate-400">{preset.note}</p>}
+      </div>
+      <LocaleRow
+        locale={mapping.locale}
+        sampleDate={firstValue(mapping.fields[SAMPLE_FIELDS[file.kind].date])}
+        sampleAmount={firstValue(mapping.fields[SAMPLE_FIELDS[file.kind].amount])}
+        onChange={updates => onChange({ ...mapping, locale: { ...mapping.locale, ...updates } })}
+      />
+      <DateWarnings checks={dateChecks} order={mapping.locale.dateOrder} />
+      <div className="p-6 grid grid-cols-1 sm:grid-cols-2 gap-4 bg-slate-50/30 flex-1">
+        {fields.map(field => (
+          <FieldRow 
+            key={field.key}
+            field={field}
+            value={mapping.fields[field.key] || ''}
+            options={headers}
+            samples={mapping.fields[field.key] ? samplesOf(mapping.fields[field.key]) : []}
+            supplied={supplied.includes(field.key) ? 'Read from the account heading lines' : undefined}
+            expression={mapping.expressions?.[field.key]}
+            preview={previews[field.key]}
+            onChange={(val) => onChange({ ...mapping, fields: { ...mapping.fields, [field.key]: val } })}
+            onExpressionChange={expression => setExpression(field.key, expression)}
+          />
         ))}
-      </select>
-    </div>
+      </div>
+    </section>
   );
 };
 
 interface Props {
   files: FilesState;
+  config: ConfigState;
   initialMappings: MappingState;
   onBack: () => void;
   onNext: (mappings: MappingState) => void;
 }
 
-export const StepMap: React.FC<Props> = ({ files, initialMappings, onBack, onNext }) => {
-  const [mappings, setMappings] = useState<MappingState>(initialMappings);
+export const StepMap: React.FC<Props> = ({ files, config, initialMappings, onBack, onNext }) => {
+  const sourceFiles = [...files.ota, ...files.gl];
+  const [profiles, setProfiles] = useState<MappingProfile[]>(loadSavedProfiles);
+  const [profileError, setProfileError] = useState<string | null>(null);
+  // Files without a mapping yet start from their profile or a guess
+  const [mappings, setMappings] = useState<MappingState>(() => {
+    const sources = { ...initialMappings.sources };
+    sourceFiles.forEach(file => {
+      if (!sources[file.id]) sources[file.id] = initialSourceMapping(file, profiles);
+    });
+    return { ...initialMappings, sources };
+  });
 
-  const otaHeaders = files.otaRaw.length ? Object.keys(files.otaRaw[0]) : [];
-  const glHeaders = files.glRaw.length ? Object.keys(files.glRaw[0]) : [];
+  const updateProfiles = (next: MappingProfile[]) => {
+    setProfiles(next);
+    saveProfiles(next);
+  };
 
-  const handleOtaChange = (key: string, value: string) => {
-    setMappings(prev => ({ ...prev, ota: { ...prev.ota, [key]: value } }));
+  const saveProfile = (file: SourceFile, name: string) => {
+    const existing = findProfile(profiles, file);
+    const profile = createProfile(name, file, mappings.sources[file.id]);
+    updateProfiles(upsertProfile(profiles, existing ? { ...profile, id: existing.id, name: existing.name } : profile));
   };
 
-  const handleGlChange = (key: string, value: string) => {
-    setMappings(prev => ({ ...prev, gl: { ...prev.gl, [key]: value } }));
+  const forgetProfile = (file: SourceFile) => {
+    const existing = findProfile(profiles, file);
+    if (existing) updateProfiles(profiles.filter(p => p.id !== existing.id));
   };
 
-  const isComplete = () => {
-    const missingOta = REQUIRED_OTA_FIELDS.some(f => !mappings.ota[f.key]);
-    const missingGl = REQUIRED_GL_FIELDS.some(f => !mappings.gl[f.key]);
-    return !missingOta && !missingGl;
+  const handleProfilesImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setProfileError(null);
+    try {
+      updateProfiles(mergeProfiles(profiles, await importProfilesFile(file)));
+    } catch (err) {
+      setProfileError('Could not read profiles. Please choose a mapping profiles .json file exported from STR Invoicer.');
+    }
   };
 
+  // Applies profiles that arrived after the files were mapped (e.g. imported here)
+  const applySavedProfiles = () => {
+    setMappings(prev => {
+      const sources = { ...prev.sources };
+      sourceFiles.forEach(file => {
+        const profile = findProfile(profiles, file);
+        if (profile) sources[file.id] = applyProfile(profile, file);
+      });
+      return { ...prev, sources };
+    });
+  };
+  const unappliedProfiles = sourceFiles.filter(file => {
+    const profile = findProfile(profiles, file);
+    return profile && !profileMatches(profile, file, mappings.sources[file.id]);
+  }).length;
+
+  // The property column is only meaningful when rows are split across units
+  const fieldsFor = (file: SourceFile) => {
+    const all = file.kind === 'ota' ? ALL_OTA_FIELDS : ALL_GL_FIELDS;
+    return config.portfolioMode ? [...all, PROPERTY_FIELD] : all;
+  };
+
+  const updateSource = (id: string, mapping: SourceMapping) => {
+    setMappings(prev => ({ ...prev, sources: { ...prev.sources, [id]: mapping } }));
+  };
+
+  // Re-sample after the date or amount columns have been remapped
+  const redetectLocales = () => {
+    setMappings(prev => {
+      const sources = { ...prev.sources };
+      sourceFiles.forEach(file => {
+        sources[file.id] = { ...sources[file.id], locale: detectSourceLocale(file, sources[file.id].fields) };
+      });
+      return { ...prev, sources };
+    });
+  };
+
+  // An expression that does not compile would be left out of processing
+  const invalidExpressions = sourceFiles.reduce((count, file) => {
+    const headers = sourceHeaders(file.rows);
+    const expressions = Object.values<string>(mappings.sources[file.id].expressions || {});
+    return count + expressions.filter(source => !!compileExpression(source, headers).error).length;
+  }, 0);
+
+  const isComplete = () => !invalidExpressions && sourceFiles.every(file => {
+    const required = file.kind === 'ota' ? REQUIRED_OTA_FIELDS : REQUIRED_GL_FIELDS;
+    const mapping = mappings.sources[file.id];
+    const supplied = presetSuppliedFields(mapping);
+    return required.every(f => mapping.expressions?.[f.key] !== undefined || !!mapping.fields[f.key] || supplied.includes(f.key));
+  });
+
   return (
     <div className="space-y-8 animate-in fade-in slide-in-from-bottom-4 duration-500">
       
@@ -81,64 +491,61 @@ export const StepMap: React.FC<Props> = ({ files, initialMappings, onBack, onNex
         </div>
         <div className="text-sm text-blue-800">
           <p className="font-medium">Map your file columns to our internal fields.</p>
-          <p className="opacity-80 mt-1">We've tried to auto-detect matches. Please verify all fields marked with colored indicators.</p>
+          <p className="opacity-80 mt-1">We've tried to auto-detect matches. Please verify all fields marked with colored indicators. Each file has its own mapping.</p>
+          <p className="opacity-80 mt-1 flex items-center gap-1.5">
+            <Globe size={14} />
+            Date and number formats were detected from each file.
+            <button onClick={redetectLocales} className="inline-flex items-center gap-1 font-medium underline hover:no-underline">
+              <RefreshCw size={12} />
+              Detect again from the mapped columns
+            </button>
+          </p>
         </div>
       </div>
 
-      <div className="grid grid-cols-1 xl:grid-cols-2 gap-8">
-        {/* OTA Mapping */}
-        <section className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden flex flex-col">
-          <div className="px-6 py-4 border-b border-slate-100 bg-slate-50/50 flex items-center gap-3">
-            <div className="p-2 bg-indigo-100 rounded-lg text-indigo-600">
-              <Table size={20} />
-            </div>
-            <div>
-              <h2 className="text-sm font-bold text-slate-900 uppercase tracking-wide">OTA File Mapping</h2>
-              <p className="text-xs text-slate-500">Booking / Reservation Export</p>
-            </div>
-            <div className="ml-auto text-xs font-medium px-2.5 py-0.5 rounded-full bg-slate-200 text-slate-600">
-              {optionsCount(mappings.ota)} / {ALL_OTA_FIELDS.length}
-            </div>
-          </div>
-          <div className="p-6 grid grid-cols-1 sm:grid-cols-2 gap-4 bg-slate-50/30 flex-1">
-            {ALL_OTA_FIELDS.map(field => (
-              <FieldRow 
-                key={field.key}
-                field={field}
-                value={mappings.ota[field.key] || ''}
-                options={otaHeaders}
-                onChange={(val) => handleOtaChange(field.key, val)}
-              />
-            ))}
-          </div>
-        </section>
+      <div className="flex flex-wrap items-center gap-3 text-xs">
+        <span className="flex items-center gap-1.5 text-slate-500">
+          <BookmarkCheck size={14} />
+          {profiles.length} saved mapping profile{profiles.length === 1 ? '' : 's'}
+        </span>
+        {unappliedProfiles > 0 && (
+          <button onClick={applySavedProfiles} className="font-medium text-indigo-600 hover:text-indigo-800">
+            Apply saved profiles to {unappliedProfiles} file{unappliedProfiles === 1 ? '' : 's'}
+          </button>
+        )}
+        <div className="ml-auto flex items-center gap-2">
+          <label className="inline-flex items-center px-3 py-1.5 border border-slate-300 font-medium rounded-lg text-slate-700 bg-white hover:bg-slate-50 transition-colors cursor-pointer">
+            <Upload className="mr-1.5 h-3.5 w-3.5 text-slate-400" />
+            Import Profiles
+            <input type="file" accept=".json,application/json" className="hidden" onChange={handleProfilesImport} />
+          </label>
+          <button
+            onClick={() => exportProfilesFile(profiles)}
+            disabled={!profiles.length}
+            className="inline-flex items-center px-3 py-1.5 border border-slate-300 font-medium rounded-lg text-slate-700 bg-white hover:bg-slate-50 disabled:opacity-50 transition-colors"
+          >
+            <Download className="mr-1.5 h-3.5 w-3.5 text-slate-400" />
+            Export Profiles
+          </button>
+        </div>
+      </div>
+      {profileError && (
+        <p className="text-xs text-red-600">{profileError}</p>
+      )}
 
-        {/* GL Mapping */}
-        <section className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden flex flex-col">
-          <div className="px-6 py-4 border-b border-slate-100 bg-slate-50/50 flex items-center gap-3">
-            <div className="p-2 bg-emerald-100 rounded-lg text-emerald-600">
-              <Table size={20} />
-            </div>
-            <div>
-              <h2 className="text-sm font-bold text-slate-900 uppercase tracking-wide">GL File Mapping</h2>
-              <p className="text-xs text-slate-500">Accounting / Bank Export</p>
-            </div>
-            <div className="ml-auto text-xs font-medium px-2.5 py-0.5 rounded-full bg-slate-200 text-slate-600">
-              {optionsCount(mappings.gl)} / {REQUIRED_GL_FIELDS.length}
-            </div>
-          </div>
-          <div className="p-6 grid grid-cols-1 sm:grid-cols-2 gap-4 bg-slate-50/30 flex-1">
-            {REQUIRED_GL_FIELDS.map(field => (
-              <FieldRow 
-                key={field.key}
-                field={field}
-                value={mappings.gl[field.key] || ''}
-                options={glHeaders}
-                onChange={(val) => handleGlChange(field.key, val)}
-              />
-            ))}
-          </div>
-        </section>
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-8">
+        {sourceFiles.map(file => (
+          <SourceCard
+            key={file.id}
+            file={file}
+            mapping={mappings.sources[file.id]}
+            fields={fieldsFor(file)}
+            profile={findProfile(profiles, file)}
+            onChange={mapping => updateSource(file.id, mapping)}
+            onSaveProfile={name => saveProfile(file, name)}
+            onForgetProfile={() => forgetProfile(file)}
+          />
+        ))}
       </div>
 
       <div className="flex justify-between items-center pt-4 border-t border-slate-200">
@@ -152,7 +559,9 @@ export const StepMap: React.FC<Props> = ({ files, initialMappings, onBack, onNex
         
         <div className="flex items-center gap-4">
            {!isComplete() && (
-             <span className="text-sm text-amber-600 font-medium">Please map all fields</span>
+             <span className="text-sm text-amber-600 font-medium">
+               {invalidExpressions ? 'Fix the expressions marked in red' : 'Please map all fields'}
+             </span>
            )}
            <button
             onClick={() => onNext(mappings)}
@@ -168,6 +577,6 @@ export const StepMap: React.FC<Props> = ({ files, initialMappings, onBack, onNex
   );
 };
 
-function optionsCount(obj: Record<string, string>) {
-  return Object.values(obj).filter(Boolean).length;
-}
\ No newline at end of file
+function optionsCount(mapping: SourceMapping, fields: { key: string }[]) {
+  return fields.filter(f => !!mapping.fields[f.key] || !!mapping.expressions?.[f.key]).length;
+}
@@ -0,0 +1,254 @@
+import React, { useMemo, useState } from 'react';
+import { DiagnosticReason, FilesState, MappingState, ProcessedDataState, RowDiagnostic, SourceFile } from '../types';
+import { ALL_GL_FIELDS, ALL_OTA_FIELDS, DIAGNOSTIC_LABELS } from '../constants';
+import { ArrowLeft, ArrowRight, CheckCircle2, ClipboardCheck, RefreshCw } from 'lucide-react';
+
+interface Props {
+  data: ProcessedDataState;
+  files: FilesState;
+  mappings: MappingState;
+  onBack: () => void;
+  onNext: () => void;
+  onReprocess: (files: FilesState) => void;
+}
+
+const REASON_ORDER: DiagnosticReason[] = ['invalid_date', 'out_of_period', 'unparsed_amount', 'zero_amount', 'duplicate_reservation', 'blank_guest', 'component_mismatch'];
+
+// Cells that can be corrected here; the rest are fixed in the source file
+const FIXABLE: DiagnosticReason[] = ['invalid_date', 'unparsed_amount', 'duplicate_reservation', 'blank_guest'];
+
+const MAX_ROWS = 200;
+
+const keyOf = (d: RowDiagnostic) => `${d.file}:${d.row}:${d.field || ''}`;
+
+const fieldLabel = (source: 'ota' | 'gl', field?: string) =>
+  field ? (source === 'ota' ? ALL_OTA_FIELDS : ALL_GL_FIELDS).find(f => f.key === field)?.label || field : '—';
+
+export const StepQuality: React.FC<Props> = ({ data, files, mappings, onBack, onNext, onReprocess }) => {
+  const [edits, setEdits] = useState<Record<string, string>>({});
+  const [forced, setForced] = useState<FilesState['forcedRows']>(files.forcedRows);
+  const [filter, setFilter] = useState<DiagnosticReason | 'ALL'>('ALL');
+
+  const sourceFiles: SourceFile[] = [...files.ota, ...files.gl];
+  const fileById = useMemo(() => new Map(sourceFiles.map(f => [f.id, f])), [files]);
+  const fieldsOf = (fileId: string) => mappings.sources[fileId]?.fields || {};
+  // File name only matters when there is more than one file of a kind
+  const fileLabel = (d: RowDiagnostic) => {
+    const file = fileById.get(d.file);
+    if (!file || files[d.source].length < 2) return '';
+    return file.channel || file.name;
+  };
+
+  const counts = useMemo(() => {
+    const byReason = {} as Record<DiagnosticReason, number>;
+    REASON_ORDER.forEach(r => { byReason[r] = 0; });
+    data.diagnostics.forEach(d => { byReason[d.reason]++; });
+    return byReason;
+  }, [data.diagnostics]);
+
+  const droppedCount = useMemo(
+    () => new Set(data.diagnostics.filter(d => d.dropped).map(d => `${d.file}:${d.row}`)).size,
+    [data.diagnostics]
+  );
+
+  const visible = data.diagnostics
+    .filter(d => filter === 'ALL' || d.reason === filter)
+    .sort((a, b) => REASON_ORDER.indexOf(a.reason) - REASON_ORDER.indexOf(b.reason) || a.source.localeCompare(b.source) || a.file.localeCompare(b.file) || a.row - b.row);
+
+  const forcedChanged = sourceFiles.some(f => (forced[f.id] || []).join() !== (files.forcedRows[f.id] || []).join());
+  const hasPending = Object.keys(edits).length > 0 || forcedChanged;
+
+  const toggleForced = (d: RowDiagnostic) => {
+    setForced(prev => {
+      const rows = prev[d.file] || [];
+      const next = rows.includes(d.row) ? rows.filter(r => r !== d.row) : [...rows, d.row].sort((a, b) => a - b);
+      return { ...prev, [d.file]: next };
+    });
+  };
+
+  // Writes corrected cells back into the source rows and processes again
+  const applyFixes = () => {
+    const patch = (file: SourceFile): SourceFile => {
+      const rows = [...file.rows];
+      Object.entries(edits).forEach(([key, value]) => {
+        const [fileId, row, field] = key.split(':');
+        const header = fieldsOf(file.id)[field];
+        if (fileId !== file.id || !header) return;
+        const index = parseInt(row, 10);
+        rows[index] = { ...rows[index], [header]: value };
+      });
+      return { ...file, rows };
+    };
+    onReprocess({ ...files, ota: files.ota.map(patch), gl: files.gl.map(patch), forcedRows: forced });
+    setEdits({});
+  };
+
+  const otaRowCount = files.ota.reduce((sum, f) => sum + f.rows.length, 0);
+  const glRowCount = files.gl.reduce((sum, f) => sum + f.rows.length, 0);
+
+  const context = (d: RowDiagnostic) => {
+    const raw = fileById.get(d.file)?.rows[d.row] || {};
+    const fields = fieldsOf(d.file);
+    const parts = d.source === 'ota'
+      ? [raw[fields.reservation_id], raw[fields.guest_name]]
+      : [raw[fields.account_name], raw[fields.description]];
+    return parts.filter(p => p !== undefined && p !== null && String(p).trim()).join(' · ');
+  };
+
+  return (
+    <div className="space-y-8 animate-in fade-in slide-in-from-bottom-4 duration-500">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="bg-white p-5 rounded-xl shadow-sm border border-slate-200">
+          <div className="text-xs font-medium uppercase tracking-wider text-slate-500 mb-2">Rows Read</div>
+          <div className="text-2xl font-bold text-slate-900">{otaRowCount + glRowCount}</div>
+          <div className="text-xs text-slate-400 mt-1">{otaRowCount} OTA · {glRowCount} GL</div>
+        </div>
+        <div className="bg-white p-5 rounded-xl shadow-sm border border-slate-200">
+          <div className="text-xs font-medium uppercase tracking-wider text-slate-500 mb-2">Left Out</div>
+          <div className={`text-2xl font-bold ${droppedCount ? 'text-amber-600' : 'text-slate-900'}`}>{droppedCount}</div>
+          <div className="text-xs text-slate-400 mt-1">rows not on the statement</div>
+        </div>
+        <div className="bg-white p-5 rounded-xl shadow-sm border border-slate-200">
+          <div className="text-xs font-medium uppercase tracking-wider text-slate-500 mb-2">Bookings</div>
+          <div className="text-2xl font-bold text-slate-900">{data.otaBookings.length}</div>
+          <div className="text-xs text-slate-400 mt-1">in the period</div>
+        </div>
+        <div className="bg-white p-5 rounded-xl shadow-sm border border-slate-200">
+          <div className="text-xs font-medium uppercase tracking-wider text-slate-500 mb-2">GL Rows</div>
+          <div className="text-2xl font-bold text-slate-900">{data.glIncome.length + data.glExpenses.length}</div>
+          <div className="text-xs text-slate-400 mt-1">{data.glIncome.length} income · {data.glExpenses.length} expense</div>
+        </div>
+      </div>
+
+      <section className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="p-4 border-b border-slate-200 bg-slate-50/50 flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+          <div>
+            <h2 className="text-base font-bold text-slate-900 flex items-center gap-2"><ClipboardCheck size={18} className="text-indigo-600" />Data Quality</h2>
+            <p className="text-xs text-slate-500">Rows that were left out or read in a way that may be wrong. Correct a value, or keep an out-of-period row, then re-check.</p>
+          </div>
+          <button
+            onClick={applyFixes}
+            disabled={!hasPending}
+            className="inline-flex items-center px-3 py-1.5 text-xs font-medium rounded-lg text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 transition-colors"
+          >
+            <RefreshCw className="mr-1.5 h-3.5 w-3.5" />
+            Apply &amp; Re-check
+          </button>
+        </div>
+
+        {data.diagnostics.length === 0 ? (
+          <div className="px-6 py-12 text-center">
+            <CheckCircle2 className="mx-auto h-8 w-8 text-green-500" />
+            <p className="mt-2 text-sm font-medium text-slate-900">No problems found</p>
+            <p className="text-xs text-slate-500">Every row parsed and falls inside the period.</p>
+          </div>
+        ) : (
+          <>
+            <div className="px-4 py-3 border-b border-slate-100 flex flex-wrap gap-2">
+              <button
+                onClick={() => setFilter('ALL')}
+                className={`px-3 py-1 text-xs font-medium rounded-full transition-colors ${filter === 'ALL' ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+              >
+                All ({data.diagnostics.length})
+              </button>
+              {REASON_ORDER.filter(r => counts[r] > 0).map(r => (
+                <button
+                  key={r}
+                  onClick={() => setFilter(r)}
+                  className={`px-3 py-1 text-xs font-medium rounded-full transition-colors ${filter === r ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+                >
+                  {DIAGNOSTIC_LABELS[r]} ({counts[r]})
+                </button>
+              ))}
+            </div>
+            <div className="max-h-[520px] overflow-auto custom-scrollbar">
+              <table className="min-w-full divide-y divide-slate-100 text-sm">
+                <thead className="bg-slate-50 sticky top-0">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-semibold text-slate-500 uppercase tracking-wide">Row</th>
+                    <th className="px-4 py-2 text-left text-xs font-semibold text-slate-500 uppercase tracking-wide">Issue</th>
+                    <th className="px-4 py-2 text-left text-xs font-semibold text-slate-500 uppercase tracking-wide">Field</th>
+                    <th className="px-4 py-2 text-left text-xs font-semibold text-slate-500 uppercase tracking-wide">Value</th>
+                    <th className="px-4 py-2 text-right text-xs font-semibold text-slate-500 uppercase tracking-wide">Include</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {visible.slice(0, MAX_ROWS).map((d, i) => {
+                    const key = keyOf(d);
+                    const canFix = FIXABLE.includes(d.reason) && !!d.field && !!fieldsOf(d.file)[d.field];
+                    return (
+                      <tr key={`${key}:${d.reason}:${i}`} className="hover:bg-slate-50">
+                        <td className="px-4 py-2 whitespace-nowrap">
+                          <span className={`text-[10px] font-semibold uppercase px-1.5 py-0.5 rounded ${d.source === 'ota' ? 'bg-indigo-50 text-indigo-700' : 'bg-emerald-50 text-emerald-700'}`}>{d.source}</span>
+                          {fileLabel(d) && <span className="ml-2 text-xs text-slate-500">{fileLabel(d)}</span>}
+                          <span className="ml-2 text-xs font-mono text-slate-700">{d.row + 1}</span>
+                          <div className="text-xs text-slate-400 truncate max-w-[220px]">{context(d)}</div>
+                        </td>
+                        <td className="px-4 py-2 whitespace-nowrap text-xs">
+                          <span className="text-slate-900">{DIAGNOSTIC_LABELS[d.reason]}</span>
+                          {d.dropped && <span className="ml-1.5 text-[10px] font-semibold uppercase text-amber-600">Left out</span>}
+                        </td>
+                        <td className="px-4 py-2 whitespace-nowrap text-xs text-slate-600">{fieldLabel(d.source, d.field)}</td>
+                        <td className="px-4 py-2 text-xs">
+                          {canFix ? (
+                            <input
+                              type="text"
+                              className={`block w-48 rounded-md border-slate-200 text-xs py-1 focus:border-indigo-500 focus:ring-indigo-500 ${key in edits ? 'bg-amber-50' : ''}`}
+                              value={edits[key] ?? d.value ?? ''}
+                              placeholder="(blank)"
+                              onChange={e => setEdits(prev => ({ ...prev, [key]: e.target.value }))}
+                            />
+                          ) : (
+                            <span className="font-mono text-slate-600">{d.value || '—'}</span>
+                          )}
+                        </td>
+                        <td className="px-4 py-2 text-right">
+                          {d.reason === 'out_of_period' && (
+                            <input
+                              type="checkbox"
+                              className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                              checked={(forced[d.file] || []).includes(d.row)}
+                              onChange={() => toggleForced(d)}
+                              title="Keep this row on the statement"
+                            />
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+              {visible.length > MAX_ROWS && (
+                <p className="px-4 py-3 text-xs text-slate-400 text-center">Showing the first {MAX_ROWS} of {visible.length}. Filter by issue to see the rest.</p>
+              )}
+            </div>
+          </>
+        )}
+      </section>
+
+      <div className="flex justify-between items-center pt-4 border-t border-slate-200">
+        <button
+          onClick={onBack}
+          className="inline-flex items-center px-5 py-2.5 border border-slate-300 shadow-sm text-sm font-medium rounded-xl text-slate-700 bg-white hover:bg-slate-50 transition-colors"
+        >
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back
+        </button>
+
+        <div className="flex items-center gap-4">
+          {hasPending && (
+            <span className="text-sm text-amber-600 font-medium">Apply your changes first</span>
+          )}
+          <button
+            onClick={onNext}
+            disabled={hasPending}
+            className="group inline-flex items-center px-8 py-3 border border-transparent text-base font-medium rounded-xl shadow-md text-white bg-indigo-600 hover:bg-indigo-700 hover:shadow-lg focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:shadow-none disabled:cursor-not-allowed transition-all"
+          >
+            Continue to Review
+            <ArrowRight className="ml-2 -mr-1 h-5 w-5 group-hover:translate-x-1 transition-transform" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
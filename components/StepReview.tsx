@@ -1,20 +1,35 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { 
   CanonicalGlRow, 
+  CanonicalOtaRow,
+  ClassificationRule,
   ConfigState, 
   ExpenseCategory, 
   ProcessedDataState 
 } from '../types';
 import { CATEGORY_LABELS } from '../constants';
+import { ReconciliationRows, removeRows, summarizeReconciliation } from '../services/reconciliation';
+import { DuplicateGroup, findDuplicates, unresolvedExactDuplicates } from '../services/duplicates';
+import { ReconciliationPanel } from './ReconciliationPanel';
+import { DuplicatePanel } from './DuplicatePanel';
+import { RuleSuggestions } from './RuleSuggestions';
+import { KpiDashboard } from './KpiDashboard';
+import { formatMoney } from '../services/money';
+import { missingRateCurrencies } from '../services/exchangeRates';
+import { recognizedBooking } from '../services/recognition';
+import { calculateKpis } from '../services/kpis';
 import { ArrowLeft, ArrowRight, CheckCircle2, TrendingUp, DollarSign, AlertCircle, Save } from 'lucide-react';
 import { PieChart, Pie, Cell, Tooltip, ResponsiveContainer, Legend } from 'recharts';
 
 interface Props {
   data: ProcessedDataState;
   config: ConfigState;
+  rules: ClassificationRule[];
   onBack: () => void;
   onNext: (data: ProcessedDataState) => void;
   onSaveDraft: () => void;
+  onRulesAccepted: (rules: ClassificationRule[]) => void;
+  onDraftChange?: (data: ProcessedDataState) => void;
 }
 
 // Colors for badges and charts
@@ -27,9 +42,16 @@ const CAT_CONFIG: Record<ExpenseCategory, { bg: string, text: string, border: st
   [ExpenseCategory.REVIEW_ALWAYS]: { bg: 'bg-amber-50', text: 'text-amber-700', border: 'border-amber-200', color: '#F59E0B' }
 };
 
-export const StepReview: React.FC<Props> = ({ data, config, onBack, onNext, onSaveDraft }) => {
+export const StepReview: React.FC<Props> = ({ data, config, rules, onBack, onNext, onSaveDraft, onRulesAccepted, onDraftChange }) => {
   const [reviewRows, setReviewRows] = useState<CanonicalGlRow[]>(data.reviewRows);
+  const [reconciliation, setReconciliation] = useState<ReconciliationRows>({
+    otaBookings: data.otaBookings,
+    glIncome: data.glIncome
+  });
   const [filter, setFilter] = useState<'ALL' | 'UNASSIGNED'>('ALL');
+  // Rows merged away as duplicates, and groups confirmed as separate
+  const [mergedIds, setMergedIds] = useState<string[]>([]);
+  const [dismissedDuplicates, setDismissedDuplicates] = useState<string[]>(data.dismissedDuplicates);
 
   const handleRowChange = (id: string, updates: Partial<CanonicalGlRow>) => {
     setReviewRows(prev => prev.map(row => {
@@ -57,12 +79,66 @@ export const StepReview: React.FC<Props> = ({ data, config, onBack, onNext, onSa
     }));
   };
 
+  const autoReimbursables = useMemo(
+    () => data.autoReimbursables.filter(r => !mergedIds.includes(r.id)),
+    [data.autoReimbursables, mergedIds]
+  );
+
+  // Counts follow the workbench edits rather than the original auto-match
+  const stats = useMemo(() => ({
+    ...data.stats,
+    totalOtaRevenue: reconciliation.otaBookings.reduce((sum, r) => sum + recognizedBooking(r).gross_amount, 0),
+    totalOtaNet: reconciliation.otaBookings.reduce((sum, r) => sum + recognizedBooking(r).net_payout, 0),
+    ...summarizeReconciliation(reconciliation.otaBookings)
+  }), [data.stats, reconciliation.otaBookings]);
+
+  // Portfolio figures are over every unit's available nights
+  const kpis = useMemo(
+    () => calculateKpis(reconciliation.otaBookings, config, config.portfolioMode ? Math.max(1, config.properties.length) : 1),
+    [reconciliation.otaBookings, config]
+  );
+
+  const currentData = (): ProcessedDataState => ({
+    ...data,
+    ...reconciliation,
+    glExpenses: data.glExpenses.filter(r => !mergedIds.includes(r.id)),
+    reviewRows,
+    autoReimbursables,
+    dismissedDuplicates,
+    stats
+  });
+
+  // Lets the parent autosave work in progress before the step is finalized
+  useEffect(() => {
+    onDraftChange?.(currentData());
+  }, [reviewRows, reconciliation, mergedIds, dismissedDuplicates]);
+
+  const duplicateGroups = useMemo(
+    () => findDuplicates({ ...reconciliation, autoReimbursables, reviewRows }),
+    [reconciliation, autoReimbursables, reviewRows]
+  );
+
+  const rowsById = useMemo(
+    () => new Map<string, CanonicalOtaRow | CanonicalGlRow>([...reconciliation.otaBookings, ...reconciliation.glIncome, ...autoReimbursables, ...reviewRows].map(r => [r.id, r])),
+    [reconciliation, autoReimbursables, reviewRows]
+  );
+
+  const blockingDuplicates = unresolvedExactDuplicates(duplicateGroups, dismissedDuplicates);
+
+  const handleMerge = (group: DuplicateGroup, keepId: string) => {
+    const removed = group.ids.filter(id => id !== keepId);
+    setReconciliation(prev => removeRows(prev, removed));
+    setReviewRows(prev => prev.filter(r => !removed.includes(r.id)));
+    setMergedIds(prev => [...prev, ...removed]);
+  };
+
   const handleNext = () => {
-    onNext({ ...data, reviewRows });
+    if (blockingDuplicates.length) return;
+    onNext(currentData());
   };
 
   const expenseStats = useMemo(() => {
-    const allExpenses = [...data.autoReimbursables, ...reviewRows];
+    const allExpenses = [...autoReimbursables, ...reviewRows];
     const buckets: Record<string, number> = {
       [ExpenseCategory.REIMBURSABLE]: 0,
       [ExpenseCategory.SHARED]: 0,
@@ -90,12 +166,18 @@ export const StepReview: React.FC<Props> = ({ data, config, onBack, onNext, onSa
         value,
         color: CAT_CONFIG[name as ExpenseCategory]?.color || '#F59E0B'
       }));
-  }, [data.autoReimbursables, reviewRows]);
+  }, [autoReimbursables, reviewRows]);
 
   const filteredRows = filter === 'ALL' 
     ? reviewRows 
     : reviewRows.filter(r => !r.assigned_category || r.assigned_category === ExpenseCategory.REVIEW_ALWAYS);
 
+  // Rows in a currency with no rate were left unconverted
+  const missingRates = useMemo(
+    () => missingRateCurrencies([...data.otaBookings, ...data.glIncome, ...data.glExpenses], config.currency),
+    [data, config.currency]
+  );
+
   const unassignedCount = reviewRows.filter(r => !r.assigned_category || r.assigned_category === ExpenseCategory.REVIEW_ALWAYS).length;
 
   return (
@@ -118,7 +200,7 @@ export const StepReview: React.FC<Props> = ({ data, config, onBack, onNext, onSa
              Net Payout
           </div>
           <div className="text-2xl font-bold text-slate-900 mt-auto">
-            ${data.stats.totalOtaNet.toLocaleString(undefined, {minimumFractionDigits: 0, maximumFractionDigits: 0})}
+            {formatMoney(stats.totalOtaNet, config.currency, { whole: true })}
           </div>
           <div className="text-xs text-slate-400 mt-1">Revenue from OTA</div>
         </div>
@@ -128,8 +210,10 @@ export const StepReview: React.FC<Props> = ({ data, config, onBack, onNext, onSa
              <div className="p-1.5 bg-blue-50 rounded-md text-blue-600"><CheckCircle2 size={16}/></div>
              Reconciled
           </div>
-          <div className="text-2xl font-bold text-slate-900 mt-auto">{data.stats.reconciledCount}</div>
-          <div className="text-xs text-slate-400 mt-1">GL credits matched</div>
+          <div className="text-2xl font-bold text-slate-900 mt-auto">{stats.reconciledCount}</div>
+          <div className="text-xs text-slate-400 mt-1">
+            Bookings matched to GL{stats.timingDifferenceCount > 0 && ` · ${stats.timingDifferenceCount} timing`}
+          </div>
         </div>
 
         <div className="bg-white p-5 rounded-xl shadow-sm border border-slate-200 flex flex-col">
@@ -142,6 +226,26 @@ export const StepReview: React.FC<Props> = ({ data, config, onBack, onNext, onSa
         </div>
       </div>
 
+      {config.portfolioMode && data.stats.untaggedCount > 0 && (
+        <div className="rounded-lg bg-amber-50 p-4 border border-amber-100 flex items-start shadow-sm">
+          <AlertCircle className="h-5 w-5 text-amber-500 mt-0.5 shrink-0" />
+          <div className="ml-3 text-sm text-amber-800">
+            <span className="font-semibold">{data.stats.untaggedCount} rows did not match any property.</span>{' '}
+            They are left off every property statement. Assign expenses below, or add the missing listing IDs on the Load step and re-run.
+          </div>
+        </div>
+      )}
+
+      {missingRates.length > 0 && (
+        <div className="rounded-lg bg-amber-50 p-4 border border-amber-100 flex items-start shadow-sm">
+          <AlertCircle className="h-5 w-5 text-amber-500 mt-0.5 shrink-0" />
+          <div className="ml-3 text-sm text-amber-800">
+            <span className="font-semibold">No exchange rate to {config.currency} for {missingRates.join(', ')}.</span>{' '}
+            Those rows are still in their own currency and would be added to the statement as if they were {config.currency}. Add the rates on the Load step and re-run.
+          </div>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
         {/* Main Review Table */}
         <div className="lg:col-span-2 bg-white rounded-2xl shadow-sm border border-slate-200 flex flex-col overflow-hidden h-[600px]">
@@ -195,11 +299,33 @@ export const StepReview: React.FC<Props> = ({ data, config, onBack, onNext, onSa
                           <td className="px-6 py-4">
                             <div className="text-xs font-medium text-slate-900">{row.date}</div>
                             <div className="text-sm font-medium text-slate-800 mt-0.5">{row.account_name}</div>
+                            {row.rule_name && (
+                              <div className="inline-block mt-0.5 text-[10px] font-semibold text-indigo-600 bg-indigo-50 px-1.5 py-0.5 rounded" title="Rule that set the default category">
+                                Rule: {row.rule_name}
+                              </div>
+                            )}
                             <div className="text-xs text-slate-500 truncate max-w-[200px]" title={row.description}>{row.description}</div>
                             <div className="text-xs text-slate-400 mt-0.5">{row.contact}</div>
+                            {config.portfolioMode && (
+                              <select
+                                className={`mt-1.5 block w-full max-w-[200px] rounded border-0 py-0.5 pl-2 pr-7 text-[11px] ring-1 ring-inset focus:ring-2 focus:ring-indigo-600 ${
+                                  row.property_id ? 'text-slate-700 ring-slate-200 bg-white' : 'text-amber-700 ring-amber-200 bg-amber-50'
+                                }`}
+                                value={row.property_id || ''}
+                                onChange={(e) => handleRowChange(row.id, { property_id: e.target.value || undefined })}
+                              >
+                                <option value="">No property...</option>
+                                {config.properties.map(p => (
+                                  <option key={p.id} value={p.id}>{p.name}</option>
+                                ))}
+                              </select>
+                            )}
                           </td>
                           <td className="px-6 py-4 text-right whitespace-nowrap">
-                            <div className="text-sm font-bold text-slate-900">${row.debit_amount.toFixed(2)}</div>
+                            <div className="text-sm font-bold text-slate-900">{formatMoney(row.debit_amount, config.currency)}</div>
+                            {row.fx_rate !== undefined && row.currency !== config.currency && (
+                              <div className="text-xs text-slate-400">from {row.currency} @ {row.fx_rate}</div>
+                            )}
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap">
                              <select
@@ -267,7 +393,7 @@ export const StepReview: React.FC<Props> = ({ data, config, onBack, onNext, onSa
                      ))}
                    </Pie>
                    <Tooltip 
-                    formatter={(val: number) => `$${val.toFixed(2)}`} 
+                    formatter={(val: number) => formatMoney(val, config.currency)} 
                     contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
                    />
                    <Legend verticalAlign="bottom" height={36} iconType="circle" wrapperStyle={{ fontSize: '11px' }} />
@@ -278,20 +404,40 @@ export const StepReview: React.FC<Props> = ({ data, config, onBack, onNext, onSa
                <div className="flex justify-between text-sm border-b border-slate-100 pb-2">
                  <span className="text-slate-500">Reimbursable Total</span>
                  <span className="font-semibold text-emerald-600">
-                   ${expenseStats.find(s => s.name === CATEGORY_LABELS[ExpenseCategory.REIMBURSABLE])?.value.toFixed(2) || '0.00'}
+                   {formatMoney(expenseStats.find(s => s.name === CATEGORY_LABELS[ExpenseCategory.REIMBURSABLE])?.value || 0, config.currency)}
                  </span>
                </div>
                <div className="flex justify-between text-sm">
                  <span className="text-slate-500">Total Expenses</span>
                  <span className="font-semibold text-slate-900">
-                   ${expenseStats.reduce((acc, cur) => acc + cur.value, 0).toFixed(2)}
+                   {formatMoney(expenseStats.reduce((acc, cur) => acc + cur.value, 0), config.currency)}
                  </span>
                </div>
             </div>
           </div>
+          <KpiDashboard kpis={kpis} currency={config.currency} />
         </div>
       </div>
 
+      <RuleSuggestions rows={reviewRows} rules={rules} onAccept={onRulesAccepted} />
+
+      <DuplicatePanel
+        groups={duplicateGroups}
+        rowsById={rowsById}
+        dismissed={dismissedDuplicates}
+        currency={config.currency}
+        onMerge={handleMerge}
+        onDismiss={key => setDismissedDuplicates(prev => [...prev, key])}
+        onRestoreDismissed={() => setDismissedDuplicates([])}
+      />
+
+      <ReconciliationPanel
+        otaBookings={reconciliation.otaBookings}
+        glIncome={reconciliation.glIncome}
+        currency={config.currency}
+        onChange={setReconciliation}
+      />
+
       <div className="flex justify-between items-center pt-6 border-t border-slate-200">
         <button
           onClick={onBack}
@@ -301,7 +447,12 @@ export const StepReview: React.FC<Props> = ({ data, config, onBack, onNext, onSa
           Back
         </button>
         
-        <div className="flex space-x-3">
+        <div className="flex items-center space-x-3">
+          {blockingDuplicates.length > 0 && (
+            <span className="text-sm text-red-600 font-medium">
+              Resolve {blockingDuplicates.length} exact duplicate{blockingDuplicates.length === 1 ? '' : 's'} first
+            </span>
+          )}
           <button
             onClick={onSaveDraft}
             className="inline-flex items-center px-5 py-2.5 border border-slate-300 shadow-sm text-sm font-medium rounded-xl text-slate-700 bg-white hover:bg-slate-50 transition-colors"
@@ -311,7 +462,8 @@ export const StepReview: React.FC<Props> = ({ data, config, onBack, onNext, onSa
           </button>
           <button
             onClick={handleNext}
-            className="group inline-flex items-center px-8 py-3 border border-transparent text-base font-medium rounded-xl shadow-md text-white bg-indigo-600 hover:bg-indigo-700 hover:shadow-lg focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-all"
+            disabled={blockingDuplicates.length > 0}
+            className="group inline-flex items-center px-8 py-3 border border-transparent text-base font-medium rounded-xl shadow-md text-white bg-indigo-600 hover:bg-indigo-700 hover:shadow-lg focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:shadow-none disabled:cursor-not-allowed transition-all"
           >
             Finalize Invoice
             <ArrowRight className="ml-2 -mr-1 h-5 w-5 group-hover:translate-x-1 transition-transform" />
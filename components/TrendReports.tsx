@@ -0,0 +1,225 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { IssuedStatement } from '../types';
+import { BarChart3, Download } from 'lucide-react';
+import { BarChart, Bar, LineChart, Line, XAxis, YAxis, Tooltip, Legend, ResponsiveContainer, CartesianGrid } from 'recharts';
+import {
+  annualSummary,
+  ledgerSubjects,
+  monthlyTrend,
+  statementsInForce,
+  TREND_METRICS,
+  TrendMetric,
+  TrendStatement,
+  trendStatement,
+  yearOverYear
+} from '../services/trends';
+import { formatMoney } from '../services/money';
+import { safeFilePart } from '../services/download';
+import * as XLSX from 'xlsx';
+
+interface Props {
+  ledger: IssuedStatement[];
+  subject: string;        // the statement on screen
+  subjectLabel: string;
+  currency: string;
+  draft?: TrendStatement; // the statement on screen, when not finalized yet
+}
+
+const TREND_MONTHS = 13;
+
+const selectClass = 'rounded-lg border-slate-200 text-xs py-1 focus:border-indigo-500 focus:ring-indigo-500';
+
+const tooltipStyle = { borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' };
+
+// Month-over-month and year-over-year movement across finalized statements,
+// and the year's summary for the owner's tax preparer
+export const TrendReports: React.FC<Props> = ({ ledger, subject, subjectLabel, currency, draft }) => {
+  const subjects = useMemo(() => {
+    const known = ledgerSubjects(ledger);
+    return known.some(s => s.subject === subject) ? known : [{ subject, label: subjectLabel }, ...known];
+  }, [ledger, subject, subjectLabel]);
+  const [selected, setSelected] = useState(subject);
+  useEffect(() => setSelected(subject), [subject]);
+  const [metric, setMetric] = useState<TrendMetric>('netToOwner');
+  const activeSubject = subjects.some(s => s.subject === selected) ? selected : subject;
+
+  const months = useMemo(() => {
+    const issued = statementsInForce(ledger, activeSubject, currency).map(trendStatement);
+    const pending = draft && activeSubject === subject && !issued.some(s => s.periodEnd === draft.periodEnd) ? [draft] : [];
+    return monthlyTrend([...issued, ...pending]);
+  }, [ledger, activeSubject, currency, draft, subject]);
+
+  const years = useMemo(() => Array.from(new Set<number>(months.map(m => m.year))).sort((a, b) => b - a), [months]);
+  const [year, setYear] = useState<number | null>(null);
+  const activeYear = year !== null && years.includes(year) ? year : years[0] ?? new Date().getFullYear();
+
+  const recent = months.slice(-TREND_MONTHS).map(m => ({ label: m.label, value: m.totals[metric] || 0, draft: m.draft }));
+  const latest = months[months.length - 1];
+  const previous = months[months.length - 2];
+  const change = latest && previous && previous.totals[metric]
+    ? ((latest.totals[metric] || 0) - previous.totals[metric]) / Math.abs(previous.totals[metric])
+    : null;
+  const comparison = yearOverYear(months, activeYear, metric);
+  const summary = useMemo(() => annualSummary(ledger, activeSubject, currency, activeYear), [ledger, activeSubject, currency, activeYear]);
+  const metricLabel = TREND_METRICS.find(m => m.key === metric)!.label;
+  const money = (n: number) => formatMoney(n, currency);
+
+  const summaryLines: [string, number][] = [
+    ['Gross rental income', summary.totals.grossRevenue],
+    ['Channel commission and fees', -summary.otaFees],
+    ['Funds received', summary.totals.netPayouts],
+    ['Management fees', -summary.totals.mgmtFeeAmount],
+    ['Reimbursed expenses', -summary.totals.totalReimbursables],
+    ['Tax deducted', -(summary.totals.totalTax || 0)],
+    ['Net to owner', summary.totals.netToOwner],
+    ['Paid to owner', summary.paidToOwner]
+  ];
+
+  const handleDownload = () => {
+    const label = subjects.find(s => s.subject === activeSubject)?.label || activeSubject;
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([
+      [`Owner summary ${summary.year}`, label],
+      ['Currency', currency],
+      [],
+      ...summaryLines,
+      [],
+      ['Expenses by account'],
+      ...summary.expensesByAccount.map(e => [e.account, e.amount])
+    ]), 'Summary');
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([
+      ['Month', 'Statements', ...TREND_METRICS.map(m => m.label), 'Paid to owner'],
+      ...summary.months.map(m => [m.label, m.numbers.join(', '), ...TREND_METRICS.map(t => m.totals[t.key] || 0), m.paidToOwner])
+    ]), 'By month');
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([
+      ['Number', 'Period start', 'Period end', 'Issued', ...TREND_METRICS.map(m => m.label)],
+      ...summary.statements.map(s => [s.number, s.periodStart, s.periodEnd, s.issuedAt.substring(0, 10), ...TREND_METRICS.map(t => s.totals[t.key] || 0)])
+    ]), 'Statements');
+    XLSX.writeFile(workbook, `owner-summary-${safeFilePart(label, 'owner')}-${summary.year}.xlsx`);
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="p-4 border-b border-slate-200 bg-slate-50/50 flex flex-wrap justify-between items-center gap-3">
+        <div>
+          <h2 className="text-base font-bold text-slate-900 flex items-center gap-2"><BarChart3 size={18} className="text-indigo-600" />Trends</h2>
+          <p className="text-xs text-slate-500">Finalized statements in {currency}, placed in the month their period ends.</p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <select className={selectClass} value={activeSubject} onChange={e => setSelected(e.target.value)}>
+            {subjects.map(s => <option key={s.subject} value={s.subject}>{s.label}</option>)}
+          </select>
+          <select className={selectClass} value={metric} onChange={e => setMetric(e.target.value as TrendMetric)}>
+            {TREND_METRICS.map(m => <option key={m.key} value={m.key}>{m.label}</option>)}
+          </select>
+        </div>
+      </div>
+
+      {months.length === 0 ? (
+        <p className="px-4 py-6 text-xs text-slate-400 text-center">No statements finalized for this owner or property yet.</p>
+      ) : (
+        <div className="p-4 space-y-6">
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div>
+              <div className="flex justify-between items-baseline mb-2">
+                <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wide">Month over month</h3>
+                {change !== null && (
+                  <span className={`text-xs font-medium ${change >= 0 ? 'text-emerald-600' : 'text-red-600'}`}>
+                    {change >= 0 ? '+' : ''}{(change * 100).toFixed(1)}% vs {previous.label}
+                  </span>
+                )}
+              </div>
+              <div className="w-full h-[220px]">
+                <ResponsiveContainer width="100%" height="100%" minHeight={180}>
+                  <LineChart data={recent} margin={{ left: 8, right: 8 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                    <XAxis dataKey="label" tick={{ fontSize: 10 }} />
+                    <YAxis tick={{ fontSize: 10 }} width={60} />
+                    <Tooltip formatter={(val: number) => [money(val), metricLabel]} contentStyle={tooltipStyle} />
+                    <Line type="monotone" dataKey="value" stroke="#6366f1" strokeWidth={2} dot={{ r: 3 }} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+              {latest?.draft && <p className="text-[11px] text-amber-600">{latest.label} includes the statement not yet finalized.</p>}
+            </div>
+            <div>
+              <div className="flex justify-between items-baseline mb-2">
+                <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wide">Year over year</h3>
+                <select className={selectClass} value={activeYear} onChange={e => setYear(parseInt(e.target.value, 10))}>
+                  {years.map(y => <option key={y} value={y}>{y} vs {y - 1}</option>)}
+                </select>
+              </div>
+              <div className="w-full h-[220px]">
+                <ResponsiveContainer width="100%" height="100%" minHeight={180}>
+                  <BarChart data={comparison} margin={{ left: 8, right: 8 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                    <XAxis dataKey="label" tick={{ fontSize: 10 }} />
+                    <YAxis tick={{ fontSize: 10 }} width={60} />
+                    <Tooltip formatter={(val: number) => money(val)} contentStyle={tooltipStyle} />
+                    <Legend iconType="circle" wrapperStyle={{ fontSize: '11px' }} />
+                    <Bar dataKey="previous" name={String(activeYear - 1)} fill="#cbd5e1" radius={[3, 3, 0, 0]} />
+                    <Bar dataKey="current" name={String(activeYear)} fill="#6366f1" radius={[3, 3, 0, 0]} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          </div>
+
+          <div>
+            <div className="flex justify-between items-center mb-2">
+              <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wide">Annual owner summary {activeYear}</h3>
+              <button
+                onClick={handleDownload}
+                disabled={!summary.statements.length}
+                className="inline-flex items-center px-3 py-1.5 border border-slate-300 text-xs font-medium rounded-lg text-slate-700 bg-white hover:bg-slate-50 disabled:opacity-50 transition-colors"
+              >
+                <Download size={14} className="mr-1.5" />
+                Download for tax preparer
+              </button>
+            </div>
+            {summary.statements.length === 0 ? (
+              <p className="text-xs text-slate-400">No statements finalized for {activeYear}.</p>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <table className="w-full text-sm">
+                  <tbody className="divide-y divide-slate-100">
+                    {summaryLines.map(([label, amount]) => (
+                      <tr key={label} className={label === 'Net to owner' ? 'font-semibold text-slate-900' : 'text-slate-600'}>
+                        <td className="py-1.5">{label}</td>
+                        <td className="py-1.5 text-right">{money(amount)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <div>
+                  <table className="w-full text-xs">
+                    <thead>
+                      <tr className="text-slate-400">
+                        <th className="py-1 text-left font-medium">Expenses by account</th>
+                        <th className="py-1 text-right font-medium">Amount</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100">
+                      {summary.expensesByAccount.map(e => (
+                        <tr key={e.account}>
+                          <td className="py-1 text-slate-600">{e.account}</td>
+                          <td className="py-1 text-right text-slate-700">{money(e.amount)}</td>
+                        </tr>
+                      ))}
+                      {summary.expensesByAccount.length === 0 && (
+                        <tr><td colSpan={2} className="py-1 text-slate-400">No reimbursed expenses.</td></tr>
+                      )}
+                    </tbody>
+                  </table>
+                  <p className="mt-2 text-[11px] text-slate-400">
+                    From {summary.statements.length} statement{summary.statements.length === 1 ? '' : 's'}: {summary.statements.map(s => s.number).join(', ')}
+                  </p>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
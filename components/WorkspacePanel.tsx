@@ -0,0 +1,134 @@
+import React, { useEffect, useState } from 'react';
+import { FolderOpen, Copy, Trash2, Pencil, Check, X, HardDrive } from 'lucide-react';
+import {
+  deleteSession,
+  duplicateSession,
+  getSession,
+  listSessions,
+  renameSession,
+  SessionSummary,
+  WorkspaceSession
+} from '../services/workspace';
+
+interface Props {
+  activeSessionId: string;
+  onOpen: (session: WorkspaceSession) => void;
+}
+
+const formatSavedAt = (iso: string) => {
+  const d = new Date(iso);
+  return isNaN(d.getTime()) ? iso : d.toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+};
+
+export const WorkspacePanel: React.FC<Props> = ({ activeSessionId, onOpen }) => {
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+
+  const refresh = async () => {
+    try {
+      setSessions(await listSessions());
+      setError(null);
+    } catch (err) {
+      console.error('Failed to list sessions', err);
+      setError('Local storage is unavailable in this browser. Use the JSON export below instead.');
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const run = (action: () => Promise<unknown>) => async () => {
+    try {
+      await action();
+    } catch (err) {
+      console.error('Workspace action failed', err);
+      setError('That action could not be completed.');
+    }
+    refresh();
+  };
+
+  const handleOpen = (id: string) => run(async () => {
+    const session = await getSession(id);
+    if (session) onOpen(session);
+  })();
+
+  const handleDelete = (s: SessionSummary) => {
+    if (!window.confirm(`Delete "${s.name}"? This cannot be undone.`)) return;
+    run(() => deleteSession(s.id))();
+  };
+
+  const saveRename = (id: string) => {
+    const name = editName.trim();
+    setEditingId(null);
+    if (name) run(() => renameSession(id, name))();
+  };
+
+  const owners = Array.from(new Set(sessions.map(s => s.ownerName)));
+
+  return (
+    <div className="space-y-4">
+      {error && <p className="text-xs text-amber-700 bg-amber-50 px-3 py-2 rounded-lg">{error}</p>}
+      {!error && sessions.length === 0 && (
+        <p className="text-xs text-slate-400 flex items-center gap-2">
+          <HardDrive size={14} />
+          Nothing saved yet. Sessions are saved on this device automatically once files are loaded.
+        </p>
+      )}
+      {owners.map(owner => (
+        <div key={owner || '_'}>
+          <h3 className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-1.5">{owner || 'No owner set'}</h3>
+          <div className="divide-y divide-slate-100 border border-slate-100 rounded-lg">
+            {sessions.filter(s => s.ownerName === owner).map(s => (
+              <div key={s.id} className={`px-3 py-2 flex items-center gap-3 ${s.id === activeSessionId ? 'bg-indigo-50/60' : 'hover:bg-slate-50'}`}>
+                <div className="min-w-0 flex-1">
+                  {editingId === s.id ? (
+                    <div className="flex items-center gap-1">
+                      <input
+                        autoFocus
+                        type="text"
+                        className="block w-full rounded-md border-slate-200 text-sm focus:border-indigo-500 focus:ring-indigo-500"
+                        value={editName}
+                        onChange={e => setEditName(e.target.value)}
+                        onKeyDown={e => {
+                          if (e.key === 'Enter') saveRename(s.id);
+                          if (e.key === 'Escape') setEditingId(null);
+                        }}
+                      />
+                      <button onClick={() => saveRename(s.id)} className="p-1 text-emerald-600 hover:bg-emerald-50 rounded" title="Save name"><Check size={14} /></button>
+                      <button onClick={() => setEditingId(null)} className="p-1 text-slate-400 hover:bg-slate-100 rounded" title="Cancel"><X size={14} /></button>
+                    </div>
+                  ) : (
+                    <div className="text-sm font-medium text-slate-900 truncate">
+                      {s.name}
+                      {s.id === activeSessionId && <span className="ml-2 text-[10px] font-semibold text-indigo-600 uppercase">Current</span>}
+                    </div>
+                  )}
+                  <div className="text-xs text-slate-400">
+                    {s.periodStart || 'No period'}{s.periodEnd && ` to ${s.periodEnd}`} · {s.currentStep} · saved {formatSavedAt(s.savedAt)}
+                  </div>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <button onClick={() => handleOpen(s.id)} className="p-1.5 rounded-md text-slate-500 hover:text-indigo-600 hover:bg-indigo-50 transition-colors" title="Open">
+                    <FolderOpen size={15} />
+                  </button>
+                  <button onClick={() => { setEditingId(s.id); setEditName(s.name); }} className="p-1.5 rounded-md text-slate-400 hover:text-slate-700 hover:bg-slate-100 transition-colors" title="Rename">
+                    <Pencil size={15} />
+                  </button>
+                  <button onClick={run(() => duplicateSession(s.id))} className="p-1.5 rounded-md text-slate-400 hover:text-slate-700 hover:bg-slate-100 transition-colors" title="Duplicate">
+                    <Copy size={15} />
+                  </button>
+                  <button onClick={() => handleDelete(s)} className="p-1.5 rounded-md text-slate-400 hover:text-red-600 hover:bg-red-50 transition-colors" title="Delete">
+                    <Trash2 size={15} />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
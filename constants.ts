@@ -1,4 +1,57 @@
-import { ExpenseCategory } from "./types";
+import { ConfigState, DiagnosticReason, ExpenseCategory, FileLocale, MatchRule } from "./types";
+
+export const DEFAULT_CONFIG: ConfigState = {
+  periodStart: '',
+  periodEnd: '',
+  managerName: '',
+  managerContact: '',
+  managerBank: '',
+  ownerName: '',
+  ownerId: '',
+  mgmtFeePercent: 20,
+  feeBaseMode: 'gross_revenue',
+  feeModel: {
+    tiers: [],
+    tierMode: 'marginal',
+    minimumFee: 0,
+    perBookingFee: 0,
+    excludeCleaningFees: false,
+    excludePetFees: false,
+    excludeExtraGuestFees: false,
+    channelPercents: {}
+  },
+  recognitionMode: 'check_in',
+  kpiSummary: false,
+  adjustmentFeeBase: {
+    adjustment: true,
+    refund: true,
+    resolution: false,
+    cancellation_fee: false
+  },
+  portfolioMode: false,
+  properties: [],
+  numbering: {
+    prefix: 'SW',
+    perOwnerSequence: false,
+    resetYearly: true,
+    padding: 4
+  },
+  balances: {
+    reserveTarget: 0,
+    ownerPaymentsReceived: 0,
+    manualOpeningBalance: false,
+    openingBalance: 0
+  },
+  taxes: {
+    marketplaceChannels: [],
+    withholdManagerRemittedTax: true,
+    feeTaxLabel: 'VAT',
+    feeTaxPercent: 0,
+    reimbursableTaxPercent: 0
+  },
+  currency: 'USD',
+  exchangeRates: []
+};
 
 export const REQUIRED_OTA_FIELDS = [
   { key: 'reservation_id', label: 'Reservation / Booking ID' },
@@ -13,7 +66,19 @@ export const REQUIRED_OTA_FIELDS = [
 // but for v0.3 spec, ota_fees is derived or mapped.
 export const ALL_OTA_FIELDS = [
   ...REQUIRED_OTA_FIELDS,
+  { key: 'check_out_date', label: 'Check-out Date' },
+  { key: 'nights', label: 'Nights (when there is no check-out)' },
   { key: 'ota_fees', label: 'OTA Fees / Commission' },
+  { key: 'accommodation_amount', label: 'Accommodation / Nightly Rate Total' },
+  { key: 'cleaning_fee', label: 'Cleaning Fee' },
+  { key: 'pet_fee', label: 'Pet Fee' },
+  { key: 'extra_guest_fee', label: 'Extra Guest Fee' },
+  { key: 'booking_date', label: 'Booking Date' },
+  { key: 'line_type', label: 'Line / Transaction Type' },
+  { key: 'lodging_tax', label: 'Lodging / Occupancy Tax' },
+  { key: 'ota_remitted_tax', label: 'Tax Remitted by OTA' },
+  { key: 'channel', label: 'Channel / Platform' },
+  { key: 'currency', label: 'Currency' },
 ];
 
 export const REQUIRED_GL_FIELDS = [
@@ -25,6 +90,33 @@ export const REQUIRED_GL_FIELDS = [
   { key: 'credit_amount', label: 'Credit (Income)' },
 ];
 
+export const ALL_GL_FIELDS = [
+  ...REQUIRED_GL_FIELDS,
+  { key: 'currency', label: 'Currency' },
+];
+
+// Only offered in portfolio mode. Holds a listing ID, tracking code or
+// property name that is resolved against ConfigState.properties.
+export const PROPERTY_FIELD = { key: 'property', label: 'Property / Listing' };
+
+// Mapped fields read as dates and as amounts, for locale detection
+export const DATE_FIELDS = {
+  ota: ['check_in_date', 'check_out_date', 'payout_date', 'booking_date'],
+  gl: ['date']
+};
+
+export const AMOUNT_FIELDS = {
+  ota: ['gross_amount', 'ota_fees', 'net_payout', 'accommodation_amount', 'cleaning_fee', 'pet_fee', 'extra_guest_fee', 'lodging_tax', 'ota_remitted_tax'],
+  gl: ['debit_amount', 'credit_amount']
+};
+
+// What parsing assumed before files had a locale
+export const DEFAULT_FILE_LOCALE: FileLocale = {
+  dateOrder: 'MDY',
+  decimalSeparator: '.',
+  thousandsSeparator: ','
+};
+
 export const CATEGORY_LABELS: Record<ExpenseCategory, string> = {
   [ExpenseCategory.OWNER_ONLY]: 'Owner Expense (Not Reimbursed)',
   [ExpenseCategory.MANAGER_ONLY]: 'Manager Expense',
@@ -41,4 +133,21 @@ export const CATEGORY_COLORS: Record<ExpenseCategory, string> = {
   [ExpenseCategory.SHARED]: 'bg-blue-100 text-blue-800',
   [ExpenseCategory.EXCLUDE]: 'bg-red-50 text-red-500',
   [ExpenseCategory.REVIEW_ALWAYS]: 'bg-yellow-100 text-yellow-800'
-};
\ No newline at end of file
+};
+export const MATCH_RULE_LABELS: Record<MatchRule, string> = {
+  reference: 'Reference match',
+  scored: 'Amount / date match',
+  batched_payout: 'Batched payout',
+  split_payout: 'Split payout',
+  manual: 'Manual link'
+};
+
+export const DIAGNOSTIC_LABELS: Record<DiagnosticReason, string> = {
+  invalid_date: 'Unreadable date',
+  out_of_period: 'Outside the period',
+  unparsed_amount: 'Unreadable amount',
+  zero_amount: 'Zero amount',
+  duplicate_reservation: 'Duplicate reservation ID',
+  blank_guest: 'Blank guest name',
+  component_mismatch: 'Components do not add up'
+};
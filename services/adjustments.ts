@@ -0,0 +1,73 @@
+import { BookingAdjustmentType, BookingLineType, CanonicalOtaRow, ConfigState } from '../types';
+
+// OTA exports list more than reservations: adjustments to a reservation's
+// price, resolution-center payouts and damage claims, penalties charged for a
+// host cancellation, and refunds to the guest. Each is kept as its own line,
+// typed and linked to its reservation by reservation ID, so the statement
+// can show it under the booking and the fee base can count it or not.
+
+export const LINE_TYPE_LABELS: Record<BookingLineType, string> = {
+  reservation: 'Reservation',
+  adjustment: 'Adjustment',
+  resolution: 'Resolution payout',
+  cancellation_fee: 'Cancellation fee',
+  refund: 'Refund'
+};
+
+export const ADJUSTMENT_TYPES: BookingAdjustmentType[] = ['adjustment', 'refund', 'resolution', 'cancellation_fee'];
+
+// Strongest first: "Resolution Adjustment" is a resolution, "Cancellation
+// refund" a refund
+const LINE_TYPE_PATTERNS: [BookingAdjustmentType, RegExp][] = [
+  ['resolution', /resolution|damage|claim|security deposit|aircover/i],
+  ['refund', /refund/i],
+  ['cancellation_fee', /cancel|penalt/i],
+  ['adjustment', /adjust|alteration|correction|coupon|credit/i]
+];
+
+// Undefined for a reservation (or any type we do not recognise)
+export const classifyLineType = (text: string): BookingAdjustmentType | undefined =>
+  text.trim() ? LINE_TYPE_PATTERNS.find(([, pattern]) => pattern.test(text))?.[0] : undefined;
+
+export const lineTypeOf = (booking: CanonicalOtaRow): BookingLineType => booking.line_type || 'reservation';
+
+export const isReservation = (booking: CanonicalOtaRow) => !booking.line_type;
+
+// Refunds and cancellation fees always reduce what the owner receives,
+// whichever sign the export writes them with
+export const signAdjustment = <T extends Pick<CanonicalOtaRow, 'line_type' | 'gross_amount' | 'net_payout'>>(row: T): T =>
+  row.line_type === 'refund' || row.line_type === 'cancellation_fee'
+    ? { ...row, gross_amount: -Math.abs(row.gross_amount), net_payout: -Math.abs(row.net_payout) }
+    : row;
+
+// Points each adjustment at the reservation line with its reservation ID
+// (and property, in portfolio mode). Adjustments to reservations on earlier
+// statements stay unlinked.
+export const linkAdjustments = (bookings: CanonicalOtaRow[]): CanonicalOtaRow[] => {
+  const key = (b: CanonicalOtaRow) => `${b.property_id || ''}\u0000${b.reservation_id.trim().toLowerCase()}`;
+  const reservations = new Map<string, string>();
+  bookings.forEach(b => {
+    if (isReservation(b) && b.reservation_id.trim() && !reservations.has(key(b))) reservations.set(key(b), b.id);
+  });
+  return bookings.map(b => {
+    if (isReservation(b)) return b;
+    const parent_id = reservations.get(key(b));
+    return parent_id ? { ...b, parent_id } : b;
+  });
+};
+
+// Statement order: each reservation followed by its adjustments; an
+// adjustment whose reservation is not on the statement stands on its own
+export const groupBookings = (bookings: CanonicalOtaRow[]): { booking: CanonicalOtaRow; adjustments: CanonicalOtaRow[] }[] => {
+  const ids = new Set(bookings.map(b => b.id));
+  const children = new Map<string, CanonicalOtaRow[]>();
+  bookings.forEach(b => {
+    if (b.parent_id && ids.has(b.parent_id)) children.set(b.parent_id, [...(children.get(b.parent_id) || []), b]);
+  });
+  return bookings
+    .filter(b => !b.parent_id || !ids.has(b.parent_id))
+    .map(booking => ({ booking, adjustments: children.get(booking.id) || [] }));
+};
+
+export const countsInFeeBase = (booking: CanonicalOtaRow, config: ConfigState): boolean =>
+  !booking.line_type || !!config.adjustmentFeeBase[booking.line_type];
@@ -0,0 +1,66 @@
+import { CanonicalOtaRow, FeeModel } from '../types';
+
+// The parts a booking's gross is made of: the nightly rate total and the
+// fees the guest paid on top. Exports differ on whether the gross includes
+// lodging tax, so components add up either with or without it.
+
+export type FeeComponent = 'cleaning_fee' | 'pet_fee' | 'extra_guest_fee';
+
+// Guest fees that can be passed through instead of charged a management fee
+export const FEE_COMPONENTS: { key: FeeComponent; label: string; setting: 'excludeCleaningFees' | 'excludePetFees' | 'excludeExtraGuestFees' }[] = [
+  { key: 'cleaning_fee', label: 'Cleaning fees', setting: 'excludeCleaningFees' },
+  { key: 'pet_fee', label: 'Pet fees', setting: 'excludePetFees' },
+  { key: 'extra_guest_fee', label: 'Extra-guest fees', setting: 'excludeExtraGuestFees' }
+];
+
+export const COMPONENT_LABELS: Record<'accommodation_amount' | FeeComponent | 'lodging_tax', string> = {
+  accommodation_amount: 'Accommodation',
+  cleaning_fee: 'Cleaning',
+  pet_fee: 'Pet fee',
+  extra_guest_fee: 'Extra guests',
+  lodging_tax: 'Lodging tax'
+};
+
+const COMPONENT_TOLERANCE = 0.01;
+
+const feesTotal = (b: CanonicalOtaRow) => FEE_COMPONENTS.reduce((sum, c) => sum + (b[c.key] || 0), 0);
+
+// Only checkable once the nightly rate is mapped; without it the rest of
+// the gross is taken to be accommodation
+const componentSum = (b: CanonicalOtaRow): number | null =>
+  b.accommodation_amount === undefined ? null : b.accommodation_amount + feesTotal(b);
+
+// Nightly proration rounds the gross and every component separately, so
+// the allowance is a cent per amount compared rather than a flat cent
+const addsUpTo = (b: CanonicalOtaRow, sum: number, withTax: boolean) => {
+  const amounts = 2 + FEE_COMPONENTS.filter(c => b[c.key] !== undefined).length + (withTax ? 1 : 0);
+  return Math.abs(sum + (withTax ? b.lodging_tax || 0 : 0) - b.gross_amount) < COMPONENT_TOLERANCE * amounts;
+};
+
+// The components' total when it matches the gross neither with nor without
+// the lodging tax; null when they add up or cannot be checked
+export const componentMismatch = (b: CanonicalOtaRow): number | null => {
+  const sum = componentSum(b);
+  if (sum === null) return null;
+  if (addsUpTo(b, sum, false) || addsUpTo(b, sum, true)) return null;
+  return sum;
+};
+
+// The gross includes the lodging tax only when the components say so
+export const taxInGross = (b: CanonicalOtaRow): boolean => {
+  const sum = componentSum(b);
+  return sum !== null && !!b.lodging_tax && !addsUpTo(b, sum, false) && addsUpTo(b, sum, true);
+};
+
+// Guest fees the fee model passes through, plus lodging tax when the gross
+// includes it: never commissionable
+export const nonCommissionable = (b: CanonicalOtaRow, model: FeeModel): number =>
+  FEE_COMPONENTS.reduce((sum, c) => sum + (model[c.setting] ? b[c.key] || 0 : 0), 0) +
+  (taxInGross(b) ? b.lodging_tax || 0 : 0);
+
+// The nightly rate total, mapped or what is left of the gross
+export const accommodationAmount = (b: CanonicalOtaRow): number =>
+  b.accommodation_amount ?? b.gross_amount - feesTotal(b) - (taxInGross(b) ? b.lodging_tax || 0 : 0);
+
+export const hasComponents = (b: CanonicalOtaRow) =>
+  b.accommodation_amount !== undefined || FEE_COMPONENTS.some(c => b[c.key] !== undefined);
@@ -0,0 +1,130 @@
+import { CanonicalGlRow, ClassificationRule, ExpenseCategory } from '../types';
+import { downloadJson, readJsonFile } from './download';
+
+export const CLASSIFICATION_MAP_RULE_ID = 'classification-map';
+
+export const createRule = (overrides: Partial<ClassificationRule> = {}): ClassificationRule => ({
+  id: Math.random().toString(36).substring(2, 9),
+  name: 'New rule',
+  priority: 0,
+  enabled: true,
+  category: ExpenseCategory.REIMBURSABLE,
+  ...overrides
+});
+
+// Returns an error message for an invalid description pattern, or null.
+export const validatePattern = (pattern?: string): string | null => {
+  if (!pattern) return null;
+  try {
+    new RegExp(pattern, 'i');
+    return null;
+  } catch (err: any) {
+    return err?.message || 'Invalid regular expression';
+  }
+};
+
+const eq = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+export const ruleMatches = (rule: ClassificationRule, row: CanonicalGlRow): boolean => {
+  if (!rule.enabled) return false;
+  if (rule.account && !eq(rule.account, row.account_name)) return false;
+  if (rule.contact && !row.contact.toLowerCase().includes(rule.contact.trim().toLowerCase())) return false;
+  if (rule.sourceType && !eq(rule.sourceType, row.source_type)) return false;
+  if (rule.minAmount !== undefined && row.debit_amount < rule.minAmount) return false;
+  if (rule.maxAmount !== undefined && row.debit_amount > rule.maxAmount) return false;
+  if (rule.descriptionPattern) {
+    // An invalid pattern never matches rather than breaking the whole run
+    if (validatePattern(rule.descriptionPattern)) return false;
+    if (!new RegExp(rule.descriptionPattern, 'i').test(row.description)) return false;
+  }
+  return true;
+};
+
+// Highest priority wins; ties go to the rule listed first.
+export const findMatchingRule = (rules: ClassificationRule[], row: CanonicalGlRow): ClassificationRule | undefined => {
+  let best: ClassificationRule | undefined;
+  rules.forEach(rule => {
+    if ((!best || rule.priority > best.priority) && ruleMatches(rule, row)) best = rule;
+  });
+  return best;
+};
+
+/**
+ * Sets default_category (and the rule's split/note defaults) on a GL row.
+ * Rules are tried first; the legacy account-name classification map is the
+ * fallback so existing map files keep working.
+ */
+export const classifyRow = (
+  row: CanonicalGlRow,
+  rules: ClassificationRule[],
+  classificationMap: Record<string, ExpenseCategory>
+): CanonicalGlRow => {
+  const rule = findMatchingRule(rules, row);
+  if (rule) {
+    row.default_category = rule.category;
+    row.rule_id = rule.id;
+    row.rule_name = rule.name;
+    if (rule.splitPercent !== undefined) row.split_percent = rule.splitPercent;
+    if (rule.note) row.note = rule.note;
+    return row;
+  }
+
+  const mapEntry = Object.entries(classificationMap).find(([k]) => eq(k, row.account_name));
+  if (mapEntry) {
+    row.default_category = mapEntry[1] as ExpenseCategory;
+    row.rule_id = CLASSIFICATION_MAP_RULE_ID;
+    row.rule_name = 'Classification map';
+  }
+  return row;
+};
+
+const isCategory = (val: any): val is ExpenseCategory =>
+  Object.values(ExpenseCategory).includes(val);
+
+const optionalNumber = (val: any): number | undefined => {
+  if (val === undefined || val === null || val === '') return undefined;
+  const num = Number(val);
+  return isNaN(num) ? undefined : num;
+};
+
+const optionalString = (val: any): string | undefined => {
+  const str = val === undefined || val === null ? '' : String(val).trim();
+  return str || undefined;
+};
+
+// Accepts either a bare array or { rules: [...] }. Entries without a valid
+// category are skipped; ids are regenerated when missing or duplicated.
+export const normalizeRules = (raw: any): ClassificationRule[] => {
+  const list = Array.isArray(raw) ? raw : Array.isArray(raw?.rules) ? raw.rules : null;
+  if (!list) throw new Error('File does not contain a list of rules.');
+
+  const seen = new Set<string>();
+  return list
+    .filter((r: any) => r && typeof r === 'object' && isCategory(String(r.category || '').toUpperCase()))
+    .map((r: any) => {
+      const rule = createRule({
+        name: optionalString(r.name) || 'Imported rule',
+        priority: optionalNumber(r.priority) ?? 0,
+        enabled: r.enabled !== false,
+        account: optionalString(r.account),
+        contact: optionalString(r.contact),
+        descriptionPattern: optionalString(r.descriptionPattern),
+        minAmount: optionalNumber(r.minAmount),
+        maxAmount: optionalNumber(r.maxAmount),
+        sourceType: optionalString(r.sourceType),
+        category: String(r.category).toUpperCase() as ExpenseCategory,
+        splitPercent: optionalNumber(r.splitPercent),
+        note: optionalString(r.note)
+      });
+      if (r.id && !seen.has(String(r.id))) rule.id = String(r.id);
+      seen.add(rule.id);
+      return rule;
+    });
+};
+
+export const importRulesFile = async (file: File): Promise<ClassificationRule[]> =>
+  normalizeRules(await readJsonFile(file));
+
+export const exportRulesFile = (rules: ClassificationRule[]) => {
+  downloadJson({ version: 1, rules }, `str-classification-rules-${new Date().toISOString().slice(0, 10)}.json`);
+};
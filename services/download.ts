@@ -0,0 +1,35 @@
+// Triggers a browser download without leaving the app (works offline).
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+export const downloadJson = (data: unknown, filename: string) => {
+  const json = JSON.stringify(data, null, 2);
+  downloadBlob(new Blob([json], { type: 'application/json' }), filename);
+};
+
+export const readJsonFile = (file: File): Promise<any> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        resolve(JSON.parse(e.target?.result as string));
+      } catch (err) {
+        reject(err);
+      }
+    };
+    reader.onerror = (err) => reject(err);
+    reader.readAsText(file);
+  });
+};
+
+// Lowercase, filesystem-safe fragment for generated file names
+export const safeFilePart = (value: string, fallback: string) =>
+  value ? value.replace(/[^a-z0-9]/gi, '_').toLowerCase() : fallback;
@@ -0,0 +1,127 @@
+import { CanonicalGlRow, CanonicalOtaRow, ProcessedDataState } from '../types';
+
+// Overlapping exports (the same GL exported twice, two bank statements that
+// share a few days) put the same transaction into the data more than once.
+// Suspects are grouped here; the Review step merges or dismisses each group.
+//  - bookings: the same reservation ID;
+//  - GL rows: the same amount, dates a few days apart at most, and the same
+//    description or contact.
+// A group is "exact" when its rows are identical in every field that matters;
+// those almost never are two real transactions, so they block the statement
+// until resolved.
+
+const AMOUNT_TOLERANCE = 0.01;
+const DATE_TOLERANCE_DAYS = 3;
+
+export interface DuplicateGroup {
+  key: string;         // sorted member ids; what a dismissal is recorded under
+  kind: 'booking' | 'income' | 'expense';
+  ids: string[];
+  exact: boolean;
+}
+
+const groupKey = (ids: string[]) => [...ids].sort().join('|');
+
+const normalizeText = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+const daysApart = (a: string, b: string) =>
+  Math.abs(new Date(a).getTime() - new Date(b).getTime()) / 86400000;
+
+// Union-find over the pairs judged to be the same transaction
+const groupPairs = <T extends { id: string }>(rows: T[], pairs: [T, T][]): T[][] => {
+  const parent = new Map<string, string>(rows.map(r => [r.id, r.id]));
+  const find = (id: string): string => {
+    while (parent.get(id) !== id) id = parent.get(id)!;
+    return id;
+  };
+  pairs.forEach(([a, b]) => parent.set(find(b.id), find(a.id)));
+  const groups = new Map<string, T[]>();
+  rows.forEach(r => {
+    const root = find(r.id);
+    groups.set(root, [...(groups.get(root) || []), r]);
+  });
+  return Array.from(groups.values()).filter(g => g.length > 1);
+};
+
+export const findBookingDuplicates = (bookings: CanonicalOtaRow[]): DuplicateGroup[] => {
+  const byReservation = new Map<string, CanonicalOtaRow[]>();
+  bookings.filter(b => b.reservation_id.trim()).forEach(b => {
+    // A refund or adjustment is not a second copy of its reservation
+    const key = `${b.line_type || 'reservation'}:${b.reservation_id.trim().toLowerCase()}`;
+    byReservation.set(key, [...(byReservation.get(key) || []), b]);
+  });
+  return Array.from(byReservation.values())
+    .filter(rows => rows.length > 1)
+    .map(rows => {
+      const first = rows[0];
+      return {
+        key: groupKey(rows.map(r => r.id)),
+        kind: 'booking' as const,
+        ids: rows.map(r => r.id),
+        exact: rows.every(r =>
+          r.check_in_date === first.check_in_date &&
+          r.payout_date === first.payout_date &&
+          Math.abs(r.gross_amount - first.gross_amount) < AMOUNT_TOLERANCE &&
+          Math.abs(r.net_payout - first.net_payout) < AMOUNT_TOLERANCE
+        )
+      };
+    });
+};
+
+const glAmount = (r: CanonicalGlRow) => r.debit_amount || r.credit_amount;
+
+interface PreparedGlRow {
+  row: CanonicalGlRow;
+  amount: number;
+  description: string;
+  contact: string;
+}
+
+const sameGlTransaction = (a: PreparedGlRow, b: PreparedGlRow) => {
+  if (!a.row.date || !b.row.date || daysApart(a.row.date, b.row.date) > DATE_TOLERANCE_DAYS) return false;
+  if (a.description && a.description === b.description) return true;
+  if (a.contact && a.contact === b.contact) return true;
+  // Banks sometimes truncate or prefix the narrative
+  return a.description.length >= 6 && b.description.length >= 6 &&
+    (a.description.includes(b.description) || b.description.includes(a.description));
+};
+
+const exactGlCopy = (a: CanonicalGlRow, b: CanonicalGlRow) =>
+  a.date === b.date &&
+  Math.abs(a.debit_amount - b.debit_amount) < AMOUNT_TOLERANCE &&
+  Math.abs(a.credit_amount - b.credit_amount) < AMOUNT_TOLERANCE &&
+  a.account_name === b.account_name &&
+  normalizeText(a.description) === normalizeText(b.description) &&
+  normalizeText(a.contact) === normalizeText(b.contact);
+
+export const findGlDuplicates = (rows: CanonicalGlRow[], kind: 'income' | 'expense'): DuplicateGroup[] => {
+  // Sorted by amount, so each row is only compared with its near neighbours
+  const prepared: PreparedGlRow[] = rows
+    .map(row => ({ row, amount: glAmount(row), description: normalizeText(row.description), contact: normalizeText(row.contact) }))
+    .sort((a, b) => a.amount - b.amount);
+  const pairs: [CanonicalGlRow, CanonicalGlRow][] = [];
+  for (let i = 0; i < prepared.length; i++) {
+    for (let j = i + 1; j < prepared.length && prepared[j].amount - prepared[i].amount < AMOUNT_TOLERANCE; j++) {
+      if (sameGlTransaction(prepared[i], prepared[j])) pairs.push([prepared[i].row, prepared[j].row]);
+    }
+  }
+  return groupPairs(rows, pairs).map(group => ({
+    key: groupKey(group.map(r => r.id)),
+    kind,
+    ids: group.map(r => r.id),
+    exact: group.every(r => exactGlCopy(r, group[0]))
+  }));
+};
+
+// Everything that reaches the statement: bookings, income and the expenses
+// the Review step shows
+export const findDuplicates = (
+  data: Pick<ProcessedDataState, 'otaBookings' | 'glIncome' | 'autoReimbursables' | 'reviewRows'>
+): DuplicateGroup[] => [
+  ...findBookingDuplicates(data.otaBookings),
+  ...findGlDuplicates(data.glIncome, 'income'),
+  ...findGlDuplicates([...data.autoReimbursables, ...data.reviewRows], 'expense')
+];
+
+export const unresolvedExactDuplicates = (groups: DuplicateGroup[], dismissed: string[]) =>
+  groups.filter(g => g.exact && !dismissed.includes(g.key));
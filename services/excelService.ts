@@ -1,16 +1,31 @@
 import * as XLSX from 'xlsx';
+import { SourceFile, SourceKind } from '../types';
 
-export const readSpreadsheet = async (file: File): Promise<any[]> => {
-  return new Promise((resolve, reject) => {
+// One tab of a workbook as a grid of cells, as the spreadsheet lays it out
+export interface WorkbookSheet {
+  name: string;
+  grid: any[][];
+}
+
+// Where the table sits on a sheet: the header row (0-based in the grid) and
+// how many lines at the bottom are totals or report footers
+export interface SheetRange {
+  sheet: string;
+  headerRow: number;
+  footerRows: number;
+}
+
+// Delimited text reaches the locale parser as written. Left to SheetJS,
+// "03/04/2025" would be read month first and "1.234,56" as 1.23456; only a
+// real spreadsheet's date and number cells are taken as typed.
+const isTextFile = (file: File) => /\.(csv|tsv|txt)$/i.test(file.name) || file.type.startsWith('text/');
+
+const readBinary = (file: File): Promise<XLSX.WorkBook> =>
+  new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.onload = (e) => {
       try {
-        const data = e.target?.result;
-        const workbook = XLSX.read(data, { type: 'binary' });
-        const firstSheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[firstSheetName];
-        const jsonData = XLSX.utils.sheet_to_json(worksheet, { defval: '' });
-        resolve(jsonData);
+        resolve(XLSX.read(e.target?.result, { type: 'binary', raw: isTextFile(file) }));
       } catch (err) {
         reject(err);
       }
@@ -18,6 +33,116 @@ export const readSpreadsheet = async (file: File): Promise<any[]> => {
     reader.onerror = (err) => reject(err);
     reader.readAsBinaryString(file);
   });
+
+// First sheet, headers on row 1. Used for small lookup files (classification
+// map, exchange rates) whose layout we define ourselves.
+export const readSpreadsheet = async (file: File): Promise<any[]> => {
+  const workbook = await readBinary(file);
+  const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+  return XLSX.utils.sheet_to_json(worksheet, { defval: '' });
+};
+
+// Every sheet, blank lines kept so row numbers match the spreadsheet
+export const readWorkbook = async (file: File): Promise<WorkbookSheet[]> => {
+  const workbook = await readBinary(file);
+  return workbook.SheetNames.map(name => ({
+    name,
+    grid: XLSX.utils.sheet_to_json<any[]>(workbook.Sheets[name], { header: 1, defval: '', blankrows: true })
+  }));
+};
+
+const filledCells = (row: any[] = []) => row.filter(c => c !== null && c !== undefined && String(c).trim() !== '');
+
+// Header cells are words: not numbers, amounts or numeric dates
+const isLabel = (cell: any) => typeof cell === 'string' && /[a-z]/i.test(cell) && !/^[\d\s.,()$€£%/:-]+$/.test(cell.trim());
+
+const HEADER_SCAN_ROWS = 30;
+
+// Title lines above the table ("Profit & Loss", the company, the period)
+// hold one or two cells; the header is the first line that is nearly as
+// wide as the table and all labels.
+export const detectHeaderRow = (grid: any[][]): number => {
+  const scan = grid.slice(0, HEADER_SCAN_ROWS);
+  const widest = Math.max(0, ...scan.map(r => filledCells(r).length));
+  const index = scan.findIndex(r => {
+    const cells = filledCells(r);
+    return cells.length >= Math.max(2, Math.ceil(widest * 0.6)) && cells.every(isLabel);
+  });
+  return index < 0 ? 0 : index;
+};
+
+const FOOTER_LINE = /^(grand total|total|subtotal|sum\b|closing balance|ending balance|net (change|movement)|report (generated|run)|generated|printed|page \d)/i;
+
+// Blank lines, totals and "generated on" notes at the very bottom
+export const detectFooterRows = (grid: any[][], headerRow: number): number => {
+  let count = 0;
+  for (let i = grid.length - 1; i > headerRow; i--) {
+    const cells = filledCells(grid[i]);
+    if (cells.length && !FOOTER_LINE.test(String(cells[0]).trim())) break;
+    count++;
+  }
+  return count;
+};
+
+// The sheet with the most filled lines: cover and notes tabs are short
+export const defaultSheetRange = (sheets: WorkbookSheet[]): SheetRange => {
+  const sheet = sheets.reduce<WorkbookSheet | undefined>((best, s) =>
+    !best || s.grid.filter(r => filledCells(r).length).length > best.grid.filter(r => filledCells(r).length).length ? s : best, undefined);
+  return sheetRange(sheet || { name: '', grid: [] });
+};
+
+export const sheetRange = (sheet: WorkbookSheet): SheetRange => {
+  const headerRow = detectHeaderRow(sheet.grid);
+  return { sheet: sheet.name, headerRow, footerRows: detectFooterRows(sheet.grid, headerRow) };
+};
+
+// Header names as row keys: blanks become "Column N", repeats get a number
+export const headerNames = (row: any[], width: number): string[] => {
+  const seen = new Map<string, number>();
+  return Array.from({ length: width }, (_, i) => {
+    const base = String(row[i] ?? '').trim() || `Column ${i + 1}`;
+    const count = (seen.get(base) || 0) + 1;
+    seen.set(base, count);
+    return count > 1 ? `${base} (${count})` : base;
+  });
+};
+
+// The lines between the header and the footer, keyed by header, without
+// blank lines
+export const sheetRows = (sheet: WorkbookSheet, range: SheetRange): any[] => {
+  const body = sheet.grid
+    .slice(range.headerRow + 1, Math.max(range.headerRow + 1, sheet.grid.length - range.footerRows))
+    .filter(r => filledCells(r).length);
+  const width = Math.max((sheet.grid[range.headerRow] || []).length, ...body.map(r => r.length));
+  const headers = headerNames(sheet.grid[range.headerRow] || [], width);
+  return body.map(r => Object.fromEntries(headers.map((h, i) => [h, r[i] ?? ''])));
+};
+
+const KNOWN_CHANNELS = ['Airbnb', 'Vrbo', 'Booking.com', 'Expedia', 'Hopper', 'Direct'];
+
+// "airbnb_payouts_2025-03.csv" -> "Airbnb"
+export const guessChannel = (fileName: string): string => {
+  const name = fileName.toLowerCase().replace(/[^a-z0-9]/g, '');
+  return KNOWN_CHANNELS.find(c => name.includes(c.toLowerCase().replace(/[^a-z0-9]/g, ''))) || '';
+};
+
+// A source from one sheet of an uploaded workbook. Sheets other than the
+// only one are named after the file and the tab.
+export const sheetSource = (
+  fileName: string,
+  sheets: WorkbookSheet[],
+  range: SheetRange,
+  kind: SourceKind,
+  channel?: string
+): SourceFile => {
+  const sheet = sheets.find(s => s.name === range.sheet) || { name: range.sheet, grid: [] };
+  return {
+    id: Math.random().toString(36).substring(2, 9),
+    kind,
+    name: sheets.length > 1 ? `${fileName} › ${sheet.name}` : fileName,
+    ...(kind === 'ota' && channel?.trim() ? { channel: channel.trim() } : {}),
+    rows: sheetRows(sheet, range)
+  };
 };
 
 export const parseClassificationMap = async (file: File): Promise<Record<string, string>> => {
@@ -0,0 +1,90 @@
+import { CanonicalGlRow, CanonicalOtaRow, ConfigState, ExchangeRate } from '../types';
+import { readSpreadsheet } from './excelService';
+import { normalizeCurrency, roundMoney } from './money';
+import { detectDateOrder, parseDate } from './locale';
+
+// Rows are converted to the statement currency as they are normalized, so
+// everything downstream (reconciliation, fees, totals) sees one currency.
+// The row keeps the currency it came in and the rate that was applied.
+
+// Latest dated rate on or before `date`; failing that the undated rate; and
+// failing that the earliest dated rate, for rows older than the whole table.
+export const findRate = (
+  rates: ExchangeRate[],
+  currency: string,
+  date: string,
+  statementCurrency: string
+): number | undefined => {
+  if (currency === statementCurrency) return 1;
+  const candidates = rates.filter(r => r.currency === currency && r.rate > 0);
+  const dated = candidates
+    .filter(r => r.date)
+    .sort((a, b) => a.date!.localeCompare(b.date!));
+  const onOrBefore = date ? dated.filter(r => r.date! <= date) : [];
+  if (onOrBefore.length) return onOrBefore[onOrBefore.length - 1].rate;
+  const undated = candidates.find(r => !r.date);
+  if (undated) return undated.rate;
+  return dated[0]?.rate;
+};
+
+const OTA_AMOUNT_FIELDS = [
+  'gross_amount', 'ota_fees', 'net_payout', 'accommodation_amount', 'cleaning_fee', 'pet_fee', 'extra_guest_fee', 'lodging_tax', 'ota_remitted_tax'
+] as const;
+const GL_AMOUNT_FIELDS = ['debit_amount', 'credit_amount'] as const;
+
+const convert = <T extends CanonicalOtaRow | CanonicalGlRow>(
+  row: T,
+  fields: readonly string[],
+  date: string,
+  config: ConfigState
+): T => {
+  const currency = row.currency || config.currency;
+  const rate = findRate(config.exchangeRates, currency, date, config.currency);
+  if (currency === config.currency) return { ...row, currency };
+  // No rate: leave the amounts as reported and let the Review step flag it
+  if (rate === undefined) return { ...row, currency, fx_rate: undefined };
+  const converted: any = { ...row, currency, fx_rate: rate };
+  fields.forEach(f => {
+    if (typeof converted[f] === 'number') converted[f] = roundMoney(converted[f] * rate, config.currency);
+  });
+  return converted;
+};
+
+export const convertOtaRow = (row: CanonicalOtaRow, config: ConfigState) =>
+  convert(row, OTA_AMOUNT_FIELDS, row.payout_date || row.check_in_date, config);
+
+export const convertGlRow = (row: CanonicalGlRow, config: ConfigState) =>
+  convert(row, GL_AMOUNT_FIELDS, row.date, config);
+
+// Currencies that appear in the rows but could not be converted
+export const missingRateCurrencies = (rows: (CanonicalOtaRow | CanonicalGlRow)[], statementCurrency: string): string[] =>
+  Array.from(new Set(
+    rows
+      .filter(r => r.currency && r.currency !== statementCurrency && r.fx_rate === undefined)
+      .map(r => r.currency!)
+  )).sort();
+
+// Rate table import: any sheet with a currency column and a rate column, and
+// optionally a date column ("Currency, Rate, Date").
+export const importRatesFile = async (file: File): Promise<ExchangeRate[]> => {
+  const rows = await readSpreadsheet(file);
+  const rates: ExchangeRate[] = [];
+  const dateHeader = rows.length ? Object.keys(rows[0]).find(k => /date/i.test(k)) : undefined;
+  const dateOrder = (dateHeader && detectDateOrder(rows.map((r: any) => r[dateHeader]))) || 'MDY';
+  rows.forEach((row: any) => {
+    const keys = Object.keys(row);
+    const currencyKey = keys.find(k => /currency|code/i.test(k));
+    const rateKey = keys.find(k => /rate/i.test(k));
+    const dateKey = keys.find(k => /date/i.test(k));
+    if (!currencyKey || !rateKey) return;
+    const currency = normalizeCurrency(row[currencyKey]);
+    const rate = parseFloat(String(row[rateKey]).replace(/,/g, ''));
+    if (!currency || !(rate > 0)) return;
+    const date = dateKey ? parseDate(row[dateKey], dateOrder) || undefined : undefined;
+    rates.push({ currency, rate, ...(date ? { date } : {}) });
+  });
+  if (!rates.length) {
+    throw new Error('No exchange rates found. The file needs a Currency column and a Rate column (and optionally a Date column).');
+  }
+  return rates;
+};
@@ -0,0 +1,347 @@
+import { FileLocale, SourceMapping } from '../types';
+import { tryParseAmount } from './locale';
+
+// Mapped fields can be computed from several columns instead of read from
+// one. The language is small and parsed here; nothing is passed to eval.
+//
+//   [Amount] + [Host Fee]             columns in brackets, arithmetic + - * /
+//   [First] & " " & [Last]            & joins text; + does too when a side is text
+//   -[Fee]                            sign flip
+//   if([Type] = "Refund", -[Amount], [Amount])
+//                                     comparisons = != < > <= >=
+//   abs(x), round(x, digits)
+//
+// Column cells are read as numbers with the file's locale where arithmetic
+// needs them. Rows where that fails get a spreadsheet-style error value
+// ("#VALUE!"), which surfaces as an unparsed amount on the quality step.
+
+type Expr =
+  | { type: 'number'; value: number }
+  | { type: 'text'; value: string }
+  | { type: 'column'; header: string }
+  | { type: 'negate'; operand: Expr }
+  | { type: 'binary'; op: string; left: Expr; right: Expr }
+  | { type: 'call'; name: string; args: Expr[] };
+
+type Value = number | string | boolean;
+
+export interface CompiledExpression {
+  source: string;
+  expr: Expr;
+  columns: string[];
+}
+
+export interface ExpressionCheck {
+  compiled?: CompiledExpression;
+  error?: string;
+}
+
+const FUNCTIONS: Record<string, [number, number]> = { // name -> [min, max] arguments
+  if: [3, 3],
+  abs: [1, 1],
+  round: [1, 2]
+};
+
+type Token = { kind: 'number' | 'text' | 'column' | 'name' | 'op' | 'end'; value: string; pos: number };
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const ch = source[i];
+    if (/\s/.test(ch)) { i++; continue; }
+    const start = i;
+    if (ch === '[') {
+      const close = source.indexOf(']', i);
+      if (close < 0) throw new Error(`Column name opened at ${start + 1} is not closed with ]`);
+      tokens.push({ kind: 'column', value: source.slice(i + 1, close).trim(), pos: start });
+      i = close + 1;
+    } else if (ch === '"' || ch === "'") {
+      const close = source.indexOf(ch, i + 1);
+      if (close < 0) throw new Error(`Text opened at ${start + 1} is not closed with ${ch}`);
+      tokens.push({ kind: 'text', value: source.slice(i + 1, close), pos: start });
+      i = close + 1;
+    } else if (/[0-9.]/.test(ch)) {
+      const match = source.slice(i).match(/^\d*\.?\d+|^\d+\.?/);
+      if (!match) throw new Error(`Unexpected "${ch}" at ${start + 1}`);
+      tokens.push({ kind: 'number', value: match[0], pos: start });
+      i += match[0].length;
+    } else if (/[a-z_]/i.test(ch)) {
+      const match = source.slice(i).match(/^[a-z_]\w*/i)!;
+      tokens.push({ kind: 'name', value: match[0].toLowerCase(), pos: start });
+      i += match[0].length;
+    } else {
+      const two = source.slice(i, i + 2);
+      const op = ['<=', '>=', '!=', '<>'].includes(two) ? two : ch;
+      if (!'+-*/&=<>(),'.includes(op) && op.length === 1) throw new Error(`Unexpected "${ch}" at ${start + 1}`);
+      tokens.push({ kind: 'op', value: op === '<>' ? '!=' : op, pos: start });
+      i += op.length;
+    }
+  }
+  tokens.push({ kind: 'end', value: '', pos: source.length });
+  return tokens;
+};
+
+// Recursive descent, lowest precedence first:
+// comparison < additive (+ - &) < multiplicative (* /) < unary minus
+const parse = (source: string): Expr => {
+  const tokens = tokenize(source);
+  let at = 0;
+  const peek = () => tokens[at];
+  const isOp = (...ops: string[]) => peek().kind === 'op' && ops.includes(peek().value);
+  const expect = (op: string) => {
+    if (!isOp(op)) throw new Error(`Expected "${op}" at ${peek().pos + 1}`);
+    at++;
+  };
+
+  const comparison = (): Expr => {
+    let left = additive();
+    while (isOp('=', '!=', '<', '>', '<=', '>=')) {
+      const op = tokens[at++].value;
+      left = { type: 'binary', op, left, right: additive() };
+    }
+    return left;
+  };
+  const additive = (): Expr => {
+    let left = multiplicative();
+    while (isOp('+', '-', '&')) {
+      const op = tokens[at++].value;
+      left = { type: 'binary', op, left, right: multiplicative() };
+    }
+    return left;
+  };
+  const multiplicative = (): Expr => {
+    let left = unary();
+    while (isOp('*', '/')) {
+      const op = tokens[at++].value;
+      left = { type: 'binary', op, left, right: unary() };
+    }
+    return left;
+  };
+  const unary = (): Expr => {
+    if (isOp('-')) { at++; return { type: 'negate', operand: unary() }; }
+    if (isOp('+')) { at++; return unary(); }
+    return primary();
+  };
+  const primary = (): Expr => {
+    const token = tokens[at++];
+    if (token.kind === 'number') return { type: 'number', value: parseFloat(token.value) };
+    if (token.kind === 'text') return { type: 'text', value: token.value };
+    if (token.kind === 'column') {
+      if (!token.value) throw new Error(`Empty column name at ${token.pos + 1}`);
+      return { type: 'column', header: token.value };
+    }
+    if (token.kind === 'name') {
+      const arity = FUNCTIONS[token.value];
+      if (!arity) throw new Error(`Unknown function "${token.value}" at ${token.pos + 1}. Column names go in [brackets].`);
+      expect('(');
+      const args: Expr[] = [];
+      if (!isOp(')')) {
+        args.push(comparison());
+        while (isOp(',')) { at++; args.push(comparison()); }
+      }
+      expect(')');
+      if (args.length < arity[0] || args.length > arity[1]) {
+        const count = arity[0] === arity[1] ? `${arity[0]}` : `${arity[0]} or ${arity[1]}`;
+        throw new Error(`${token.value}() takes ${count} argument${arity[1] === 1 ? '' : 's'}`);
+      }
+      return { type: 'call', name: token.value, args };
+    }
+    if (token.kind === 'op' && token.value === '(') {
+      const inner = comparison();
+      expect(')');
+      return inner;
+    }
+    throw new Error(token.kind === 'end' ? 'Expression ends too early' : `Unexpected "${token.value}" at ${token.pos + 1}`);
+  };
+
+  const expr = comparison();
+  if (peek().kind !== 'end') throw new Error(`Unexpected "${peek().value}" at ${peek().pos + 1}`);
+  return expr;
+};
+
+// Column names are matched as written, then ignoring case
+const resolveColumns = (expr: Expr, headers: string[], found: Set<string>): Expr => {
+  switch (expr.type) {
+    case 'column': {
+      const header = headers.find(h => h === expr.header) ||
+        headers.find(h => h.trim().toLowerCase() === expr.header.toLowerCase());
+      if (!header) throw new Error(`No column named [${expr.header}] in this file`);
+      found.add(header);
+      return { ...expr, header };
+    }
+    case 'negate':
+      return { ...expr, operand: resolveColumns(expr.operand, headers, found) };
+    case 'binary':
+      return { ...expr, left: resolveColumns(expr.left, headers, found), right: resolveColumns(expr.right, headers, found) };
+    case 'call':
+      return { ...expr, args: expr.args.map(a => resolveColumns(a, headers, found)) };
+    default:
+      return expr;
+  }
+};
+
+export const compileExpression = (source: string, headers: string[]): ExpressionCheck => {
+  if (!source.trim()) return { error: 'Enter an expression' };
+  try {
+    const columns = new Set<string>();
+    const expr = resolveColumns(parse(source), headers, columns);
+    return { compiled: { source, expr, columns: Array.from(columns) } };
+  } catch (err: any) {
+    return { error: err.message };
+  }
+};
+
+// Text literals and joins make + a join; columns take the other side's lead
+const isText = (expr: Expr): boolean =>
+  expr.type === 'text' ||
+  (expr.type === 'binary' && (expr.op === '&' || (expr.op === '+' && (isText(expr.left) || isText(expr.right))))) ||
+  (expr.type === 'call' && expr.name === 'if' && (isText(expr.args[1]) || isText(expr.args[2])));
+
+class ValueError {
+  constructor(public code: string) {}
+}
+
+const asNumber = (value: Value, locale: FileLocale): number => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  const num = tryParseAmount(value, locale);
+  if (num === null) throw new ValueError('#VALUE!');
+  return num;
+};
+
+const asText = (value: Value): string =>
+  typeof value === 'boolean' ? (value ? 'TRUE' : 'FALSE') : String(value);
+
+const truthy = (value: Value) =>
+  typeof value === 'string' ? value.trim() !== '' && value.trim().toLowerCase() !== 'false' : !!value;
+
+const compare = (op: string, a: Value, b: Value, locale: FileLocale): boolean => {
+  const na = typeof a === 'number' ? a : typeof a === 'string' && a.trim() ? tryParseAmount(a, locale) : null;
+  const nb = typeof b === 'number' ? b : typeof b === 'string' && b.trim() ? tryParseAmount(b, locale) : null;
+  const [x, y]: [Value, Value] = na !== null && nb !== null
+    ? [na, nb]
+    : [asText(a).trim().toLowerCase(), asText(b).trim().toLowerCase()];
+  switch (op) {
+    case '=': return x === y;
+    case '!=': return x !== y;
+    case '<': return x < y;
+    case '>': return x > y;
+    case '<=': return x <= y;
+    default: return x >= y;
+  }
+};
+
+const evaluate = (expr: Expr, row: any, locale: FileLocale): Value => {
+  switch (expr.type) {
+    case 'number':
+    case 'text':
+      return expr.value;
+    case 'column': {
+      const cell = row[expr.header];
+      return cell === undefined || cell === null ? '' : cell instanceof Date ? cell.toISOString().slice(0, 10) : cell;
+    }
+    case 'negate':
+      return -asNumber(evaluate(expr.operand, row, locale), locale);
+    case 'binary': {
+      const left = evaluate(expr.left, row, locale);
+      const right = evaluate(expr.right, row, locale);
+      if (expr.op === '&' || (expr.op === '+' && (isText(expr.left) || isText(expr.right)))) {
+        return asText(left) + asText(right);
+      }
+      if (['=', '!=', '<', '>', '<=', '>='].includes(expr.op)) return compare(expr.op, left, right, locale);
+      const a = asNumber(left, locale);
+      const b = asNumber(right, locale);
+      if (expr.op === '+') return a + b;
+      if (expr.op === '-') return a - b;
+      if (expr.op === '*') return a * b;
+      if (b === 0) throw new ValueError('#DIV/0!');
+      return a / b;
+    }
+    case 'call': {
+      if (expr.name === 'if') {
+        return truthy(evaluate(expr.args[0], row, locale))
+          ? evaluate(expr.args[1], row, locale)
+          : evaluate(expr.args[2], row, locale);
+      }
+      const x = asNumber(evaluate(expr.args[0], row, locale), locale);
+      if (expr.name === 'abs') return Math.abs(x);
+      const digits = expr.args[1] ? asNumber(evaluate(expr.args[1], row, locale), locale) : 0;
+      const factor = Math.pow(10, Math.round(digits));
+      return Math.round(x * factor) / factor;
+    }
+  }
+};
+
+// A cell value for the row: a number, text, or an error code. A bare
+// column reference passes the cell through untouched, so dates keep
+// whatever form the spreadsheet gave them.
+export const evaluateExpression = (compiled: CompiledExpression, row: any, locale: FileLocale): any => {
+  if (compiled.expr.type === 'column') return row[compiled.expr.header];
+  try {
+    const value = evaluate(compiled.expr, row, locale);
+    if (typeof value === 'number') {
+      // Keep sums of cents from picking up binary noise (0.1 + 0.2)
+      return isFinite(value) ? Math.round(value * 1e9) / 1e9 : '#NUM!';
+    }
+    return asText(value);
+  } catch (err) {
+    if (err instanceof ValueError) return err.code;
+    throw err;
+  }
+};
+
+export const isExpressionError = (value: any) => typeof value === 'string' && /^#[A-Z/0]+!$/.test(value);
+
+// Computed fields are written into each row under their own column so the
+// rest of processing reads them like any mapped column
+export const expressionColumn = (field: string) => `=${field}`;
+
+// Fields with a valid expression, compiled against the file's headers.
+// Invalid ones are left out; the Map step does not let them through.
+export const compileMappingExpressions = (mapping: SourceMapping, headers: string[]): [string, CompiledExpression][] =>
+  Object.entries(mapping.expressions || {})
+    .map(([field, source]) => [field, compileExpression(source, headers).compiled] as [string, CompiledExpression | undefined])
+    .filter((entry): entry is [string, CompiledExpression] => !!entry[1]);
+
+export const applyExpressions = (rows: any[], mapping: SourceMapping): { rows: any[]; fields: Record<string, string> } => {
+  const headers = rows.length ? Object.keys(rows[0]) : [];
+  const compiled = compileMappingExpressions(mapping, headers);
+  if (!compiled.length) return { rows, fields: mapping.fields };
+  const fields = { ...mapping.fields };
+  compiled.forEach(([field]) => { fields[field] = expressionColumn(field); });
+  return {
+    fields,
+    rows: rows.map(row => {
+      const out = { ...row };
+      compiled.forEach(([field, expr]) => { out[expressionColumn(field)] = evaluateExpression(expr, row, mapping.locale); });
+      return out;
+    })
+  };
+};
+
+export interface ExpressionPreview {
+  error?: string;       // does not parse, or names a missing column
+  samples: string[];    // first non-blank results
+  failures: number;     // rows that evaluate to an error value
+  failure?: string;     // the first such error value
+}
+
+// Live check for the Map step, run against the file's rows
+export const previewExpression = (source: string, rows: any[], locale: FileLocale, limit: number): ExpressionPreview => {
+  const { compiled, error } = compileExpression(source, rows.length ? Object.keys(rows[0]) : []);
+  if (!compiled) return { error, samples: [], failures: 0 };
+  const samples: string[] = [];
+  let failures = 0;
+  let failure: string | undefined;
+  rows.forEach(row => {
+    const value = evaluateExpression(compiled, row, locale);
+    if (isExpressionError(value)) {
+      failures++;
+      failure = failure || value;
+    } else if (samples.length < limit && value !== undefined && value !== null && String(value).trim() !== '') {
+      samples.push(String(value).trim());
+    }
+  });
+  return { samples, failures, failure };
+};
@@ -0,0 +1,145 @@
+import { CanonicalOtaRow, ConfigState, FeeModel, FeeTier } from '../types';
+import { formatMoney } from './money';
+import { countsInFeeBase, isReservation } from './adjustments';
+import { FEE_COMPONENTS, nonCommissionable } from './bookingComponents';
+
+// Management fee calculation. The fee for a statement is built up in parts,
+// each of which becomes one line of the breakdown printed under the fee:
+//   1. bookings on a channel with its own rate are charged at that rate
+//   2. the remaining fee base is charged at the tiered (or flat) rate
+//   3. a flat fee per booking (reservation lines only) is added
+//   4. if the total is under the minimum fee, a top-up brings it up to it
+
+export interface FeeLine {
+  label: string;
+  base?: number;    // amount the rate was applied to
+  percent?: number;
+  amount: number;
+}
+
+export interface FeeCalculation {
+  feeBase: number;
+  feeBaseLabel: string;
+  lines: FeeLine[];
+  amount: number;
+}
+
+const feeBaseLabel = (config: ConfigState) => {
+  const label = config.feeBaseMode === 'gross_revenue' ? 'Gross OTA Revenue' : 'Net OTA Payouts';
+  const excluded = FEE_COMPONENTS.filter(c => config.feeModel[c.setting]).map(c => c.label.toLowerCase());
+  return excluded.length ? `${label} excl. ${excluded.join(', ')}` : label;
+};
+
+// Adjustment lines count only where config.adjustmentFeeBase says so
+export const bookingFeeBase = (booking: CanonicalOtaRow, config: ConfigState): number => {
+  if (!countsInFeeBase(booking, config)) return 0;
+  const base = config.feeBaseMode === 'gross_revenue' ? booking.gross_amount : booking.net_payout;
+  return base - nonCommissionable(booking, config.feeModel);
+};
+
+// Ascending by upper limit, open-ended band last. The top band is taken as
+// open-ended even when it was given a limit, so in either tier mode no
+// revenue goes uncharged.
+export const sortTiers = (tiers: FeeTier[]): FeeTier[] =>
+  [...tiers]
+    .sort((a, b) => (a.upTo ?? Infinity) - (b.upTo ?? Infinity))
+    .map((t, i, all) => i === all.length - 1 ? { ...t, upTo: null } : t);
+
+const formatBand = (from: number, upTo: number | null, currency: string) =>
+  upTo === null
+    ? `over ${formatMoney(from, currency, { whole: true })}`
+    : `${formatMoney(from, currency, { whole: true })} – ${formatMoney(upTo, currency, { whole: true })}`;
+
+export const tieredFee = (base: number, tiers: FeeTier[], mode: FeeModel['tierMode'], currency: string): FeeLine[] => {
+  const sorted = sortTiers(tiers);
+  if (mode === 'whole') {
+    const band = sorted.find(t => t.upTo === null || base <= t.upTo)!;
+    const idx = sorted.indexOf(band);
+    const from = idx > 0 ? sorted[idx - 1].upTo || 0 : 0;
+    return [{
+      label: `Tier ${formatBand(from, band.upTo, currency)} applied to all`,
+      base,
+      percent: band.percent,
+      amount: base * (band.percent / 100)
+    }];
+  }
+  const lines: FeeLine[] = [];
+  let from = 0;
+  for (const tier of sorted) {
+    if (base <= from) break;
+    const portion = Math.min(base, tier.upTo ?? Infinity) - from;
+    lines.push({ label: `Tier ${formatBand(from, tier.upTo, currency)}`, base: portion, percent: tier.percent, amount: portion * (tier.percent / 100) });
+    if (tier.upTo === null) break;
+    from = tier.upTo;
+  }
+  return lines;
+};
+
+export const calculateManagementFee = (bookings: CanonicalOtaRow[], config: ConfigState): FeeCalculation => {
+  const model = config.feeModel;
+  const lines: FeeLine[] = [];
+
+  const channelRates = model.channelPercents;
+  const channelKey = (b: CanonicalOtaRow) =>
+    Object.keys(channelRates).find(c => c.toLowerCase() === (b.channel || '').toLowerCase());
+
+  // 1. Channels with their own rate
+  Object.keys(channelRates).forEach(channel => {
+    const base = bookings
+      .filter(b => channelKey(b) === channel)
+      .reduce((sum, b) => sum + bookingFeeBase(b, config), 0);
+    if (base === 0) return;
+    lines.push({ label: `${channel} bookings`, base, percent: channelRates[channel], amount: base * (channelRates[channel] / 100) });
+  });
+
+  // 2. Everything else at the tiered or flat rate
+  const standardBase = bookings
+    .filter(b => !channelKey(b))
+    .reduce((sum, b) => sum + bookingFeeBase(b, config), 0);
+  if (model.tiers.length) {
+    lines.push(...tieredFee(standardBase, model.tiers, model.tierMode, config.currency));
+  } else if (standardBase !== 0 || !lines.length) {
+    lines.push({
+      label: lines.length ? 'Other bookings' : 'Management fee',
+      base: standardBase,
+      percent: config.mgmtFeePercent,
+      amount: standardBase * (config.mgmtFeePercent / 100)
+    });
+  }
+
+  // 3. Flat fee per booking
+  const reservations = bookings.filter(isReservation).length;
+  if (model.perBookingFee && reservations) {
+    lines.push({
+      label: `${reservations} booking${reservations === 1 ? '' : 's'} × ${formatMoney(model.perBookingFee, config.currency)}`,
+      amount: reservations * model.perBookingFee
+    });
+  }
+
+  // 4. Minimum fee top-up
+  const subtotal = lines.reduce((sum, l) => sum + l.amount, 0);
+  if (model.minimumFee && subtotal < model.minimumFee) {
+    lines.push({ label: `Minimum fee of ${formatMoney(model.minimumFee, config.currency)}`, amount: model.minimumFee - subtotal });
+  }
+
+  return {
+    feeBase: bookings.reduce((sum, b) => sum + bookingFeeBase(b, config), 0),
+    feeBaseLabel: feeBaseLabel(config),
+    lines,
+    amount: lines.reduce((sum, l) => sum + l.amount, 0)
+  };
+};
+
+// One-line summary for the statement and property tables
+export const describeFeeModel = (config: ConfigState): string => {
+  const model = config.feeModel;
+  const rate = model.tiers.length
+    ? `${model.tierMode === 'whole' ? 'Whole-base' : 'Marginal'} tiers`
+    : `${config.mgmtFeePercent}%`;
+  const extras: string[] = [];
+  const channels = Object.keys(model.channelPercents);
+  if (channels.length) extras.push(channels.map(c => `${c} at ${model.channelPercents[c]}%`).join(', '));
+  if (model.perBookingFee) extras.push(`${formatMoney(model.perBookingFee, config.currency)} per booking`);
+  if (model.minimumFee) extras.push(`minimum ${formatMoney(model.minimumFee, config.currency)}`);
+  return [`${rate} of ${feeBaseLabel(config)}`, ...extras].join('; ');
+};
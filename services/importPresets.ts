@@ -0,0 +1,285 @@
+import { FileLocale, ImportPresetId, SourceFile, SourceKind, SourceMapping } from '../types';
+import { AMOUNT_FIELDS } from '../constants';
+
+// What we know about one system's export: the headers it writes, how it
+// writes dates and numbers, and the lines in it that are not transactions.
+export interface ImportPreset {
+  id: ImportPresetId;
+  label: string;
+  kind: SourceKind;
+  channel?: string;                   // OTA: channel of the bookings in it
+  signature: string[];                // headers that identify the export; all must be present
+  headers: Record<string, string[]>;  // field -> header names the export uses, preferred first
+  locale: FileLocale;
+  skipLines?: { header: string; values: string[] }; // line types that summarise other lines
+  magnitudeFields?: string[];         // written as negatives; read as amounts
+  fillDown?: string[];                // only given on the first line of a transaction
+  requireFields?: string[];           // lines without these are subtotals
+  accountHeadings?: boolean;          // GL: account named on a heading line above its rows
+  totalLines?: boolean;               // "Total …", opening and closing balance lines
+  note: string;
+}
+
+const US: FileLocale = { dateOrder: 'MDY', decimalSeparator: '.', thousandsSeparator: ',' };
+
+export const IMPORT_PRESETS: ImportPreset[] = [
+  {
+    id: 'airbnb_transactions',
+    label: 'Airbnb transaction history',
+    kind: 'ota',
+    channel: 'Airbnb',
+    signature: ['Type', 'Confirmation Code', 'Paid Out', 'Gross Earnings'],
+    headers: {
+      reservation_id: ['Confirmation Code'],
+      check_in_date: ['Start Date'],
+      check_out_date: ['End Date'],
+      nights: ['Nights'],
+      payout_date: ['Date'],
+      booking_date: ['Booking Date'],
+      line_type: ['Type'],
+      guest_name: ['Guest'],
+      net_payout: ['Amount'],
+      gross_amount: ['Gross Earnings'],
+      ota_fees: ['Service Fee'],
+      cleaning_fee: ['Cleaning Fee'],
+      // Airbnb collects and remits the occupancy taxes it lists, so the
+      // column is both the tax collected and the tax remitted by the OTA
+      lodging_tax: ['Occupancy Taxes'],
+      ota_remitted_tax: ['Occupancy Taxes'],
+      property: ['Listing'],
+      currency: ['Currency']
+    },
+    locale: US,
+    // Each payout is listed once as a "Payout" line and again as the
+    // reservations it paid; only the reservations are bookings.
+    skipLines: { header: 'Type', values: ['Payout'] },
+    note: 'Payout lines are skipped; resolution, cancellation and adjustment lines are linked to the reservation they belong to. Check-out is worked out from the start date and nights.'
+  },
+  {
+    id: 'airbnb_earnings',
+    label: 'Airbnb earnings report',
+    kind: 'ota',
+    channel: 'Airbnb',
+    signature: ['Confirmation code', 'Gross earnings', 'Host service fee', 'Total payout'],
+    headers: {
+      reservation_id: ['Confirmation code'],
+      check_in_date: ['Check-in', 'Start date'],
+      check_out_date: ['Checkout', 'Check-out', 'End date'],
+      nights: ['Nights'],
+      payout_date: ['Payout date', 'Paid out date'],
+      booking_date: ['Booked', 'Booking date'],
+      guest_name: ['Guest name', 'Guest'],
+      net_payout: ['Total payout'],
+      gross_amount: ['Gross earnings'],
+      ota_fees: ['Host service fee'],
+      cleaning_fee: ['Cleaning fee'],
+      lodging_tax: ['Occupancy taxes'],
+      ota_remitted_tax: ['Occupancy taxes'],
+      property: ['Listing'],
+      currency: ['Currency']
+    },
+    locale: US,
+    magnitudeFields: ['ota_fees'],
+    note: 'Host service fees are written as negatives and read as fee amounts.'
+  },
+  {
+    id: 'vrbo_payouts',
+    label: 'Vrbo payout report',
+    kind: 'ota',
+    channel: 'Vrbo',
+    signature: ['Reservation ID', 'Traveler name', 'Payout amount'],
+    headers: {
+      reservation_id: ['Reservation ID'],
+      check_in_date: ['Check-in', 'Check-in date'],
+      check_out_date: ['Check-out', 'Check-out date'],
+      payout_date: ['Payout date', 'Disbursement date'],
+      booking_date: ['Booked date', 'Reservation date'],
+      guest_name: ['Traveler name'],
+      net_payout: ['Payout amount'],
+      gross_amount: ['Gross booking amount', 'Booking amount'],
+      ota_fees: ['Commission', 'Service fee'],
+      lodging_tax: ['Tax', 'Lodging tax'],
+      ota_remitted_tax: ['Tax remitted by Vrbo', 'Tax withheld'],
+      property: ['Property ID', 'Property name'],
+      currency: ['Currency']
+    },
+    locale: US,
+    magnitudeFields: ['ota_fees', 'ota_remitted_tax'],
+    note: 'Commission and withheld tax are written as negatives and read as amounts.'
+  },
+  {
+    id: 'booking_payouts',
+    label: 'Booking.com payout statement',
+    kind: 'ota',
+    channel: 'Booking.com',
+    signature: ['Reservation number', 'Commission', 'Payout date'],
+    headers: {
+      reservation_id: ['Reservation number'],
+      check_in_date: ['Check-in', 'Arrival'],
+      check_out_date: ['Check-out', 'Departure'],
+      payout_date: ['Payout date'],
+      booking_date: ['Booked on'],
+      line_type: ['Type'],
+      guest_name: ['Guest name', 'Booker name'],
+      net_payout: ['Net', 'Payable amount', 'Net amount'],
+      gross_amount: ['Amount', 'Gross amount'],
+      ota_fees: ['Commission'],
+      property: ['Property name', 'Property ID'],
+      currency: ['Currency']
+    },
+    locale: { dateOrder: 'YMD', decimalSeparator: '.', thousandsSeparator: ',' },
+    skipLines: { header: 'Type', values: ['Payout'] },
+    magnitudeFields: ['ota_fees'],
+    note: 'Commission is written as a negative and read as a fee; payout summary lines are skipped.'
+  },
+  {
+    id: 'xero_gl',
+    label: 'Xero general ledger detail',
+    kind: 'gl',
+    signature: ['Date', 'Source', 'Description', 'Reference', 'Debit', 'Credit'],
+    headers: {
+      date: ['Date'],
+      account_name: ['Account', 'Account Name'],
+      description: ['Description'],
+      contact: ['Contact', 'Reference'],
+      debit_amount: ['Debit'],
+      credit_amount: ['Credit'],
+      source_type: ['Source'],
+      property: ['Tracking', 'Region'],
+      currency: ['Currency']
+    },
+    locale: { dateOrder: 'DMY', decimalSeparator: '.', thousandsSeparator: ',' },
+    accountHeadings: true,
+    totalLines: true,
+    note: 'Each account is named on a heading line above its transactions; totals and balances are skipped.'
+  },
+  {
+    id: 'qbo_journal',
+    label: 'QuickBooks Online journal report',
+    kind: 'gl',
+    signature: ['Transaction Type', 'Num', 'Memo/Description', 'Account', 'Debit', 'Credit'],
+    headers: {
+      date: ['Date'],
+      account_name: ['Account'],
+      description: ['Memo/Description'],
+      contact: ['Name'],
+      debit_amount: ['Debit'],
+      credit_amount: ['Credit'],
+      source_type: ['Transaction Type'],
+      property: ['Class', 'Location'],
+      currency: ['Currency']
+    },
+    locale: US,
+    fillDown: ['date', 'source_type', 'contact'],
+    requireFields: ['account_name'],
+    totalLines: true,
+    note: 'Date, type and name are carried down each transaction\'s lines; the per-transaction and report totals are skipped.'
+  },
+  {
+    id: 'wave_transactions',
+    label: 'Wave account transactions',
+    kind: 'gl',
+    signature: ['Transaction ID', 'Account Name', 'Debit Amount (Two Column Approach)', 'Credit Amount (Two Column Approach)'],
+    headers: {
+      date: ['Transaction Date'],
+      account_name: ['Account Name'],
+      description: ['Transaction Description', 'Transaction Line Description'],
+      contact: ['Vendor', 'Customer'],
+      debit_amount: ['Debit Amount (Two Column Approach)'],
+      credit_amount: ['Credit Amount (Two Column Approach)'],
+      source_type: ['Account Group'],
+      currency: ['Currency']
+    },
+    locale: { dateOrder: 'YMD', decimalSeparator: '.', thousandsSeparator: ',' },
+    note: 'Read from the two-column debit and credit amounts.'
+  }
+];
+
+export const findPreset = (id: string | undefined | null): ImportPreset | undefined =>
+  IMPORT_PRESETS.find(p => p.id === id);
+
+export const presetsFor = (kind: SourceKind) => IMPORT_PRESETS.filter(p => p.kind === kind);
+
+const headersOf = (file: SourceFile): string[] => file.rows.length ? Object.keys(file.rows[0]) : [];
+
+// The file's own spelling of the first name the export uses
+const findHeader = (headers: string[], names: string[]): string => {
+  const byName = new Map(headers.map(h => [h.trim().toLowerCase(), h]));
+  return names.map(n => byName.get(n.toLowerCase())).find(Boolean) || '';
+};
+
+// The most specific preset whose signature headers are all in the file
+export const detectPreset = (file: SourceFile): ImportPreset | undefined => {
+  const headers = headersOf(file);
+  return presetsFor(file.kind)
+    .filter(p => p.signature.every(name => findHeader(headers, [name])))
+    .sort((a, b) => b.signature.length - a.signature.length)[0];
+};
+
+// Fields the preset finds in the file; the rest are left to guessing
+export const presetMapping = (preset: ImportPreset, file: SourceFile): SourceMapping => {
+  const headers = headersOf(file);
+  const fields: Record<string, string> = {};
+  Object.entries(preset.headers).forEach(([field, names]) => {
+    const header = findHeader(headers, names);
+    if (header) fields[field] = header;
+  });
+  return { fields, locale: preset.locale, preset: preset.id };
+};
+
+// Fields a preset fills in itself when no column is mapped to them
+export const presetSuppliedFields = (mapping: SourceMapping): string[] =>
+  findPreset(mapping.preset)?.accountHeadings ? ['account_name'] : [];
+
+export interface PresetRows {
+  rows: any[];           // carried-down cells filled in
+  skipped: Set<number>;  // summary, heading, total and blank lines
+  headings: string[];    // GL: account of the heading line above each row
+  magnitudes: Set<string>;
+}
+
+const TOTAL_LINE = /^(total\b|opening balance|closing balance|net movement)/i;
+
+// Reads the file the way its export writes it. Indexes match file.rows so
+// diagnostics and forced rows still point at the uploaded line.
+export const prepareRows = (file: SourceFile, mapping: SourceMapping): PresetRows => {
+  const preset = findPreset(mapping.preset);
+  const skipped = new Set<number>();
+  const headings: string[] = [];
+  if (!preset) return { rows: file.rows, skipped, headings, magnitudes: new Set() };
+
+  const map = mapping.fields;
+  const text = (row: any, header: string | undefined) =>
+    header && row[header] !== undefined && row[header] !== null ? String(row[header]).trim() : '';
+  const lineType = preset.skipLines ? findHeader(headersOf(file), [preset.skipLines.header]) : '';
+  const skipTypes = new Set((preset.skipLines?.values || []).map(v => v.toLowerCase()));
+  const amountHeaders = AMOUNT_FIELDS[file.kind].map(f => map[f]).filter(Boolean);
+  const carried: Record<string, any> = {};
+  let heading = '';
+
+  const rows = file.rows.map((raw, index) => {
+    const row = { ...raw };
+    const cells = Object.values(raw).map(v => v === undefined || v === null ? '' : String(v).trim()).filter(Boolean);
+    if (!cells.length) {
+      skipped.add(index);
+    } else if (lineType && skipTypes.has(text(raw, lineType).toLowerCase())) {
+      skipped.add(index);
+    } else if (preset.totalLines && TOTAL_LINE.test(cells[0])) {
+      skipped.add(index);
+    } else if (preset.accountHeadings && cells.length === 1 && amountHeaders.every(h => !text(raw, h))) {
+      heading = cells[0];
+      skipped.add(index);
+    } else {
+      (preset.fillDown || []).forEach(field => {
+        const header = map[field];
+        if (!header) return;
+        if (text(raw, header)) carried[field] = raw[header];
+        else if (carried[field] !== undefined) row[header] = carried[field];
+      });
+      if ((preset.requireFields || []).some(field => !text(row, map[field]))) skipped.add(index);
+    }
+    headings.push(heading);
+    return row;
+  });
+  return { rows, skipped, headings, magnitudes: new Set(preset.magnitudeFields) };
+};
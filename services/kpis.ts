@@ -0,0 +1,113 @@
+import { CanonicalOtaRow, ConfigState } from '../types';
+import { stayNights } from './recognition';
+import { isReservation } from './adjustments';
+import { accommodationAmount } from './bookingComponents';
+
+// Occupancy and rate figures for the statement period, from the stay dates
+// of the bookings on the statement. Only nights inside the period count, and
+// room revenue (the nightly rate total, without guest fees) is spread evenly
+// over a stay's nights, so a stay running past the period end adds just its
+// in-period share whatever the recognition mode. Adjustment lines (refunds,
+// resolution payouts...) are not stays and are left out.
+
+export interface KpiFigures {
+  bookings: number;
+  nightsBooked: number;
+  roomRevenue: number;
+  occupancy: number | null;     // nights booked / nights available, 0-1
+  adr: number | null;           // average daily rate: room revenue per night booked
+  revpar: number | null;        // revenue per available night
+  averageStay: number | null;   // nights per booking, whole stays
+  leadTime: number | null;      // days from booking to check-in
+}
+
+export interface ChannelKpis extends KpiFigures {
+  channel: string;
+}
+
+export interface KpiSummary extends KpiFigures {
+  units: number;
+  availableNights: number;
+  undatedStays: number;  // bookings without both stay dates; not in the night counts
+  byChannel: ChannelKpis[];
+}
+
+const DAY_MS = 86400000;
+const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+
+const average = (values: number[]) => values.length ? values.reduce((a, b) => a + b, 0) / values.length : null;
+
+interface StayFigures {
+  nights: number;        // whole stay
+  periodNights: number;
+  roomRevenue: number;   // in-period share
+  leadTime?: number;
+}
+
+const stayFigures = (booking: CanonicalOtaRow, config: ConfigState): StayFigures | null => {
+  if (!booking.check_in_date || !booking.check_out_date) return null;
+  const stay = stayNights(booking.check_in_date, booking.check_out_date, config.periodStart, config.periodEnd);
+  if (!stay) return null;
+  const lead = booking.booking_date ? daysBetween(booking.booking_date, booking.check_in_date) : NaN;
+  return {
+    nights: stay.nights,
+    periodNights: stay.periodNights,
+    roomRevenue: accommodationAmount(booking) * stay.periodNights / stay.nights,
+    leadTime: lead >= 0 ? lead : undefined
+  };
+};
+
+const summarize = (stays: StayFigures[], bookings: number, availableNights: number): KpiFigures => {
+  const nightsBooked = stays.reduce((sum, s) => sum + s.periodNights, 0);
+  const roomRevenue = stays.reduce((sum, s) => sum + s.roomRevenue, 0);
+  return {
+    bookings,
+    nightsBooked,
+    roomRevenue,
+    occupancy: availableNights ? nightsBooked / availableNights : null,
+    adr: nightsBooked ? roomRevenue / nightsBooked : null,
+    revpar: availableNights ? roomRevenue / availableNights : null,
+    averageStay: average(stays.map(s => s.nights)),
+    leadTime: average(stays.filter(s => s.leadTime !== undefined).map(s => s.leadTime!))
+  };
+};
+
+// units: properties the bookings are spread over (1 outside portfolio mode)
+export const calculateKpis = (lines: CanonicalOtaRow[], config: ConfigState, units = 1): KpiSummary => {
+  const bookings = lines.filter(isReservation);
+  const periodDays = config.periodStart && config.periodEnd ? daysBetween(config.periodStart, config.periodEnd) + 1 : 0;
+  const availableNights = Math.max(0, periodDays) * units;
+  const byChannel = new Map<string, { stays: StayFigures[]; bookings: number }>();
+  const stays: StayFigures[] = [];
+  let undatedStays = 0;
+  bookings.forEach(b => {
+    const channel = b.channel || 'Other';
+    const entry = byChannel.get(channel) || { stays: [], bookings: 0 };
+    entry.bookings++;
+    byChannel.set(channel, entry);
+    const figures = stayFigures(b, config);
+    if (!figures) {
+      undatedStays++;
+      return;
+    }
+    stays.push(figures);
+    entry.stays.push(figures);
+  });
+  return {
+    ...summarize(stays, bookings.length, availableNights),
+    units,
+    availableNights,
+    undatedStays,
+    byChannel: Array.from(byChannel.entries()).map(([channel, entry]) => ({
+      channel,
+      ...summarize(entry.stays, entry.bookings, availableNights)
+    }))
+  };
+};
+
+export const formatPercent = (value: number | null) =>
+  value === null ? '—' : `${(value * 100).toFixed(1)}%`;
+
+export const formatAverage = (value: number | null, unit: string) =>
+  value === null ? '—' : `${value.toFixed(1)} ${unit}`;
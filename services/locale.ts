@@ -0,0 +1,206 @@
+import { DateOrder, FileLocale } from '../types';
+import { DEFAULT_FILE_LOCALE } from '../constants';
+
+// Dates and amounts in source files are read according to the file's locale
+// rather than the browser's: `new Date('03/04/2025')` is always March 4 and
+// parseFloat stops at the first comma of "1.234,56".
+
+export const DATE_ORDER_LABELS: Record<DateOrder, string> = {
+  MDY: 'MM/DD/YYYY',
+  DMY: 'DD/MM/YYYY',
+  YMD: 'YYYY/MM/DD'
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const toIso = (year: number, month: number, day: number): string | null => {
+  if (month < 1 || month > 12 || day < 1) return null;
+  const d = new Date(year, month - 1, day);
+  // Rejects 31/02 and the like, which Date would roll into the next month
+  if (d.getFullYear() !== year || d.getMonth() !== month - 1 || d.getDate() !== day) return null;
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+const expandYear = (y: string) => {
+  const n = parseInt(y, 10);
+  return y.length <= 2 ? (n < 70 ? 2000 + n : 1900 + n) : n;
+};
+
+// 03/04/2025, 3.4.25, 2025-03-04, 03-04-2025 10:15
+const NUMERIC_DATE = /^(\d{1,4})[\/.\-](\d{1,2})[\/.\-](\d{1,4})(?:[ T].*)?$/;
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})(?:[ T].*)?$/;
+
+const numericParts = (val: any): [string, string, string] | null => {
+  if (typeof val !== 'string') return null;
+  const m = val.trim().match(NUMERIC_DATE);
+  return m ? [m[1], m[2], m[3]] : null;
+};
+
+const fromParts = ([a, b, c]: [string, string, string], order: DateOrder): string | null => {
+  // A leading four-digit year is unambiguous whatever the file's order
+  if (a.length === 4 || order === 'YMD') {
+    return a.length === 4 ? toIso(parseInt(a, 10), parseInt(b, 10), parseInt(c, 10)) : null;
+  }
+  if (c.length === 3) return null;
+  const year = expandYear(c);
+  return order === 'MDY'
+    ? toIso(year, parseInt(a, 10), parseInt(b, 10))
+    : toIso(year, parseInt(b, 10), parseInt(a, 10));
+};
+
+export const parseDate = (val: any, order: DateOrder): string | null => {
+  if (val === null || val === undefined || val === '') return null;
+  // Excel serial date: days since 1899-12-30, no time zone
+  if (typeof val === 'number') {
+    const date = new Date(Math.round((val - 25569) * 86400 * 1000));
+    return isNaN(date.getTime()) ? null : date.toISOString().split('T')[0];
+  }
+  if (val instanceof Date) {
+    return isNaN(val.getTime()) ? null : toIso(val.getFullYear(), val.getMonth() + 1, val.getDate());
+  }
+  const str = String(val).trim();
+  const iso = str.match(ISO_DATE);
+  if (iso) return toIso(parseInt(iso[1], 10), parseInt(iso[2], 10), parseInt(iso[3], 10));
+  const parts = numericParts(str);
+  if (parts) return fromParts(parts, order);
+  // Written-out months ("Mar 4, 2025", "4 March 2025"). Read back in local
+  // time so the date is not shifted by the UTC offset.
+  const d = new Date(str);
+  return isNaN(d.getTime()) ? null : toIso(d.getFullYear(), d.getMonth() + 1, d.getDate());
+};
+
+// null when there is a value but no number in it ("n/a", "—")
+export const tryParseAmount = (val: any, locale: FileLocale): number | null => {
+  if (typeof val === 'number') return val;
+  if (val === null || val === undefined || String(val).trim() === '') return 0;
+
+  let str = String(val).trim();
+
+  // Accounting format (123.45) means negative
+  const isNegative = str.startsWith('(') && str.endsWith(')');
+
+  if (locale.thousandsSeparator === ' ') str = str.replace(/\s/g, '');
+  else if (locale.thousandsSeparator) str = str.split(locale.thousandsSeparator).join('');
+  if (locale.decimalSeparator === ',') str = str.replace(/\./g, '').replace(',', '.');
+
+  // Drop currency symbols and anything else that is not part of the number
+  str = str.replace(/[^0-9.-]/g, '');
+
+  const num = parseFloat(str);
+  if (isNaN(num)) return null;
+
+  return isNegative ? -Math.abs(num) : num;
+};
+
+export const parseAmount = (val: any, locale: FileLocale): number => tryParseAmount(val, locale) ?? 0;
+
+// ---- Detection -----------------------------------------------------------
+
+// Values that only parse under one order settle the question: a first part
+// over 12 must be a day, a second part over 12 must be the day.
+const dateOrderVotes = (values: any[]): Record<DateOrder, number> => {
+  const votes: Record<DateOrder, number> = { MDY: 0, DMY: 0, YMD: 0 };
+  values.forEach(v => {
+    const parts = numericParts(v);
+    if (!parts) return;
+    const [a, b] = parts;
+    if (a.length === 4) votes.YMD++;
+    else if (parseInt(a, 10) > 12) votes.DMY++;
+    else if (parseInt(b, 10) > 12) votes.MDY++;
+  });
+  return votes;
+};
+
+export const detectDateOrder = (values: any[]): DateOrder | null => {
+  const votes = dateOrderVotes(values);
+  if (votes.MDY === 0 && votes.DMY === 0) return votes.YMD > 0 ? 'YMD' : null;
+  return votes.DMY > votes.MDY ? 'DMY' : 'MDY';
+};
+
+type SeparatorVote = { decimal?: '.' | ','; thousands?: FileLocale['thousandsSeparator'] };
+
+const separatorVote = (val: any): SeparatorVote | null => {
+  if (typeof val !== 'string') return null;
+  const str = val.trim().replace(/^\(|\)$/g, '').replace(/[^\d.,'\s-]/g, '').trim();
+  if (!/\d/.test(str)) return null;
+  const thousands = /\d'\d{3}/.test(str) ? "'" : /\d\s\d{3}/.test(str) ? ' ' : undefined;
+  const lastDot = str.lastIndexOf('.');
+  const lastComma = str.lastIndexOf(',');
+  if (lastDot >= 0 && lastComma >= 0) {
+    return lastComma > lastDot ? { decimal: ',', thousands: thousands || '.' } : { decimal: '.', thousands: thousands || ',' };
+  }
+  const sep = lastDot >= 0 ? '.' : lastComma >= 0 ? ',' : null;
+  if (!sep) return thousands ? { thousands } : null;
+  const occurrences = str.split(sep).length - 1;
+  const digitsAfter = str.length - str.lastIndexOf(sep) - 1;
+  // "1.234.567" can only be grouping; "12,5" can only be a decimal part.
+  // "1,234" on its own could be either, so it does not vote.
+  if (occurrences > 1) return { decimal: sep === '.' ? ',' : '.', thousands: sep };
+  if (digitsAfter !== 3) return { decimal: sep, ...(thousands ? { thousands } : {}) };
+  return thousands ? { thousands } : null;
+};
+
+export const detectNumberFormat = (values: any[]): Pick<FileLocale, 'decimalSeparator' | 'thousandsSeparator'> | null => {
+  const decimal = { '.': 0, ',': 0 };
+  const thousands: Record<string, number> = {};
+  values.forEach(v => {
+    const vote = separatorVote(v);
+    if (vote?.decimal) decimal[vote.decimal]++;
+    if (vote?.thousands) thousands[vote.thousands] = (thousands[vote.thousands] || 0) + 1;
+  });
+  if (!decimal['.'] && !decimal[','] && !Object.keys(thousands).length) return null;
+  const decimalSeparator = decimal[','] > decimal['.'] ? ',' : '.';
+  const grouping = Object.keys(thousands)
+    .filter(t => t !== decimalSeparator)
+    .sort((x, y) => thousands[y] - thousands[x])[0] as FileLocale['thousandsSeparator'] | undefined;
+  return { decimalSeparator, thousandsSeparator: grouping ?? (decimalSeparator === ',' ? '.' : ',') };
+};
+
+const SAMPLE_SIZE = 500;
+
+const columnValues = (rows: any[], headers: string[]) =>
+  rows.slice(0, SAMPLE_SIZE).flatMap(row => headers.filter(Boolean).map(h => row[h]));
+
+// Samples the mapped date and amount columns; anything the sample does not
+// settle keeps the default.
+export const detectLocale = (rows: any[], dateHeaders: string[], amountHeaders: string[]): FileLocale => {
+  const dateOrder = detectDateOrder(columnValues(rows, dateHeaders));
+  const numbers = detectNumberFormat(columnValues(rows, amountHeaders));
+  return {
+    ...DEFAULT_FILE_LOCALE,
+    ...(dateOrder ? { dateOrder } : {}),
+    ...(numbers || {})
+  };
+};
+
+// ---- Ambiguity -----------------------------------------------------------
+
+export interface DateAmbiguity {
+  row: number;          // 1-based data row
+  value: string;
+  parsed: string | null;  // under the file's date order
+  alternative: string;    // under the other day/month order
+}
+
+export interface DateColumnCheck {
+  ambiguous: DateAmbiguity[]; // valid either way, but different dates
+  conflicts: DateAmbiguity[]; // only valid under the other order
+  confirmed: boolean;         // some values only make sense under the file's order
+}
+
+export const checkDateColumn = (rows: any[], header: string, order: DateOrder): DateColumnCheck => {
+  const result: DateColumnCheck = { ambiguous: [], conflicts: [], confirmed: false };
+  if (!header || order === 'YMD') return result;
+  const other: DateOrder = order === 'MDY' ? 'DMY' : 'MDY';
+  rows.forEach((row, i) => {
+    const parts = numericParts(row[header]);
+    if (!parts || parts[0].length === 4) return;
+    const parsed = fromParts(parts, order);
+    const alternative = fromParts(parts, other);
+    const entry = { row: i + 1, value: String(row[header]).trim(), parsed };
+    if (parsed && !alternative) result.confirmed = true;
+    else if (!parsed && alternative) result.conflicts.push({ ...entry, alternative });
+    else if (parsed && alternative && parsed !== alternative) result.ambiguous.push({ ...entry, alternative });
+  });
+  return result;
+};
@@ -0,0 +1,144 @@
+import { FileLocale, MappingProfile, SourceFile, SourceKind, SourceMapping } from '../types';
+import { DEFAULT_FILE_LOCALE } from '../constants';
+import { downloadJson, readJsonFile } from './download';
+import { findPreset } from './importPresets';
+
+// Exports from the same system always carry the same columns, so the set of
+// headers identifies the layout. Order, case and surrounding spaces are
+// ignored: some tools reorder columns between exports.
+export const sourceHeaders = (rows: any[]): string[] => rows.length ? Object.keys(rows[0]) : [];
+
+export const headerFingerprint = (kind: SourceKind, headers: string[]): string => {
+  const normalized = Array.from(new Set(headers.map(h => h.trim().toLowerCase()).filter(Boolean))).sort();
+  // FNV-1a keeps the key short enough to show and compare by eye
+  let hash = 0x811c9dc5;
+  for (const ch of normalized.join('\u001f')) {
+    hash ^= ch.charCodeAt(0);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return `${kind}:${normalized.length}:${hash.toString(16).padStart(8, '0')}`;
+};
+
+export const fileFingerprint = (file: SourceFile) => headerFingerprint(file.kind, sourceHeaders(file.rows));
+
+// Most recently saved profile for this file's layout
+export const findProfile = (profiles: MappingProfile[], file: SourceFile): MappingProfile | undefined => {
+  const fingerprint = fileFingerprint(file);
+  return profiles
+    .filter(p => p.kind === file.kind && p.fingerprint === fingerprint)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))[0];
+};
+
+// The profile's mapping, pointed at this file's own spelling of each header
+export const applyProfile = (profile: MappingProfile, file: SourceFile): SourceMapping => {
+  const headers = new Map(sourceHeaders(file.rows).map(h => [h.trim().toLowerCase(), h]));
+  const fields: Record<string, string> = {};
+  Object.entries(profile.fields).forEach(([field, header]) => {
+    fields[field] = header ? headers.get(header.trim().toLowerCase()) || '' : '';
+  });
+  return {
+    fields,
+    ...(profile.expressions ? { expressions: { ...profile.expressions } } : {}),
+    locale: profile.locale,
+    ...(profile.preset ? { preset: profile.preset } : {})
+  };
+};
+
+// Whether the file's current mapping is what the profile would give it
+export const profileMatches = (profile: MappingProfile, file: SourceFile, mapping: SourceMapping): boolean => {
+  const applied = applyProfile(profile, file);
+  const sameEntries = (a: Record<string, string> = {}, b: Record<string, string> = {}) =>
+    Array.from(new Set([...Object.keys(a), ...Object.keys(b)])).every(k => (a[k] || '') === (b[k] || ''));
+  return applied.preset === mapping.preset &&
+    sameEntries(applied.fields, mapping.fields) &&
+    sameEntries(applied.expressions, mapping.expressions) &&
+    (Object.keys(applied.locale) as (keyof FileLocale)[]).every(k => applied.locale[k] === mapping.locale[k]);
+};
+
+export const createProfile = (name: string, file: SourceFile, mapping: SourceMapping): MappingProfile => ({
+  id: Math.random().toString(36).substring(2, 9),
+  name: name.trim() || file.name,
+  kind: file.kind,
+  fingerprint: fileFingerprint(file),
+  headers: sourceHeaders(file.rows),
+  fields: { ...mapping.fields },
+  ...(mapping.expressions && Object.keys(mapping.expressions).length ? { expressions: { ...mapping.expressions } } : {}),
+  locale: mapping.locale,
+  ...(file.kind === 'ota' && file.channel ? { channel: file.channel } : {}),
+  ...(mapping.preset ? { preset: mapping.preset } : {}),
+  updatedAt: new Date().toISOString()
+});
+
+// Saving over an existing profile keeps its id and name
+export const upsertProfile = (profiles: MappingProfile[], profile: MappingProfile): MappingProfile[] => {
+  const existing = profiles.find(p => p.id === profile.id);
+  return existing
+    ? profiles.map(p => p.id === profile.id ? profile : p)
+    : [...profiles, profile];
+};
+
+const DATE_ORDERS = ['MDY', 'DMY', 'YMD'];
+const DECIMAL_SEPARATORS = ['.', ','];
+const THOUSANDS_SEPARATORS = [',', '.', ' ', "'", ''];
+
+const normalizeLocale = (raw: any): FileLocale => ({
+  dateOrder: DATE_ORDERS.includes(raw?.dateOrder) ? raw.dateOrder : DEFAULT_FILE_LOCALE.dateOrder,
+  decimalSeparator: DECIMAL_SEPARATORS.includes(raw?.decimalSeparator) ? raw.decimalSeparator : DEFAULT_FILE_LOCALE.decimalSeparator,
+  thousandsSeparator: THOUSANDS_SEPARATORS.includes(raw?.thousandsSeparator) && raw.thousandsSeparator !== raw.decimalSeparator
+    ? raw.thousandsSeparator
+    : DEFAULT_FILE_LOCALE.thousandsSeparator
+});
+
+// Accepts either a bare array or { profiles: [...] }. Entries without a kind,
+// fingerprint or field map are skipped; ids are regenerated when missing or
+// duplicated.
+export const normalizeProfiles = (raw: any): MappingProfile[] => {
+  const list = Array.isArray(raw) ? raw : Array.isArray(raw?.profiles) ? raw.profiles : null;
+  if (!list) throw new Error('File does not contain a list of mapping profiles.');
+
+  const seen = new Set<string>();
+  return list
+    .filter((p: any) =>
+      p && typeof p === 'object' &&
+      (p.kind === 'ota' || p.kind === 'gl') &&
+      typeof p.fingerprint === 'string' &&
+      p.fields && typeof p.fields === 'object'
+    )
+    .map((p: any): MappingProfile => {
+      const strings = (raw: any) => {
+        const out: Record<string, string> = {};
+        Object.entries(raw && typeof raw === 'object' ? raw : {}).forEach(([key, value]) => {
+          if (typeof value === 'string') out[key] = value;
+        });
+        return out;
+      };
+      const fields = strings(p.fields);
+      const expressions = strings(p.expressions);
+      const id = typeof p.id === 'string' && p.id && !seen.has(p.id) ? p.id : Math.random().toString(36).substring(2, 9);
+      seen.add(id);
+      return {
+        id,
+        name: typeof p.name === 'string' && p.name.trim() ? p.name.trim() : 'Imported profile',
+        kind: p.kind,
+        fingerprint: p.fingerprint,
+        headers: Array.isArray(p.headers) ? p.headers.filter((h: any) => typeof h === 'string') : [],
+        fields,
+        ...(Object.keys(expressions).length ? { expressions } : {}),
+        locale: normalizeLocale(p.locale),
+        ...(typeof p.channel === 'string' && p.channel.trim() ? { channel: p.channel.trim() } : {}),
+        ...(findPreset(p.preset)?.kind === p.kind ? { preset: p.preset } : {}),
+        updatedAt: typeof p.updatedAt === 'string' ? p.updatedAt : new Date(0).toISOString()
+      };
+    });
+};
+
+// Imported profiles replace same-id profiles and are appended otherwise
+export const mergeProfiles = (current: MappingProfile[], imported: MappingProfile[]): MappingProfile[] =>
+  [...current.filter(p => !imported.some(i => i.id === p.id)), ...imported];
+
+export const importProfilesFile = async (file: File): Promise<MappingProfile[]> =>
+  normalizeProfiles(await readJsonFile(file));
+
+export const exportProfilesFile = (profiles: MappingProfile[]) => {
+  downloadJson({ version: 1, profiles }, `str-mapping-profiles-${new Date().toISOString().slice(0, 10)}.json`);
+};
@@ -0,0 +1,77 @@
+// Currency-aware formatting and rounding. Amounts are held as plain numbers in
+// the statement currency; these helpers are the only place a currency symbol
+// or a number of decimal places is decided.
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+const formatterFor = (currency: string, whole: boolean): Intl.NumberFormat | null => {
+  const key = `${currency}|${whole}`;
+  if (!formatters.has(key)) {
+    try {
+      formatters.set(key, new Intl.NumberFormat(undefined, {
+        style: 'currency',
+        currency,
+        ...(whole ? { minimumFractionDigits: 0, maximumFractionDigits: 0 } : {})
+      }));
+    } catch {
+      return null; // not an ISO 4217 code
+    }
+  }
+  return formatters.get(key)!;
+};
+
+// Minor units: 2 for USD/EUR, 0 for JPY, 3 for KWD...
+export const currencyDigits = (currency: string): number =>
+  formatterFor(currency, false)?.resolvedOptions().maximumFractionDigits ?? 2;
+
+export const roundMoney = (amount: number, currency: string): number => {
+  const factor = Math.pow(10, currencyDigits(currency));
+  return Math.round(amount * factor) / factor;
+};
+
+export const formatMoney = (amount: number, currency: string, options: { whole?: boolean } = {}): string => {
+  const formatter = formatterFor(currency, !!options.whole);
+  if (formatter) return formatter.format(amount);
+  const digits = options.whole ? 0 : 2;
+  return `${currency} ${amount.toLocaleString(undefined, { minimumFractionDigits: digits, maximumFractionDigits: digits })}`;
+};
+
+// ---- Detection -----------------------------------------------------------
+
+export const COMMON_CURRENCIES = ['USD', 'EUR', 'GBP', 'CAD', 'AUD', 'NZD', 'CHF', 'JPY', 'MXN', 'ZAR', 'SEK', 'NOK', 'DKK'];
+
+const DOLLAR_CURRENCIES = ['USD', 'CAD', 'AUD', 'NZD', 'SGD', 'HKD', 'MXN'];
+
+// Longest first, so "NZ$" wins over "$"
+const SYMBOLS: [string, string][] = [
+  ['NZ$', 'NZD'], ['A$', 'AUD'], ['C$', 'CAD'], ['R$', 'BRL'], ['HK$', 'HKD'], ['S$', 'SGD'],
+  ['€', 'EUR'], ['£', 'GBP'], ['¥', 'JPY'], ['₹', 'INR'], ['₩', 'KRW'], ['₪', 'ILS']
+];
+
+const NAMES: Record<string, string> = {
+  euro: 'EUR', euros: 'EUR', pound: 'GBP', pounds: 'GBP', sterling: 'GBP', dollar: 'USD', dollars: 'USD', yen: 'JPY'
+};
+
+// A mapped currency cell: "eur", "EUR", "€", "Euro"
+export const normalizeCurrency = (value: any): string | undefined => {
+  const text = String(value ?? '').trim();
+  if (!text) return undefined;
+  if (/^[A-Za-z]{3}$/.test(text)) return text.toUpperCase();
+  if (NAMES[text.toLowerCase()]) return NAMES[text.toLowerCase()];
+  return detectCurrency(text);
+};
+
+// Currency carried inside an amount cell: "€1.200,00", "1,200.00 GBP", "$85".
+// A bare "$" is ambiguous, so it resolves to the statement currency when that
+// is a dollar currency.
+export const detectCurrency = (value: any, statementCurrency?: string): string | undefined => {
+  if (typeof value !== 'string') return undefined;
+  const code = value.match(/\b([A-Z]{3})\b/);
+  if (code && formatterFor(code[1], false)) return code[1];
+  const symbol = SYMBOLS.find(([s]) => value.includes(s));
+  if (symbol) return symbol[1];
+  if (value.includes('$')) {
+    return statementCurrency && DOLLAR_CURRENCIES.includes(statementCurrency) ? statementCurrency : 'USD';
+  }
+  return undefined;
+};
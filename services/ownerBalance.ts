@@ -0,0 +1,67 @@
+import { BalanceSettings, IssuedStatement, OwnerBalance } from '../types';
+
+// Carry-forward between statements. Each statement opens with the previous
+// finalized statement's closing balance for the same subject (property,
+// roll-up or single owner), adds the period's activity and anything the owner
+// paid in, then pays out whatever exceeds the reserve the manager holds.
+// A deficit is never paid out; it is carried into the next statement.
+
+// Latest statement in force for this subject whose period ended before this
+// one starts. Credited and superseded versions are skipped.
+export const findPriorStatement = (
+  ledger: IssuedStatement[],
+  subject: string,
+  periodStart: string
+): IssuedStatement | undefined =>
+  ledger
+    .filter(s =>
+      s.kind !== 'credit_note' &&
+      s.status === 'final' &&
+      s.subject === subject &&
+      !!s.periodEnd &&
+      (!periodStart || s.periodEnd < periodStart)
+    )
+    .sort((a, b) => b.periodEnd.localeCompare(a.periodEnd))[0];
+
+export const computeOwnerBalance = (
+  activity: number,
+  settings: BalanceSettings,
+  prior?: IssuedStatement
+): OwnerBalance => {
+  let openingBalance = 0;
+  let openingSource: OwnerBalance['openingSource'] = 'none';
+  if (settings.manualOpeningBalance) {
+    openingBalance = settings.openingBalance || 0;
+    openingSource = 'manual';
+  } else if (prior?.balance) {
+    openingBalance = prior.balance.closingBalance;
+    openingSource = 'ledger';
+  } else if (prior) {
+    // Finalized before balances were tracked: everything was paid out
+    openingSource = 'ledger';
+  }
+
+  const paymentsReceived = settings.ownerPaymentsReceived || 0;
+  const available = openingBalance + activity + paymentsReceived;
+  const reserveTarget = Math.max(0, settings.reserveTarget || 0);
+  const reserveHeld = Math.min(Math.max(available, 0), reserveTarget);
+  const paymentToOwner = Math.max(available - reserveTarget, 0);
+
+  return {
+    openingBalance,
+    openingSource,
+    priorNumber: openingSource === 'ledger' ? prior?.number : undefined,
+    activity,
+    paymentsReceived,
+    available,
+    reserveHeld,
+    paymentToOwner,
+    closingBalance: available - paymentToOwner
+  };
+};
+
+// Oldest first, for the running owner ledger
+export const balanceHistory = (ledger: IssuedStatement[], subject: string): IssuedStatement[] =>
+  ledger
+    .filter(s => s.kind !== 'credit_note' && s.status === 'final' && s.subject === subject && s.balance)
+    .sort((a, b) => a.periodEnd.localeCompare(b.periodEnd));
@@ -0,0 +1,111 @@
+import {
+  CanonicalGlRow,
+  ConfigState,
+  ProcessedDataState,
+  PropertyConfig
+} from '../types';
+import { summarizeReconciliation } from './reconciliation';
+import { recognizedBooking } from './recognition';
+
+export const UNASSIGNED_PROPERTY_ID = '';
+
+export const createProperty = (name = ''): PropertyConfig => ({
+  id: Math.random().toString(36).substring(2, 9),
+  name,
+  listingIds: [],
+  ownerName: '',
+  ownerId: '',
+  mgmtFeePercent: 20,
+  feeBaseMode: 'gross_revenue'
+});
+
+// Builds a lookup that turns a raw cell (listing ID, tracking code or property
+// name) into a property id. Matching is case-insensitive and whitespace-trimmed.
+export const buildPropertyResolver = (properties: PropertyConfig[]) => {
+  const lookup = new Map<string, string>();
+  properties.forEach(p => {
+    [p.id, p.name, ...p.listingIds].forEach(key => {
+      const normalized = String(key || '').trim().toLowerCase();
+      if (normalized && !lookup.has(normalized)) lookup.set(normalized, p.id);
+    });
+  });
+
+  return (val: any): string | undefined => {
+    const normalized = String(val ?? '').trim().toLowerCase();
+    if (!normalized) return undefined;
+    return lookup.get(normalized);
+  };
+};
+
+// The key an owner's statement history and numbering are kept under. It is
+// taken from the name when the name is first entered, so correcting the name
+// later does not split the history; until then the name itself serves.
+export const ownerKey = (owner: Pick<ConfigState, 'ownerName' | 'ownerId'>): string =>
+  owner.ownerId.trim() || owner.ownerName.trim();
+
+const propertyOwner = (config: ConfigState, property: PropertyConfig) =>
+  property.ownerName
+    ? { id: ownerKey(property), name: property.ownerName }
+    : { id: ownerKey(config), name: config.ownerName };
+
+// Effective config for one property's statement: the property's owner and fee
+// terms override the defaults entered on the Load step.
+export const configForProperty = (config: ConfigState, property: PropertyConfig): ConfigState => ({
+  ...config,
+  ownerName: property.ownerName || config.ownerName,
+  ownerId: propertyOwner(config, property).id,
+  mgmtFeePercent: property.mgmtFeePercent,
+  feeBaseMode: property.feeBaseMode,
+  feeModel: property.feeModel || config.feeModel
+});
+
+// Distinct owners across the portfolio, in property order, named as on
+// their first property
+export const portfolioOwners = (config: ConfigState): { id: string; name: string }[] => {
+  const owners: { id: string; name: string }[] = [];
+  config.properties.forEach(p => {
+    const owner = propertyOwner(config, p);
+    if (owner.id && !owners.some(o => o.id === owner.id)) owners.push(owner);
+  });
+  return owners;
+};
+
+export const propertiesForOwner = (config: ConfigState, ownerId: string): PropertyConfig[] =>
+  config.properties.filter(p => propertyOwner(config, p).id === ownerId);
+
+// Restricts processed data to a single property, recomputing stats from the
+// remaining bookings so the slice can be rendered as a standalone statement.
+export const sliceByProperty = (data: ProcessedDataState, propertyId: string): ProcessedDataState => {
+  const keep = <T extends { property_id?: string }>(rows: T[]) =>
+    rows.filter(r => (r.property_id || UNASSIGNED_PROPERTY_ID) === propertyId);
+
+  const otaBookings = keep(data.otaBookings);
+  const glIncome = keep(data.glIncome);
+
+  return {
+    otaBookings,
+    glIncome,
+    glExpenses: keep(data.glExpenses),
+    reviewRows: keep(data.reviewRows),
+    autoReimbursables: keep(data.autoReimbursables),
+    diagnostics: data.diagnostics,
+    dismissedDuplicates: data.dismissedDuplicates,
+    stats: {
+      totalOtaRevenue: otaBookings.reduce((sum, r) => sum + recognizedBooking(r).gross_amount, 0),
+      totalOtaNet: otaBookings.reduce((sum, r) => sum + recognizedBooking(r).net_payout, 0),
+      ...summarizeReconciliation(otaBookings),
+      untaggedCount: 0
+    }
+  };
+};
+
+export const splitByProperty = (data: ProcessedDataState, config: ConfigState): Record<string, ProcessedDataState> => {
+  const result: Record<string, ProcessedDataState> = {};
+  config.properties.forEach(p => {
+    result[p.id] = sliceByProperty(data, p.id);
+  });
+  return result;
+};
+
+export const countUntagged = (otaRows: { property_id?: string }[], glRows: CanonicalGlRow[]): number =>
+  [...otaRows, ...glRows].filter(r => !r.property_id).length;
@@ -1,84 +1,163 @@
 import { v4 as uuidv4 } from 'uuid'; 
-import { addDays, subDays, isValid } from 'date-fns';
+import { isValid } from 'date-fns';
 import { 
   CanonicalGlRow, 
   CanonicalOtaRow, 
   ConfigState, 
   ExpenseCategory, 
+  FileLocale,
   FilesState, 
+  ImportPresetId,
+  MappingProfile,
   MappingState, 
-  ProcessedDataState 
+  RowDiagnostic,
+  ProcessedDataState,
+  SourceFile,
+  SourceKind,
+  SourceMapping
 } from '../types';
+import { buildPropertyResolver, countUntagged } from './portfolio';
+import { reconcile, summarizeReconciliation } from './reconciliation';
+import { classifyRow } from './classificationRules';
+import { convertGlRow, convertOtaRow } from './exchangeRates';
+import { detectCurrency, normalizeCurrency, roundMoney } from './money';
+import { detectLocale, parseAmount, parseDate, tryParseAmount } from './locale';
+import { applyProfile, findProfile } from './mappingProfiles';
+import { detectPreset, findPreset, ImportPreset, prepareRows, presetMapping } from './importPresets';
+import { applyExpressions, isExpressionError } from './expressions';
+import { checkOutAfter, prorateBooking, recognitionDate, recognizedBooking, stayNights } from './recognition';
+import { classifyLineType, isReservation, linkAdjustments, signAdjustment } from './adjustments';
+import { componentMismatch } from './bookingComponents';
+import { AMOUNT_FIELDS, DATE_FIELDS, DEFAULT_FILE_LOCALE } from '../constants';
 
-// Helper for loose date parsing
-const parseDateLoose = (val: any): string | null => {
-  if (!val) return null;
-  // If it's Excel serial date
-  if (typeof val === 'number') {
-    // Excel date to JS date
-    const date = new Date(Math.round((val - 25569) * 86400 * 1000));
-    return isValid(date) ? date.toISOString().split('T')[0] : null;
+// Generate random ID
+const genId = () => Math.random().toString(36).substring(2, 9);
+
+// Keywords per field, strongest first
+const FIELD_KEYWORDS: Record<SourceKind, Record<string, string[]>> = {
+  ota: {
+    reservation_id: ['reservation id', 'confirmation code', 'booking id', 'reservation', 'confirmation', 'reference', 'booking number', 'id'],
+    check_in_date: ['check in', 'checkin', 'arrival', 'start date', 'start'],
+    check_out_date: ['check out', 'checkout', 'departure', 'end date', 'end'],
+    nights: ['nights', 'number of nights', 'length of stay'],
+    net_payout: ['net payout', 'payout amount', 'net amount', 'net', 'payout', 'paid out'],
+    payout_date: ['payout date', 'paid on', 'payment date', 'date paid'],
+    booking_date: ['booking date', 'booked on', 'booked date', 'reservation date', 'booked'],
+    line_type: ['line type', 'transaction type', 'type'],
+    guest_name: ['guest name', 'guest', 'name'],
+    gross_amount: ['gross amount', 'gross earnings', 'gross', 'total amount', 'amount', 'total'],
+    ota_fees: ['host fee', 'service fee', 'commission', 'fee', 'fees', 'charge'],
+    accommodation_amount: ['accommodation', 'nightly rate', 'room rate', 'base rate', 'rent'],
+    cleaning_fee: ['cleaning fee', 'cleaning'],
+    pet_fee: ['pet fee', 'pet'],
+    extra_guest_fee: ['extra guest fee', 'additional guest fee', 'extra guest', 'additional guest'],
+    lodging_tax: ['occupancy tax', 'lodging tax', 'occupancy', 'lodging', 'tax', 'taxes'],
+    ota_remitted_tax: ['remitted tax', 'pass through tax', 'remitted', 'pass through', 'facilitator'],
+    channel: ['channel', 'platform'],
+    property: ['listing', 'property', 'unit'],
+    currency: ['currency']
+  },
+  gl: {
+    date: ['date', 'transaction date', 'posted', 'posting date'],
+    account_name: ['account name', 'account', 'category', 'account code', 'code'],
+    description: ['description', 'details', 'detail', 'memo', 'narrative'],
+    contact: ['contact', 'payee', 'payer', 'vendor', 'name'],
+    debit_amount: ['debit', 'money out', 'withdrawal', 'spent', 'expense', 'amount'],
+    credit_amount: ['credit', 'money in', 'deposit', 'received', 'income', 'amount'],
+    source_type: ['source type', 'source', 'type'],
+    property: ['property', 'tracking', 'listing', 'class'],
+    currency: ['currency']
   }
-  // Try string parsing
-  const str = String(val).trim();
-  const d = new Date(str);
-  if (isValid(d)) return d.toISOString().split('T')[0];
-  
-  return null;
 };
 
-const parseNumber = (val: any): number => {
-  if (typeof val === 'number') return val;
-  if (!val) return 0;
-  
-  let str = String(val).trim();
-  
-  // Handle accounting format (123.45) which means negative
-  const isNegative = str.startsWith('(') && str.endsWith(')');
-  
-  // Remove non-numeric characters except dot and minus
-  str = str.replace(/[^0-9.-]/g, '');
-  
-  const num = parseFloat(str);
-  if (isNaN(num)) return 0;
-  
-  return isNegative ? -Math.abs(num) : num;
+// One column mapped to both amounts is read as a signed single column
+const SHARED_FIELDS = [['debit_amount', 'credit_amount']];
+
+const words = (text: string) => ` ${text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()} `;
+
+// 3: the header is the keyword; 2: the keyword appears as whole words
+// ("id" in "Booking ID", never in "Paid on"); 1: a long keyword inside a
+// word ("checkin" in "CheckinDate").
+const matchScore = (header: string, keyword: string) => {
+  const h = words(header);
+  const k = words(keyword);
+  if (h === k) return 3;
+  if (h.includes(k)) return 2;
+  return k.trim().length >= 5 && h.replace(/ /g, '').includes(k.replace(/ /g, '')) ? 1 : 0;
 };
 
-// Generate random ID
-const genId = () => Math.random().toString(36).substring(2, 9);
+// Candidates are taken best first, and a header already taken by one field
+// is not offered to another (a "Cleaning fee" column is not also the OTA
+// fee), so each guess is made with the rest in view.
+const guessFields = (kind: SourceKind, rows: any[]): Record<string, string> => {
+  const headers = rows.length > 0 ? Object.keys(rows[0]) : [];
+  const keywords = FIELD_KEYWORDS[kind];
+  const fieldOrder = Object.keys(keywords);
+  const candidates: { field: string; header: string; score: number; rank: number }[] = [];
+  fieldOrder.forEach(field => {
+    headers.forEach(header => {
+      keywords[field].forEach((keyword, rank) => {
+        const score = matchScore(header, keyword);
+        if (score) candidates.push({ field, header, score, rank });
+      });
+    });
+  });
+  candidates.sort((a, b) => b.score - a.score || a.rank - b.rank || fieldOrder.indexOf(a.field) - fieldOrder.indexOf(b.field));
 
-export const generateInitialMappings = (otaData: any[], glData: any[]): MappingState => {
-  const otaHeaders = otaData.length > 0 ? Object.keys(otaData[0]) : [];
-  const glHeaders = glData.length > 0 ? Object.keys(glData[0]) : [];
+  const fields: Record<string, string> = Object.fromEntries(fieldOrder.map(f => [f, '']));
+  const takenBy = new Map<string, string>(); // header -> field
+  candidates.forEach(({ field, header }) => {
+    if (fields[field]) return;
+    const owner = takenBy.get(header);
+    if (owner && !SHARED_FIELDS.some(group => group.includes(owner) && group.includes(field))) return;
+    fields[field] = header;
+    if (!owner) takenBy.set(header, field);
+  });
+  return fields;
+};
 
-  const findMatch = (headers: string[], keywords: string[]) => {
-    return headers.find(h => 
-      keywords.some(k => h.toLowerCase().includes(k.toLowerCase()))
-    ) || '';
-  };
+// Locale of a file, sampled from the columns mapped as dates and amounts
+export const detectSourceLocale = (file: SourceFile, fields: Record<string, string>): FileLocale =>
+  detectLocale(file.rows, DATE_FIELDS[file.kind].map(f => fields[f]), AMOUNT_FIELDS[file.kind].map(f => fields[f]));
 
-  return {
-    ota: {
-      reservation_id: findMatch(otaHeaders, ['reference', 'booking', 'id']),
-      check_in_date: findMatch(otaHeaders, ['check-in', 'check in', 'start']),
-      check_out_date: findMatch(otaHeaders, ['checkout', 'check out', 'end']),
-      net_payout: findMatch(otaHeaders, ['net', 'payout']),
-      payout_date: findMatch(otaHeaders, ['payout date', 'paid on']),
-      guest_name: findMatch(otaHeaders, ['guest', 'name']),
-      gross_amount: findMatch(otaHeaders, ['amount', 'gross', 'total']),
-      ota_fees: findMatch(otaHeaders, ['commission', 'fee', 'charge'])
-    },
-    gl: {
-      date: findMatch(glHeaders, ['date']),
-      account_name: findMatch(glHeaders, ['account', 'code']),
-      description: findMatch(glHeaders, ['description', 'detail']),
-      contact: findMatch(glHeaders, ['contact', 'payee', 'payer']),
-      debit_amount: findMatch(glHeaders, ['debit', 'expense', 'out', 'amount']),
-      credit_amount: findMatch(glHeaders, ['credit', 'income', 'in', 'amount']),
-      source_type: findMatch(glHeaders, ['source'])
-    }
-  };
+// The preset's columns, with guesses for fields it has no column for
+export const presetSourceMapping = (preset: ImportPreset, file: SourceFile): SourceMapping => {
+  const mapping = presetMapping(preset, file);
+  const used = new Set(Object.values(mapping.fields));
+  const guessed = Object.fromEntries(
+    Object.entries(guessFields(file.kind, file.rows)).map(([field, header]) => [field, used.has(header) ? '' : header])
+  );
+  return { ...mapping, fields: { ...guessed, ...mapping.fields } };
+};
+
+// A preset picked for the file, then a saved profile for its header set,
+// then a preset recognised from its headers, then guessing. A choice of
+// null turns preset detection off for the file.
+export const initialSourceMapping = (
+  file: SourceFile,
+  profiles: MappingProfile[] = [],
+  presetChoice?: ImportPresetId | null
+): SourceMapping => {
+  const chosen = findPreset(presetChoice);
+  if (chosen && chosen.kind === file.kind) return presetSourceMapping(chosen, file);
+  const profile = findProfile(profiles, file);
+  if (profile) return applyProfile(profile, file);
+  const detected = presetChoice === null ? undefined : detectPreset(file);
+  if (detected) return presetSourceMapping(detected, file);
+  const fields = guessFields(file.kind, file.rows);
+  return { fields, locale: detectSourceLocale(file, fields) };
+};
+
+export const generateInitialMappings = (
+  files: Pick<FilesState, 'ota' | 'gl'>,
+  profiles: MappingProfile[] = [],
+  presetChoices: Record<string, ImportPresetId | null> = {}
+): MappingState => {
+  const sources: Record<string, SourceMapping> = {};
+  [...files.ota, ...files.gl].forEach(file => {
+    sources[file.id] = initialSourceMapping(file, profiles, presetChoices[file.id]);
+  });
+  return { sources };
 };
 
 export const processData = (
@@ -90,141 +169,244 @@ export const processData = (
   const start = new Date(periodStart);
   const end = new Date(periodEnd);
 
-  // 1. Normalize OTA Data
-  const otaBookings: CanonicalOtaRow[] = files.otaRaw
-    .map(row => {
-      const checkIn = parseDateLoose(row[mappings.ota.check_in_date]);
-      const payoutDate = parseDateLoose(row[mappings.ota.payout_date]);
-      
-      return {
-        id: genId(),
-        reservation_id: String(row[mappings.ota.reservation_id] || ''),
-        check_in_date: checkIn || '',
-        check_out_date: parseDateLoose(row[mappings.ota.check_out_date]) || undefined,
-        guest_name: String(row[mappings.ota.guest_name] || ''),
-        gross_amount: parseNumber(row[mappings.ota.gross_amount]),
-        ota_fees: parseNumber(row[mappings.ota.ota_fees]),
-        net_payout: parseNumber(row[mappings.ota.net_payout]),
-        payout_date: payoutDate || '',
-        originalData: row
-      };
-    })
-    .filter(row => {
-      // Filter by reporting period (check_in or payout date)
-      const d = row.check_in_date ? new Date(row.check_in_date) : (row.payout_date ? new Date(row.payout_date) : null);
-      if (!d || !isValid(d)) return false;
-      return d >= start && d <= end;
-    });
+  // Mapped currency column first, then a symbol or ISO code in the amount
+  // cells, then the statement currency
+  const rowCurrency = (row: any, currencyHeader: string | undefined, amountHeaders: string[]): string =>
+    (currencyHeader && normalizeCurrency(row[currencyHeader])) ||
+    amountHeaders.map(h => detectCurrency(row[h], config.currency)).find(Boolean) ||
+    config.currency;
 
-  // Check if Debit and Credit are mapped to the same column (Single column mode)
-  const isSingleColGl = mappings.gl.debit_amount === mappings.gl.credit_amount && !!mappings.gl.debit_amount;
+  const mappingOf = (file: SourceFile): SourceMapping =>
+    mappings.sources[file.id] || { fields: {}, locale: DEFAULT_FILE_LOCALE };
 
-  // 2. Normalize GL Data
-  const allGlRows: CanonicalGlRow[] = files.glRaw
-    .map(row => {
-      const dateStr = parseDateLoose(row[mappings.gl.date]);
-      const account = String(row[mappings.gl.account_name] || '').trim();
-      
-      // Look up classification
-      let defaultCat: ExpenseCategory | undefined = undefined;
-      const mapEntry = Object.entries(files.classificationMap).find(([k, v]) => k.toLowerCase() === account.toLowerCase());
-      if (mapEntry) {
-        defaultCat = mapEntry[1] as ExpenseCategory;
-      }
+  // In portfolio mode every row is tagged with the property it belongs to
+  const resolveProperty = config.portfolioMode ? buildPropertyResolver(config.properties) : () => undefined;
 
-      let debit = parseNumber(row[mappings.gl.debit_amount]);
-      let credit = parseNumber(row[mappings.gl.credit_amount]);
+  const diagnostics: RowDiagnostic[] = [];
+  const forcedIn = (file: SourceFile) => new Set(files.forcedRows?.[file.id] || []);
+  const cell = (row: any, header: string | undefined) =>
+    header && row[header] !== undefined && row[header] !== null ? String(row[header]).trim() : '';
+  const inPeriod = (date: string) => {
+    const d = new Date(date);
+    return isValid(d) && d >= start && d <= end;
+  };
+  // Preset quirks are applied first and computed fields after, so
+  // expressions see carried-down cells. Row indexes still match file.rows.
+  const readSource = (file: SourceFile) => {
+    const mapping = mappingOf(file);
+    const prepared = prepareRows(file, mapping);
+    const { rows, fields } = applyExpressions(prepared.rows, mapping);
+    return { ...prepared, rows, map: fields, locale: mapping.locale };
+  };
 
-      // Logic for single column or cross-column clean up
-      if (isSingleColGl) {
-        // If single column: Positive usually means Income (Credit) or Expense (Debit) depending on bank.
-        // Standard convention for "Amount" column in many exports:
-        // +ve = Credit (In), -ve = Debit (Out).
-        const val = debit; // Same as credit
-        if (val > 0) {
-          credit = val;
-          debit = 0;
-        } else {
-          debit = Math.abs(val);
-          credit = 0;
+  // Amount cells that hold something but no number
+  const flagAmounts = (file: SourceFile, map: Record<string, string>, locale: FileLocale, row: any, index: number) => {
+    const headers = new Set<string>();
+    AMOUNT_FIELDS[file.kind].forEach(field => {
+      const header = map[field];
+      if (!header || headers.has(header)) return;
+      headers.add(header);
+      if (isExpressionError(row[header]) || tryParseAmount(row[header], locale) === null) {
+        diagnostics.push({ source: file.kind, file: file.id, row: index, field, value: cell(row, header), reason: 'unparsed_amount', dropped: false });
+      }
+    });
+  };
+
+  // 1. Normalize OTA Data. Each file is read with its own mapping and
+  // preset; the file's channel label fills in for rows without a channel
+  // column.
+  const otaOrigin = new Map<string, { file: string; row: number }>(); // booking id -> source row
+  // Adjustment lines are linked to their reservation once every file is read.
+  const otaBookings: CanonicalOtaRow[] = linkAdjustments(files.ota.flatMap(file => {
+    const { rows, skipped, magnitudes, map, locale } = readSource(file);
+    const forced = forcedIn(file);
+    return rows
+      .map((row, index) => {
+        if (!skipped.has(index)) flagAmounts(file, map, locale, row, index);
+        const amount = (field: string) => {
+          const value = parseAmount(row[map[field]], locale);
+          return magnitudes.has(field) ? Math.abs(value) : value;
+        };
+        const checkIn = parseDate(row[map.check_in_date], locale.dateOrder);
+        const payoutDate = parseDate(row[map.payout_date], locale.dateOrder);
+        // Exports without a check-out column (Airbnb's transaction history)
+        // give the stay's length instead
+        const nights = map.nights ? tryParseAmount(row[map.nights], locale) : null;
+        const checkOut = parseDate(row[map.check_out_date], locale.dateOrder) ||
+          (checkIn && nights && nights > 0 && Number.isInteger(nights) ? checkOutAfter(checkIn, nights) : undefined);
+        
+        return {
+          id: genId(),
+          reservation_id: String(row[map.reservation_id] || ''),
+          check_in_date: checkIn || '',
+          check_out_date: checkOut || undefined,
+          booking_date: parseDate(row[map.booking_date], locale.dateOrder) || undefined,
+          line_type: map.line_type ? classifyLineType(cell(row, map.line_type)) : undefined,
+          guest_name: String(row[map.guest_name] || ''),
+          gross_amount: amount('gross_amount'),
+          ota_fees: amount('ota_fees'),
+          net_payout: amount('net_payout'),
+          payout_date: payoutDate || '',
+          accommodation_amount: map.accommodation_amount ? amount('accommodation_amount') : undefined,
+          cleaning_fee: map.cleaning_fee ? amount('cleaning_fee') : undefined,
+          pet_fee: map.pet_fee ? amount('pet_fee') : undefined,
+          extra_guest_fee: map.extra_guest_fee ? amount('extra_guest_fee') : undefined,
+          lodging_tax: map.lodging_tax ? amount('lodging_tax') : undefined,
+          ota_remitted_tax: map.ota_remitted_tax ? amount('ota_remitted_tax') : undefined,
+          channel: cell(row, map.channel) || file.channel?.trim() || undefined,
+          currency: rowCurrency(row, map.currency, [map.net_payout, map.gross_amount]),
+          property_id: resolveProperty(row[map.property]),
+          originalData: row
+        };
+      })
+      .map(row => signAdjustment(convertOtaRow(row, config)))
+      .filter((row, index) => {
+        if (skipped.has(index)) return false;
+        // Filter by reporting period on the date the recognition mode uses.
+        // Prorated stays count if any night falls in the period.
+        const raw = rows[index];
+        const placed = recognitionDate(row, config.recognitionMode);
+        if (cell(raw, map.check_in_date) && !row.check_in_date) {
+          diagnostics.push({ source: 'ota', file: file.id, row: index, field: 'check_in_date', value: cell(raw, map.check_in_date), reason: 'invalid_date', dropped: !placed });
         }
-      } else {
-        // Separate columns.
-        // Handle negative values (refunds/reversals).
-        // If Debit is negative, it's actually Credit.
-        if (debit < 0) {
-          credit += Math.abs(debit);
-          debit = 0;
+        if (!placed) {
+          if (!cell(raw, map.check_in_date)) {
+            diagnostics.push({ source: 'ota', file: file.id, row: index, field: 'payout_date', value: cell(raw, map.payout_date), reason: 'invalid_date', dropped: true });
+          }
+          return false;
         }
-        // If Credit is negative, it's actually Debit.
-        if (credit < 0) {
-          debit += Math.abs(credit);
-          credit = 0;
+        // Adjustments are not spread over the stay's nights
+        const stay = config.recognitionMode === 'nightly' && isReservation(row) && row.check_in_date && row.check_out_date
+          ? stayNights(row.check_in_date, row.check_out_date, periodStart, periodEnd)
+          : null;
+        if (stay ? !stay.periodNights : !inPeriod(placed.date)) {
+          const keep = forced.has(index);
+          diagnostics.push({ source: 'ota', file: file.id, row: index, field: placed.field, value: placed.date, reason: 'out_of_period', dropped: !keep });
+          if (!keep) return false;
+        } else if (stay) {
+          row.recognition = prorateBooking(row, periodStart, periodEnd, config.currency);
         }
-      }
-
-      return {
-        id: genId(),
-        date: dateStr || '',
-        account_name: account,
-        source_type: String(row[mappings.gl.source_type] || ''),
-        description: String(row[mappings.gl.description] || ''),
-        contact: String(row[mappings.gl.contact] || ''),
-        debit_amount: debit,
-        credit_amount: credit,
-        default_category: defaultCat,
-        include_flag: false, // will set logic below
-        is_reconciled_ota: false,
-        originalData: row
-      };
-    })
-    .filter(row => {
-      const d = new Date(row.date);
-      return isValid(d) && d >= start && d <= end;
-    });
+        otaOrigin.set(row.id, { file: file.id, row: index });
+        return true;
+      });
+  }));
 
-  const glIncome = allGlRows.filter(r => r.credit_amount > 0);
-  const glExpenses = allGlRows.filter(r => r.debit_amount > 0);
+  // Bookings that made it onto the statement but look wrong. Adjustments
+  // share their reservation's ID and often have no guest name.
+  const reservationCounts = new Map<string, number>();
+  otaBookings.filter(isReservation).forEach(b => {
+    if (b.reservation_id) reservationCounts.set(b.reservation_id, (reservationCounts.get(b.reservation_id) || 0) + 1);
+  });
+  otaBookings.forEach(b => {
+    const origin = { source: 'ota' as const, ...otaOrigin.get(b.id)! };
+    if (b.gross_amount === 0 && b.net_payout === 0) {
+      diagnostics.push({ ...origin, reason: 'zero_amount', dropped: false });
+    }
+    if (isReservation(b) && (reservationCounts.get(b.reservation_id) || 0) > 1) {
+      diagnostics.push({ ...origin, field: 'reservation_id', value: b.reservation_id, reason: 'duplicate_reservation', dropped: false });
+    }
+    if (isReservation(b) && !b.guest_name.trim()) {
+      diagnostics.push({ ...origin, field: 'guest_name', value: '', reason: 'blank_guest', dropped: false });
+    }
+    const componentTotal = isReservation(b) ? componentMismatch(b) : null;
+    if (componentTotal !== null) {
+      diagnostics.push({ ...origin, field: 'gross_amount', value: `${b.gross_amount} (components total ${roundMoney(componentTotal, config.currency)})`, reason: 'component_mismatch', dropped: false });
+    }
+  });
 
-  // 3. Reconcile OTA Payouts
-  let reconciledCount = 0;
-  
-  otaBookings.forEach(ota => {
-    // Attempt to find GL income row
-    const payoutDate = new Date(ota.payout_date || ota.check_in_date);
-    const minDate = subDays(payoutDate, 3);
-    const maxDate = addDays(payoutDate, 3);
+  // 2. Normalize GL Data
+  const allGlRows: CanonicalGlRow[] = files.gl.flatMap(file => {
+    const { rows, skipped, headings, map, locale } = readSource(file);
+    const forced = forcedIn(file);
+    // Check if Debit and Credit are mapped to the same column (Single column mode)
+    const isSingleColGl = map.debit_amount === map.credit_amount && !!map.debit_amount;
 
-    const match = glIncome.find(gl => {
-      if (gl.is_reconciled_ota) return false;
-      const glDate = new Date(gl.date);
-      if (glDate < minDate || glDate > maxDate) return false;
+    return rows
+      .map((row, index) => {
+        if (!skipped.has(index)) flagAmounts(file, map, locale, row, index);
+        const dateStr = parseDate(row[map.date], locale.dateOrder);
+        const account = (String(row[map.account_name] || '') || headings[index] || '').trim();
+        
+        let debit = parseAmount(row[map.debit_amount], locale);
+        let credit = parseAmount(row[map.credit_amount], locale);
 
-      const amountDiff = Math.abs(gl.credit_amount - ota.net_payout);
-      if (amountDiff > 2) return false;
+        // Logic for single column or cross-column clean up
+        if (isSingleColGl) {
+          // If single column: Positive usually means Income (Credit) or Expense (Debit) depending on bank.
+          // Standard convention for "Amount" column in many exports:
+          // +ve = Credit (In), -ve = Debit (Out).
+          const val = debit; // Same as credit
+          if (val > 0) {
+            credit = val;
+            debit = 0;
+          } else {
+            debit = Math.abs(val);
+            credit = 0;
+          }
+        } else {
+          // Separate columns.
+          // Handle negative values (refunds/reversals).
+          // If Debit is negative, it's actually Credit.
+          if (debit < 0) {
+            credit += Math.abs(debit);
+            debit = 0;
+          }
+          // If Credit is negative, it's actually Debit.
+          if (credit < 0) {
+            debit += Math.abs(credit);
+            credit = 0;
+          }
+        }
 
-      const text = (gl.description + ' ' + gl.contact).toLowerCase();
-      const guest = ota.guest_name.toLowerCase();
-      const ref = ota.reservation_id.toLowerCase();
-      
-      if (text.includes('booking') || text.includes('payout') || (guest && text.includes(guest)) || (ref && text.includes(ref))) {
+        return {
+          id: genId(),
+          date: dateStr || '',
+          account_name: account,
+          source_type: String(row[map.source_type] || ''),
+          description: String(row[map.description] || ''),
+          contact: String(row[map.contact] || ''),
+          debit_amount: debit,
+          credit_amount: credit,
+          currency: rowCurrency(row, map.currency, [map.debit_amount, map.credit_amount]),
+          property_id: resolveProperty(row[map.property]),
+          include_flag: false, // will set logic below
+          is_reconciled_ota: false,
+          originalData: row
+        };
+      })
+      .map(row => convertGlRow(row, config))
+      .filter((row, index) => {
+        if (skipped.has(index)) return false;
+        if (!row.date) {
+          diagnostics.push({ source: 'gl', file: file.id, row: index, field: 'date', value: cell(rows[index], map.date), reason: 'invalid_date', dropped: true });
+          return false;
+        }
+        if (!inPeriod(row.date)) {
+          const keep = forced.has(index);
+          diagnostics.push({ source: 'gl', file: file.id, row: index, field: 'date', value: row.date, reason: 'out_of_period', dropped: !keep });
+          if (!keep) return false;
+        }
+        // Neither income nor expense, so it would not appear anywhere
+        if (row.debit_amount === 0 && row.credit_amount === 0) {
+          diagnostics.push({ source: 'gl', file: file.id, row: index, reason: 'zero_amount', dropped: true });
+        }
         return true;
-      }
-      return false;
-    });
-
-    if (match) {
-      match.is_reconciled_ota = true;
-      match.note = `Reconciled to OTA Booking ${ota.reservation_id}`;
-      reconciledCount++;
-    }
+      });
   });
 
+  const glIncome = allGlRows.filter(r => r.credit_amount > 0);
+  const glExpenses = allGlRows.filter(r => r.debit_amount > 0);
+
+  // 3. Reconcile OTA Payouts (scored, one-to-many aware)
+  reconcile(otaBookings, glIncome);
+
   // 4. Initial Classification Logic for Expenses
   const autoReimbursables: CanonicalGlRow[] = [];
   const reviewRows: CanonicalGlRow[] = [];
 
   glExpenses.forEach(row => {
+    classifyRow(row, files.classificationRules || [], files.classificationMap);
+
     if (row.default_category === ExpenseCategory.REIMBURSABLE) {
       row.assigned_category = ExpenseCategory.REIMBURSABLE;
       row.include_flag = true;
@@ -238,7 +420,9 @@ export const processData = (
        row.include_flag = false; 
     } else {
       row.assigned_category = row.default_category || ExpenseCategory.REVIEW_ALWAYS;
-      row.include_flag = false;
+      // Shared rows pre-classified by a rule still need to reach the invoice
+      row.include_flag = row.assigned_category === ExpenseCategory.SHARED;
+      if (row.include_flag) row.split_percent = row.split_percent ?? 50;
       reviewRows.push(row);
     }
   });
@@ -249,11 +433,13 @@ export const processData = (
     glExpenses,
     reviewRows,
     autoReimbursables,
+    diagnostics,
+    dismissedDuplicates: [],
     stats: {
-      totalOtaRevenue: otaBookings.reduce((sum, r) => sum + r.gross_amount, 0),
-      totalOtaNet: otaBookings.reduce((sum, r) => sum + r.net_payout, 0),
-      reconciledCount,
-      unreconciledCount: otaBookings.length - reconciledCount
+      totalOtaRevenue: otaBookings.reduce((sum, r) => sum + recognizedBooking(r).gross_amount, 0),
+      totalOtaNet: otaBookings.reduce((sum, r) => sum + recognizedBooking(r).net_payout, 0),
+      ...summarizeReconciliation(otaBookings),
+      untaggedCount: config.portfolioMode ? countUntagged(otaBookings, allGlRows) : 0
     }
   };
 };
\ No newline at end of file
@@ -0,0 +1,24 @@
+import { MappingProfile } from '../types';
+import { normalizeProfiles } from './mappingProfiles';
+
+const STORAGE_KEY = 'str-invoicer:mapping-profiles';
+
+// Profiles are kept in the browser, not the session, so next month's export
+// from the same system maps itself.
+export const loadSavedProfiles = (): MappingProfile[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? normalizeProfiles(JSON.parse(raw)) : [];
+  } catch (err) {
+    console.error('Failed to load mapping profiles', err);
+    return [];
+  }
+};
+
+export const saveProfiles = (profiles: MappingProfile[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+  } catch (err) {
+    console.error('Failed to save mapping profiles', err);
+  }
+};
@@ -0,0 +1,106 @@
+import { BookingRecognition, CanonicalOtaRow, RecognitionMode } from '../types';
+import { roundMoney } from './money';
+
+// When a booking counts toward a statement period. By check-in, check-out or
+// payout date the whole booking falls in one period. Prorated by nights, a
+// stay over a period boundary is split: the period gets its share of every
+// amount and the nights after the period end are deferred to later
+// statements. Bookings keep their full amounts (they are what was paid out
+// and what reconciles against the ledger); statements read the period's
+// share through recognizedBooking().
+
+export const RECOGNITION_MODE_LABELS: Record<RecognitionMode, string> = {
+  check_in: 'By check-in date',
+  check_out: 'By check-out date',
+  payout_date: 'By payout date',
+  nightly: 'Prorated by nights stayed'
+};
+
+const DAY_MS = 86400000;
+const dayNumber = (iso: string) => Math.round(Date.parse(`${iso}T00:00:00Z`) / DAY_MS);
+
+export type RecognitionField = 'check_in_date' | 'check_out_date' | 'payout_date';
+
+// The date a booking is placed by, and which field it came from. Each mode
+// falls back to the other dates when its own is missing.
+export const recognitionDate = (
+  booking: Pick<CanonicalOtaRow, 'check_in_date' | 'check_out_date' | 'payout_date'>,
+  mode: RecognitionMode
+): { date: string; field: RecognitionField } | null => {
+  const order: RecognitionField[] =
+    mode === 'check_out' ? ['check_out_date', 'check_in_date', 'payout_date'] :
+    mode === 'payout_date' ? ['payout_date', 'check_in_date'] :
+    ['check_in_date', 'payout_date'];
+  const field = order.find(f => booking[f]);
+  return field ? { date: booking[field]!, field } : null;
+};
+
+// Nights of the stay inside [periodStart, periodEnd]. A night belongs to the
+// date it starts on, so a stay checking out on the 1st has no nights in
+// that month.
+export const stayNights = (checkIn: string, checkOut: string, periodStart: string, periodEnd: string) => {
+  const first = dayNumber(checkIn);
+  const last = dayNumber(checkOut) - 1;
+  const nights = last - first + 1;
+  if (!(nights > 0)) return null;
+  const inside = Math.max(0, Math.min(last, dayNumber(periodEnd)) - Math.max(first, dayNumber(periodStart)) + 1);
+  const later = Math.max(0, last - Math.max(first - 1, dayNumber(periodEnd)));
+  return { nights, periodNights: inside, laterNights: later };
+};
+
+// Check-out of a stay given as a check-in date and a number of nights
+export const checkOutAfter = (checkIn: string, nights: number): string =>
+  new Date((dayNumber(checkIn) + nights) * DAY_MS).toISOString().substring(0, 10);
+
+// The period's share of a booking that runs past the period; undefined
+// when the whole stay is inside it or its nights cannot be counted
+export const prorateBooking = (
+  booking: CanonicalOtaRow,
+  periodStart: string,
+  periodEnd: string,
+  currency: string
+): BookingRecognition | undefined => {
+  if (!booking.check_in_date || !booking.check_out_date) return undefined;
+  const stay = stayNights(booking.check_in_date, booking.check_out_date, periodStart, periodEnd);
+  if (!stay || stay.periodNights === stay.nights) return undefined;
+  const share = (amount: number) => roundMoney(amount * stay.periodNights / stay.nights, currency);
+  const optional = (amount: number | undefined) => amount === undefined ? undefined : share(amount);
+  return {
+    ...stay,
+    gross_amount: share(booking.gross_amount),
+    ota_fees: share(booking.ota_fees),
+    net_payout: share(booking.net_payout),
+    accommodation_amount: optional(booking.accommodation_amount),
+    cleaning_fee: optional(booking.cleaning_fee),
+    pet_fee: optional(booking.pet_fee),
+    extra_guest_fee: optional(booking.extra_guest_fee),
+    lodging_tax: optional(booking.lodging_tax),
+    ota_remitted_tax: optional(booking.ota_remitted_tax)
+  };
+};
+
+// The booking as the statement counts it. Safe to apply more than once.
+export const recognizedBooking = (booking: CanonicalOtaRow): CanonicalOtaRow => {
+  const r = booking.recognition;
+  if (!r) return booking;
+  return {
+    ...booking,
+    gross_amount: r.gross_amount,
+    ota_fees: r.ota_fees,
+    net_payout: r.net_payout,
+    accommodation_amount: r.accommodation_amount,
+    cleaning_fee: r.cleaning_fee,
+    pet_fee: r.pet_fee,
+    extra_guest_fee: r.extra_guest_fee,
+    lodging_tax: r.lodging_tax,
+    ota_remitted_tax: r.ota_remitted_tax
+  };
+};
+
+// Net payout held back for the nights after the period end
+export const deferredNet = (booking: CanonicalOtaRow): number => {
+  const r = booking.recognition;
+  if (!r || !r.laterNights) return 0;
+  const outside = r.nights - r.periodNights;
+  return (booking.net_payout - r.net_payout) * r.laterNights / outside;
+};
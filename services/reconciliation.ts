@@ -0,0 +1,441 @@
+import { differenceInCalendarDays, isValid } from 'date-fns';
+import { CanonicalGlRow, CanonicalOtaRow, MatchRule } from '../types';
+
+// A candidate must clear all of these gates before it is scored at all.
+const AMOUNT_TOLERANCE = 2;
+const DATE_WINDOW_DAYS = 3;
+// Batched deposits land a few days after the earliest payout in the batch,
+// and split payouts (deposit + balance) can be weeks apart.
+const BATCH_WINDOW_DAYS = 5;
+const SPLIT_WINDOW_DAYS = 45;
+const MAX_GROUP_SIZE = 8;
+const MAX_GROUP_CANDIDATES = 16;
+const SUBSET_SEARCH_BUDGET = 20000;
+
+const WEIGHTS = { amount: 0.5, date: 0.2, text: 0.3 };
+const PAYOUT_KEYWORDS = ['booking', 'payout', 'airbnb', 'vrbo', 'homeaway', 'expedia', 'reservation'];
+
+interface TextEvidence {
+  score: number;
+  isReference: boolean;
+}
+
+export interface MatchScore {
+  score: number; // 0-1, weighted sum of the parts below
+  amountScore: number;
+  dateScore: number;
+  textScore: number;
+  isReference: boolean;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+const payoutDateOf = (ota: CanonicalOtaRow) => ota.payout_date || ota.check_in_date;
+
+const daysBetween = (a: string, b: string): number | null => {
+  const da = new Date(a);
+  const db = new Date(b);
+  if (!isValid(da) || !isValid(db)) return null;
+  return differenceInCalendarDays(db, da);
+};
+
+// In portfolio mode a deposit can only settle bookings for the same unit.
+// Untagged rows are allowed to match anything.
+const sameProperty = (ota: CanonicalOtaRow, gl: CanonicalGlRow) =>
+  !ota.property_id || !gl.property_id || ota.property_id === gl.property_id;
+
+const textEvidence = (ota: CanonicalOtaRow, gl: CanonicalGlRow): TextEvidence => {
+  const text = (gl.description + ' ' + gl.contact).toLowerCase();
+  const ref = ota.reservation_id.trim().toLowerCase();
+  if (ref && text.includes(ref)) return { score: 1, isReference: true };
+
+  const guestTokens = ota.guest_name.toLowerCase().split(/\s+/).filter(t => t.length > 1);
+  const guestHits = guestTokens.filter(t => text.includes(t)).length;
+  const guestScore = guestTokens.length ? 0.8 * (guestHits / guestTokens.length) : 0;
+  const keywordScore = PAYOUT_KEYWORDS.some(k => text.includes(k)) ? 0.4 : 0;
+
+  return { score: Math.max(guestScore, keywordScore), isReference: false };
+};
+
+/**
+ * Scores a group of bookings against a group of GL credits (1:1, 1:N or N:1).
+ * Returns null when the group fails a hard gate: amounts differ by more than
+ * the tolerance, a date falls outside the window, or nothing in the GL text
+ * points to an OTA payout.
+ */
+export const scoreMatch = (
+  otas: CanonicalOtaRow[],
+  gls: CanonicalGlRow[],
+  windowDays = DATE_WINDOW_DAYS
+): MatchScore | null => {
+  if (otas.some(o => gls.some(g => !sameProperty(o, g)))) return null;
+
+  const otaTotal = otas.reduce((sum, o) => sum + o.net_payout, 0);
+  const glTotal = gls.reduce((sum, g) => sum + g.credit_amount, 0);
+  const amountDiff = Math.abs(glTotal - otaTotal);
+  if (amountDiff > AMOUNT_TOLERANCE) return null;
+
+  let maxDays = 0;
+  for (const o of otas) {
+    for (const g of gls) {
+      const days = daysBetween(payoutDateOf(o), g.date);
+      if (days === null || Math.abs(days) > windowDays) return null;
+      maxDays = Math.max(maxDays, Math.abs(days));
+    }
+  }
+
+  let best: TextEvidence = { score: 0, isReference: false };
+  otas.forEach(o => gls.forEach(g => {
+    const ev = textEvidence(o, g);
+    if (ev.score > best.score) best = ev;
+  }));
+  if (best.score === 0) return null;
+
+  const amountScore = 1 - (amountDiff / AMOUNT_TOLERANCE) * 0.5;
+  const dateScore = 1 - maxDays / (windowDays + 1);
+  const score = WEIGHTS.amount * amountScore + WEIGHTS.date * dateScore + WEIGHTS.text * best.score;
+
+  return {
+    score: round2(score),
+    amountScore: round2(amountScore),
+    dateScore: round2(dateScore),
+    textScore: round2(best.score),
+    isReference: best.isReference
+  };
+};
+
+/**
+ * Maximum-weight 1:1 assignment (Hungarian algorithm, minimising 1 - score).
+ * Rows must not outnumber columns. Infeasible pairs carry a cost above any
+ * feasible one, so the result first maximises the number of real matches and
+ * then their total score. Returns the chosen column per row, or -1.
+ */
+const assignMaxScore = (scores: (number | null)[][]): number[] => {
+  const n = scores.length;
+  const m = n ? scores[0].length : 0;
+  const INFEASIBLE = 2;
+  const cost = (i: number, j: number) => {
+    const s = scores[i - 1][j - 1];
+    return s === null ? INFEASIBLE : 1 - s;
+  };
+
+  const u = new Array(n + 1).fill(0);
+  const v = new Array(m + 1).fill(0);
+  const p = new Array(m + 1).fill(0);
+  const way = new Array(m + 1).fill(0);
+
+  for (let i = 1; i <= n; i++) {
+    p[0] = i;
+    let j0 = 0;
+    const minv = new Array(m + 1).fill(Infinity);
+    const used = new Array(m + 1).fill(false);
+    do {
+      used[j0] = true;
+      const i0 = p[j0];
+      let delta = Infinity;
+      let j1 = 0;
+      for (let j = 1; j <= m; j++) {
+        if (used[j]) continue;
+        const cur = cost(i0, j) - u[i0] - v[j];
+        if (cur < minv[j]) { minv[j] = cur; way[j] = j0; }
+        if (minv[j] < delta) { delta = minv[j]; j1 = j; }
+      }
+      for (let j = 0; j <= m; j++) {
+        if (used[j]) { u[p[j]] += delta; v[j] -= delta; }
+        else minv[j] -= delta;
+      }
+      j0 = j1;
+    } while (p[j0] !== 0);
+    do {
+      const j1 = way[j0];
+      p[j0] = p[j1];
+      j0 = j1;
+    } while (j0);
+  }
+
+  const result = new Array(n).fill(-1);
+  for (let j = 1; j <= m; j++) {
+    if (p[j] && scores[p[j] - 1][j - 1] !== null) result[p[j] - 1] = j - 1;
+  }
+  return result;
+};
+
+// Depth-first subset-sum over positive amounts, bounded so a month with many
+// same-sized bookings cannot stall the UI.
+const findSubset = <T>(items: T[], amountOf: (item: T) => number, target: number): T[] | null => {
+  const sorted = [...items].sort((a, b) => amountOf(b) - amountOf(a));
+  let budget = SUBSET_SEARCH_BUDGET;
+  const chosen: T[] = [];
+
+  const search = (start: number, sum: number): boolean => {
+    if (--budget < 0) return false;
+    if (chosen.length >= 2 && Math.abs(sum - target) <= AMOUNT_TOLERANCE) return true;
+    if (chosen.length >= MAX_GROUP_SIZE) return false;
+    for (let i = start; i < sorted.length; i++) {
+      const amount = amountOf(sorted[i]);
+      if (amount <= 0 || sum + amount > target + AMOUNT_TOLERANCE) continue;
+      chosen.push(sorted[i]);
+      if (search(i + 1, sum + amount)) return true;
+      chosen.pop();
+    }
+    return false;
+  };
+
+  return search(0, 0) ? [...chosen] : null;
+};
+
+const nearest = <T>(items: T[], distance: (item: T) => number) =>
+  [...items].sort((a, b) => distance(a) - distance(b)).slice(0, MAX_GROUP_CANDIDATES);
+
+const applyMatch = (otas: CanonicalOtaRow[], gls: CanonicalGlRow[], rule: MatchRule, score: number) => {
+  const refs = otas.map(o => o.reservation_id).join(', ');
+  const byDate = [...gls].sort((a, b) => a.date.localeCompare(b.date));
+  otas.forEach(o => {
+    o.matched_gl_ids = gls.map(g => g.id);
+    o.match_rule = rule;
+    o.match_score = score;
+  });
+  byDate.forEach((g, idx) => {
+    g.is_reconciled_ota = true;
+    g.matched_ota_ids = otas.map(o => o.id);
+    g.match_rule = rule;
+    g.match_score = score;
+    if (rule === 'batched_payout') {
+      g.note = `Batched OTA payout for ${otas.length} bookings: ${refs}`;
+    } else if (rule === 'split_payout') {
+      g.note = `Part ${idx + 1} of ${byDate.length} of OTA Booking ${refs}`;
+    } else {
+      g.note = `Reconciled to OTA Booking ${refs}`;
+    }
+  });
+};
+
+/**
+ * Matches OTA bookings to GL income rows in three passes:
+ *  1. 1:1 — every feasible pair is scored and the best overall assignment is
+ *     chosen, so two same-day payouts of similar size no longer steal each
+ *     other's deposits.
+ *  2. Batched payouts — one deposit equal to the sum of several bookings.
+ *  3. Split payouts — one booking settled by several deposits.
+ * Matched rows are updated in place with the rule and score that linked them.
+ * Returns the number of bookings reconciled.
+ */
+export const reconcile = (otaBookings: CanonicalOtaRow[], glIncome: CanonicalGlRow[]): number => {
+  const otas = otaBookings.filter(o => !o.matched_gl_ids?.length);
+  const gls = glIncome.filter(g => !g.is_reconciled_ota);
+
+  // Pass 1: global 1:1 assignment. The score matrix is oriented so rows never
+  // outnumber columns, as the assignment routine requires.
+  if (otas.length && gls.length) {
+    const otaIsRow = otas.length <= gls.length;
+    const rows = otaIsRow ? otas.length : gls.length;
+    const cols = otaIsRow ? gls.length : otas.length;
+    const details: (MatchScore | null)[][] = [];
+    for (let i = 0; i < rows; i++) {
+      details.push([]);
+      for (let j = 0; j < cols; j++) {
+        const ota = otaIsRow ? otas[i] : otas[j];
+        const gl = otaIsRow ? gls[j] : gls[i];
+        details[i].push(scoreMatch([ota], [gl]));
+      }
+    }
+    const assignment = assignMaxScore(details.map(r => r.map(d => d ? d.score : null)));
+    assignment.forEach((j, i) => {
+      if (j < 0) return;
+      const detail = details[i][j]!;
+      const ota = otaIsRow ? otas[i] : otas[j];
+      const gl = otaIsRow ? gls[j] : gls[i];
+      applyMatch([ota], [gl], detail.isReference ? 'reference' : 'scored', detail.score);
+    });
+  }
+
+  // Pass 2: one deposit, many bookings
+  glIncome
+    .filter(g => !g.is_reconciled_ota)
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .forEach(gl => {
+      const open = otaBookings.filter(o => {
+        if (o.matched_gl_ids?.length || o.net_payout <= 0 || !sameProperty(o, gl)) return false;
+        const days = daysBetween(payoutDateOf(o), gl.date);
+        return days !== null && days >= -DATE_WINDOW_DAYS && days <= BATCH_WINDOW_DAYS;
+      });
+      const candidates = nearest(open, o => Math.abs(daysBetween(payoutDateOf(o), gl.date) || 0));
+      const group = findSubset(candidates, o => o.net_payout, gl.credit_amount);
+      if (!group) return;
+      const detail = scoreMatch(group, [gl], BATCH_WINDOW_DAYS);
+      if (detail) applyMatch(group, [gl], 'batched_payout', detail.score);
+    });
+
+  // Pass 3: one booking, many deposits
+  otaBookings
+    .filter(o => !o.matched_gl_ids?.length && o.net_payout > 0)
+    .forEach(ota => {
+      const open = glIncome.filter(g => {
+        if (g.is_reconciled_ota || !sameProperty(ota, g) || textEvidence(ota, g).score === 0) return false;
+        const days = daysBetween(payoutDateOf(ota), g.date);
+        return days !== null && Math.abs(days) <= SPLIT_WINDOW_DAYS;
+      });
+      const candidates = nearest(open, g => Math.abs(daysBetween(payoutDateOf(ota), g.date) || 0));
+      const group = findSubset(candidates, g => g.credit_amount, ota.net_payout);
+      if (!group) return;
+      const detail = scoreMatch([ota], group, SPLIT_WINDOW_DAYS);
+      if (detail) applyMatch([ota], group, 'split_payout', detail.score);
+    });
+
+  return otaBookings.filter(o => o.matched_gl_ids?.length).length;
+};
+
+export const summarizeReconciliation = (otaBookings: CanonicalOtaRow[]) => {
+  const reconciledCount = otaBookings.filter(o => o.matched_gl_ids?.length).length;
+  const timingDifferenceCount = otaBookings.filter(o => !o.matched_gl_ids?.length && o.timing_difference).length;
+  return {
+    reconciledCount,
+    timingDifferenceCount,
+    unreconciledCount: otaBookings.length - reconciledCount - timingDifferenceCount
+  };
+};
+
+// What the statement's payouts came to in the bank, from the pairs as the
+// workbench left them. Deposits are compared with whole payouts: a prorated
+// stay is paid out in full even when only part of it is on the statement.
+export interface PayoutReconciliation {
+  deposited: number;         // bank deposits linked to the statement's bookings
+  matchedPayouts: number;    // OTA payouts of the linked bookings
+  depositDifference: number; // deposited less matched payouts: rounding, bank charges
+  inTransit: number;         // timing differences: not in the bank by period end
+  unmatched: number;         // neither linked nor marked as a timing difference
+}
+
+export const emptyPayoutReconciliation = (): PayoutReconciliation => ({
+  deposited: 0,
+  matchedPayouts: 0,
+  depositDifference: 0,
+  inTransit: 0,
+  unmatched: 0
+});
+
+export const reconcilePayouts = (otaBookings: CanonicalOtaRow[], glIncome: CanonicalGlRow[]): PayoutReconciliation => {
+  const ids = new Set(otaBookings.map(o => o.id));
+  const payoutsOf = (rows: CanonicalOtaRow[]) => rows.reduce((sum, o) => sum + o.net_payout, 0);
+  const matched = otaBookings.filter(o => o.matched_gl_ids?.length);
+  const open = otaBookings.filter(o => !o.matched_gl_ids?.length);
+  const deposited = glIncome
+    .filter(g => g.matched_ota_ids?.some(id => ids.has(id)))
+    .reduce((sum, g) => sum + g.credit_amount, 0);
+  const matchedPayouts = payoutsOf(matched);
+  return {
+    deposited,
+    matchedPayouts,
+    depositDifference: deposited - matchedPayouts,
+    inTransit: payoutsOf(open.filter(o => o.timing_difference)),
+    unmatched: payoutsOf(open.filter(o => !o.timing_difference))
+  };
+};
+
+export const sumPayoutReconciliations = (parts: PayoutReconciliation[]): PayoutReconciliation =>
+  parts.reduce((sum, p) => ({
+    deposited: sum.deposited + p.deposited,
+    matchedPayouts: sum.matchedPayouts + p.matchedPayouts,
+    depositDifference: sum.depositDifference + p.depositDifference,
+    inTransit: sum.inTransit + p.inTransit,
+    unmatched: sum.unmatched + p.unmatched
+  }), emptyPayoutReconciliation());
+
+// The helpers below back the Review step's workbench. They never mutate the
+// rows they are given; changed rows are copied so React sees new references.
+
+export interface ReconciliationRows {
+  otaBookings: CanonicalOtaRow[];
+  glIncome: CanonicalGlRow[];
+}
+
+const clearOta = (o: CanonicalOtaRow): CanonicalOtaRow => ({
+  ...o,
+  matched_gl_ids: undefined,
+  match_rule: undefined,
+  match_score: undefined
+});
+
+const clearGl = (g: CanonicalGlRow): CanonicalGlRow => ({
+  ...g,
+  is_reconciled_ota: false,
+  matched_ota_ids: undefined,
+  match_rule: undefined,
+  match_score: undefined,
+  note: undefined
+});
+
+// Every row that shares a match with the given row (a whole batch or split).
+const matchGroup = (rows: ReconciliationRows, id: string) => {
+  const otaIds = new Set<string>();
+  const glIds = new Set<string>();
+  const ota = rows.otaBookings.find(o => o.id === id);
+  const gl = rows.glIncome.find(g => g.id === id);
+  if (ota) {
+    otaIds.add(ota.id);
+    (ota.matched_gl_ids || []).forEach(gid => glIds.add(gid));
+  }
+  if (gl) {
+    glIds.add(gl.id);
+    (gl.matched_ota_ids || []).forEach(oid => otaIds.add(oid));
+  }
+  rows.glIncome.filter(g => glIds.has(g.id)).forEach(g => (g.matched_ota_ids || []).forEach(oid => otaIds.add(oid)));
+  rows.otaBookings.filter(o => otaIds.has(o.id)).forEach(o => (o.matched_gl_ids || []).forEach(gid => glIds.add(gid)));
+  return { otaIds, glIds };
+};
+
+export const unlinkRows = (rows: ReconciliationRows, id: string): ReconciliationRows => {
+  const { otaIds, glIds } = matchGroup(rows, id);
+  return {
+    otaBookings: rows.otaBookings.map(o => otaIds.has(o.id) ? clearOta(o) : o),
+    glIncome: rows.glIncome.map(g => glIds.has(g.id) ? clearGl(g) : g)
+  };
+};
+
+// Links the chosen bookings and deposits as one manual match, first breaking
+// any match either side already belonged to.
+export const linkRows = (rows: ReconciliationRows, otaIds: string[], glIds: string[]): ReconciliationRows => {
+  if (!otaIds.length || !glIds.length) return rows;
+  let next = rows;
+  [...otaIds, ...glIds].forEach(id => { next = unlinkRows(next, id); });
+
+  const otaBookings = next.otaBookings.map(o => otaIds.includes(o.id) ? { ...o, timing_difference: false } : o);
+  const glIncome = next.glIncome.map(g => glIds.includes(g.id) ? { ...g, timing_difference: false } : g);
+  applyMatch(
+    otaBookings.filter(o => otaIds.includes(o.id)),
+    glIncome.filter(g => glIds.includes(g.id)),
+    'manual',
+    1
+  );
+  return { otaBookings, glIncome };
+};
+
+// Drops rows entirely (merged duplicates). Matches they were part of keep
+// their other members; a row left with nothing to match is cleared.
+export const removeRows = (rows: ReconciliationRows, ids: string[]): ReconciliationRows => {
+  const removed = new Set(ids);
+  return {
+    otaBookings: rows.otaBookings
+      .filter(o => !removed.has(o.id))
+      .map(o => {
+        if (!o.matched_gl_ids?.some(gid => removed.has(gid))) return o;
+        const remaining = o.matched_gl_ids.filter(gid => !removed.has(gid));
+        return remaining.length ? { ...o, matched_gl_ids: remaining } : clearOta(o);
+      }),
+    glIncome: rows.glIncome
+      .filter(g => !removed.has(g.id))
+      .map(g => {
+        if (!g.matched_ota_ids?.some(oid => removed.has(oid))) return g;
+        const remaining = g.matched_ota_ids.filter(oid => !removed.has(oid));
+        return remaining.length ? { ...g, matched_ota_ids: remaining } : clearGl(g);
+      })
+  };
+};
+
+export const setTimingDifference = (rows: ReconciliationRows, id: string, value: boolean): ReconciliationRows => {
+  const next = value ? unlinkRows(rows, id) : rows;
+  return {
+    otaBookings: next.otaBookings.map(o => o.id === id ? { ...o, timing_difference: value } : o),
+    glIncome: next.glIncome.map(g => g.id === id ? { ...g, timing_difference: value } : g)
+  };
+};
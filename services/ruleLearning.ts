@@ -0,0 +1,108 @@
+import { CanonicalGlRow, ClassificationRule, ExpenseCategory } from '../types';
+import { CATEGORY_LABELS } from '../constants';
+import { createRule, findMatchingRule } from './classificationRules';
+
+export interface RuleProposal {
+  key: string;
+  basis: 'contact' | 'account' | 'description';
+  rule: ClassificationRule;
+  rowIds: string[];      // rows that agree with the proposed category
+  conflictCount: number; // rows in the same group given a different category
+}
+
+// Learned rules sit above hand-written defaults but below anything the user
+// has explicitly prioritised higher.
+const LEARNED_PRIORITY = 5;
+// At least this share of a group must agree before a rule is proposed.
+const MIN_AGREEMENT = 0.75;
+
+const escapeRegExp = (str: string) => str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// First two words of a description with digits, dates and reference numbers
+// stripped, e.g. "HOME DEPOT #4521 03/12" -> "home depot".
+const descriptionStem = (description: string): string =>
+  description
+    .toLowerCase()
+    .replace(/[#*]?\d[\d/.\-:]*/g, ' ')
+    .replace(/[^a-z&' ]/g, ' ')
+    .split(/\s+/)
+    .filter(w => w.length > 1)
+    .slice(0, 2)
+    .join(' ');
+
+const groupKey = (row: CanonicalGlRow): { key: string; basis: RuleProposal['basis']; value: string } | null => {
+  const contact = row.contact.trim();
+  if (contact) return { key: `contact:${contact.toLowerCase()}`, basis: 'contact', value: contact };
+  const stem = descriptionStem(row.description);
+  if (stem) return { key: `description:${stem}`, basis: 'description', value: stem };
+  const account = row.account_name.trim();
+  if (account) return { key: `account:${account.toLowerCase()}`, basis: 'account', value: account };
+  return null;
+};
+
+const isDecided = (row: CanonicalGlRow) =>
+  !!row.assigned_category && row.assigned_category !== ExpenseCategory.REVIEW_ALWAYS;
+
+const mostCommon = <T>(values: T[]): T | undefined => {
+  const counts = new Map<T, number>();
+  values.forEach(v => counts.set(v, (counts.get(v) || 0) + 1));
+  let best: T | undefined;
+  let bestCount = 0;
+  for (const [value, count] of counts) {
+    if (count > bestCount) { best = value; bestCount = count; }
+  }
+  return best;
+};
+
+/**
+ * Turns the categories and split percentages assigned in the Review step into
+ * candidate rules, one per contact (or description stem / account when there
+ * is no contact). Groups the existing rules already classify the same way are
+ * skipped, as are groups without a clear majority decision.
+ */
+export const proposeRules = (rows: CanonicalGlRow[], existingRules: ClassificationRule[]): RuleProposal[] => {
+  const groups = new Map<string, { basis: RuleProposal['basis']; value: string; rows: CanonicalGlRow[] }>();
+  rows.filter(isDecided).forEach(row => {
+    const g = groupKey(row);
+    if (!g) return;
+    if (!groups.has(g.key)) groups.set(g.key, { basis: g.basis, value: g.value, rows: [] });
+    groups.get(g.key)!.rows.push(row);
+  });
+
+  const proposals: RuleProposal[] = [];
+  groups.forEach((group, key) => {
+    const category = mostCommon(group.rows.map(r => r.assigned_category!))!;
+    const agreeing = group.rows.filter(r => r.assigned_category === category);
+    if (agreeing.length / group.rows.length < MIN_AGREEMENT) return;
+
+    const alreadyCovered = agreeing.every(r => findMatchingRule(existingRules, r)?.category === category);
+    if (alreadyCovered) return;
+
+    const splitPercent = category === ExpenseCategory.SHARED
+      ? mostCommon(agreeing.map(r => r.split_percent ?? 50))
+      : undefined;
+
+    const label = CATEGORY_LABELS[category];
+    const rule = createRule({
+      name: `${group.value} → ${label}`,
+      priority: LEARNED_PRIORITY,
+      category,
+      splitPercent,
+      ...(group.basis === 'contact' && { contact: group.value }),
+      ...(group.basis === 'account' && { account: group.value }),
+      ...(group.basis === 'description' && {
+        descriptionPattern: group.value.split(' ').map(escapeRegExp).join('\\W+')
+      })
+    });
+
+    proposals.push({
+      key,
+      basis: group.basis,
+      rule,
+      rowIds: agreeing.map(r => r.id),
+      conflictCount: group.rows.length - agreeing.length
+    });
+  });
+
+  return proposals.sort((a, b) => b.rowIds.length - a.rowIds.length);
+};
@@ -0,0 +1,24 @@
+import { ClassificationRule } from '../types';
+import { normalizeRules } from './classificationRules';
+
+const STORAGE_KEY = 'str-invoicer:classification-rules';
+
+// The rule library outlives any one session so that decisions made this
+// period classify next period's rows automatically.
+export const loadSavedRules = (): ClassificationRule[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? normalizeRules(JSON.parse(raw)) : [];
+  } catch (err) {
+    console.error('Failed to load saved rules', err);
+    return [];
+  }
+};
+
+export const saveRules = (rules: ClassificationRule[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(rules));
+  } catch (err) {
+    console.error('Failed to save rules', err);
+  }
+};
@@ -0,0 +1,752 @@
+import {
+  ConfigState,
+  DiagnosticReason,
+  ExpenseCategory,
+  FeeModel,
+  FileLocale,
+  FilesState,
+  MappingState,
+  ProcessedDataState,
+  ProcessStep,
+  PropertyConfig,
+  RowDiagnostic,
+  SESSION_VERSION,
+  SessionState,
+  SourceFile,
+  SourceKind,
+  SourceMapping
+} from '../types';
+import { DEFAULT_CONFIG, DEFAULT_FILE_LOCALE } from '../constants';
+import { normalizeRules } from './classificationRules';
+import { findPreset } from './importPresets';
+import { ADJUSTMENT_TYPES } from './adjustments';
+
+// Session files and workspace records are loaded in two stages:
+//  1. migrate: each MIGRATIONS[n] upgrades a version-n session to n + 1 and
+//     fills in what that version introduced, until SESSION_VERSION is reached.
+//  2. validate: the migrated session is checked field by field. Anything still
+//     malformed is defaulted (settings) or dropped (rows), and every such fix
+//     is reported so the Load step can show what was lost.
+
+export interface SchemaIssue {
+  path: string;    // e.g. "processedData.reviewRows[4]"
+  problem: string;
+  action: 'defaulted' | 'dropped';
+}
+
+export interface SessionLoadResult {
+  session: SessionState | null;
+  issues: SchemaIssue[];
+  fromVersion: number | null;
+  error?: string; // set when nothing could be loaded
+}
+
+type Migration = (raw: any) => any;
+
+const LEGACY_SOURCE_IDS: Record<SourceKind, string> = { ota: 'ota-1', gl: 'gl-1' };
+
+const MIGRATIONS: Record<number, Migration> = {
+  // v1 -> v2: portfolio mode, classification rules, reconciliation stats
+  1: raw => ({
+    ...raw,
+    version: 2,
+    config: { portfolioMode: false, properties: [], ...raw.config },
+    files: { classificationRules: [], ...raw.files },
+    processedData: raw.processedData && {
+      ...raw.processedData,
+      stats: { untaggedCount: 0, timingDifferenceCount: 0, ...raw.processedData.stats }
+    }
+  }),
+  // v2 -> v3: statement numbering scheme
+  2: raw => ({
+    ...raw,
+    version: 3,
+    config: { numbering: DEFAULT_CONFIG.numbering, ...raw.config }
+  }),
+  // v3 -> v4: owner balance carry-forward
+  3: raw => ({
+    ...raw,
+    version: 4,
+    config: { balances: DEFAULT_CONFIG.balances, ...raw.config }
+  }),
+  // v4 -> v5: composite fee models (per-property models are optional)
+  4: raw => ({
+    ...raw,
+    version: 5,
+    config: { feeModel: DEFAULT_CONFIG.feeModel, ...raw.config }
+  }),
+  // v5 -> v6: lodging tax and fee/reimbursable tax settings
+  5: raw => ({
+    ...raw,
+    version: 6,
+    config: { taxes: DEFAULT_CONFIG.taxes, ...raw.config }
+  }),
+  // v6 -> v7: statement currency and exchange rates. Earlier sessions were
+  // always treated as dollars.
+  6: raw => ({
+    ...raw,
+    version: 7,
+    config: { currency: 'USD', exchangeRates: [], ...raw.config }
+  }),
+  // v7 -> v8: per-file date and number locale. Earlier sessions were parsed
+  // as US formats.
+  7: raw => ({
+    ...raw,
+    version: 8,
+    mappings: raw.mappings && {
+      locale: { ota: DEFAULT_FILE_LOCALE, gl: DEFAULT_FILE_LOCALE },
+      ...raw.mappings
+    }
+  }),
+  // v8 -> v9: data-quality diagnostics and force-included rows
+  8: raw => ({
+    ...raw,
+    version: 9,
+    files: raw.files && { forcedRows: { ota: [], gl: [] }, ...raw.files },
+    processedData: raw.processedData && { diagnostics: [], ...raw.processedData }
+  }),
+  // v9 -> v10: dismissed duplicate groups
+  9: raw => ({
+    ...raw,
+    version: 10,
+    processedData: raw.processedData && { dismissedDuplicates: [], ...raw.processedData }
+  }),
+  // v10 -> v11: any number of OTA and GL files, each with its own mapping.
+  // The single OTA and GL file of earlier sessions become one source each.
+  10: raw => {
+    const { otaRaw, glRaw, forcedRows, ...files } = raw.files || {};
+    const { ota, gl, locale, ...mappings } = raw.mappings || {};
+    const kinds = (['ota', 'gl'] as SourceKind[]).filter(kind => {
+      const rows = kind === 'ota' ? otaRaw : glRaw;
+      return rows !== undefined && !(Array.isArray(rows) && !rows.length);
+    });
+    const perSource = (value: (kind: SourceKind) => any) =>
+      Object.fromEntries(kinds.map(kind => [LEGACY_SOURCE_IDS[kind], value(kind)]));
+    return {
+      ...raw,
+      version: 11,
+      files: raw.files && {
+        ...files,
+        ota: kinds.includes('ota') ? [{ id: LEGACY_SOURCE_IDS.ota, kind: 'ota', name: 'OTA export', rows: otaRaw }] : [],
+        gl: kinds.includes('gl') ? [{ id: LEGACY_SOURCE_IDS.gl, kind: 'gl', name: 'General ledger', rows: glRaw }] : [],
+        forcedRows: perSource(kind => forcedRows?.[kind] ?? [])
+      },
+      mappings: raw.mappings && {
+        ...mappings,
+        sources: perSource(kind => ({ fields: kind === 'ota' ? ota : gl, locale: locale?.[kind] }))
+      },
+      processedData: raw.processedData && {
+        ...raw.processedData,
+        diagnostics: Array.isArray(raw.processedData.diagnostics)
+          ? raw.processedData.diagnostics.map((d: any) => ({ file: LEGACY_SOURCE_IDS[d?.source === 'gl' ? 'gl' : 'ota'], ...d }))
+          : raw.processedData.diagnostics
+      }
+    };
+  },
+  // v11 -> v12: import presets on mappings. Earlier mappings had none.
+  11: raw => ({
+    ...raw,
+    version: 12
+  }),
+  // v12 -> v13: computed fields (expressions) on mappings
+  12: raw => ({
+    ...raw,
+    version: 13
+  }),
+  // v13 -> v14: revenue recognition mode. Earlier sessions placed bookings
+  // by check-in date.
+  13: raw => ({
+    ...raw,
+    version: 14,
+    config: { recognitionMode: 'check_in', ...raw.config }
+  }),
+  // v14 -> v15: booking dates on OTA rows and the statement KPI summary
+  14: raw => ({
+    ...raw,
+    version: 15,
+    config: { kpiSummary: false, ...raw.config }
+  }),
+  // v15 -> v16: typed booking adjustment lines. Earlier rows were all
+  // reservations.
+  15: raw => ({
+    ...raw,
+    version: 16,
+    config: { adjustmentFeeBase: DEFAULT_CONFIG.adjustmentFeeBase, ...raw.config }
+  }),
+  // v16 -> v17: pet and extra-guest fees can be passed through like
+  // cleaning. Earlier fee models, per-property ones included, charged them.
+  16: raw => {
+    const withFeeComponents = (model: any) =>
+      model && { excludePetFees: false, excludeExtraGuestFees: false, ...model };
+    return {
+      ...raw,
+      version: 17,
+      config: raw.config && {
+        ...raw.config,
+        feeModel: withFeeComponents(raw.config.feeModel),
+        properties: Array.isArray(raw.config.properties)
+          ? raw.config.properties.map((p: any) => p && p.feeModel ? { ...p, feeModel: withFeeComponents(p.feeModel) } : p)
+          : raw.config.properties
+      }
+    };
+  },
+  // v17 -> v18: owner IDs. Statement history was kept under the owner's
+  // name, so each owner's ID is pinned to the name it had.
+  17: raw => ({
+    ...raw,
+    version: 18,
+    config: raw.config && {
+      ...raw.config,
+      ownerId: typeof raw.config.ownerName === 'string' ? raw.config.ownerName.trim() : '',
+      properties: Array.isArray(raw.config.properties)
+        ? raw.config.properties.map((p: any) => isObject(p) ? { ...p, ownerId: typeof p.ownerName === 'string' ? p.ownerName.trim() : '' } : p)
+        : raw.config.properties
+    }
+  })
+};
+
+const isObject = (val: any): val is Record<string, any> =>
+  !!val && typeof val === 'object' && !Array.isArray(val);
+
+const describe = (val: any) =>
+  val === undefined ? 'missing' : Array.isArray(val) ? 'a list' : val === null ? 'null' : `a ${typeof val}`;
+
+// ---- Settings ------------------------------------------------------------
+
+const FEE_BASE_MODES = ['gross_revenue', 'net_payouts'];
+const RECOGNITION_MODES = ['check_in', 'check_out', 'payout_date', 'nightly'];
+
+const validateProperty = (raw: any, path: string, issues: SchemaIssue[]): PropertyConfig | null => {
+  if (!isObject(raw) || typeof raw.id !== 'string' || typeof raw.name !== 'string') {
+    issues.push({ path, problem: 'property has no id or name', action: 'dropped' });
+    return null;
+  }
+  const listingIds = Array.isArray(raw.listingIds) ? raw.listingIds.filter((v: any) => typeof v === 'string') : [];
+  return {
+    id: raw.id,
+    name: raw.name,
+    listingIds,
+    ownerName: typeof raw.ownerName === 'string' ? raw.ownerName : '',
+    ownerId: typeof raw.ownerId === 'string' ? raw.ownerId : '',
+    mgmtFeePercent: typeof raw.mgmtFeePercent === 'number' ? raw.mgmtFeePercent : DEFAULT_CONFIG.mgmtFeePercent,
+    feeBaseMode: FEE_BASE_MODES.includes(raw.feeBaseMode) ? raw.feeBaseMode : DEFAULT_CONFIG.feeBaseMode,
+    feeModel: raw.feeModel === undefined ? undefined : validateFeeModel(raw.feeModel, `${path}.feeModel`, issues)
+  };
+};
+
+// Every key in DEFAULT_CONFIG must be present with the same JS type;
+// anything else is replaced by the default.
+// Nested settings groups (numbering, balances) are checked key by key
+// against their defaults, like the top level.
+const validateSettingsGroup = <T extends object>(raw: any, def: T, path: string, issues: SchemaIssue[]): T => {
+  if (!isObject(raw)) return def; // already reported by validateConfig
+  const group: any = { ...def };
+  (Object.keys(def) as (keyof T)[]).forEach(key => {
+    if (typeof raw[key as string] === typeof def[key]) {
+      group[key] = raw[key as string];
+    } else {
+      issues.push({ path: `${path}.${String(key)}`, problem: `expected ${describe(def[key])}, found ${describe(raw[key as string])}`, action: 'defaulted' });
+    }
+  });
+  return group;
+};
+
+const TIER_MODES = ['marginal', 'whole'];
+
+const validateFeeModel = (raw: any, path: string, issues: SchemaIssue[]): FeeModel => {
+  if (!isObject(raw)) {
+    issues.push({ path, problem: `expected a fee model, found ${describe(raw)}`, action: 'defaulted' });
+    return DEFAULT_CONFIG.feeModel;
+  }
+  const model = validateSettingsGroup(raw, DEFAULT_CONFIG.feeModel, path, issues);
+  if (!Array.isArray(model.tiers)) {
+    issues.push({ path: `${path}.tiers`, problem: `expected a list, found ${describe(model.tiers)}`, action: 'defaulted' });
+    model.tiers = [];
+  }
+  model.tiers = model.tiers.filter((t: any, i: number) => {
+    const ok = isObject(t) && typeof t.percent === 'number' && (t.upTo === null || typeof t.upTo === 'number');
+    if (!ok) issues.push({ path: `${path}.tiers[${i}]`, problem: 'tier needs a percent and an upper limit (or none)', action: 'dropped' });
+    return ok;
+  });
+  if (!TIER_MODES.includes(model.tierMode)) {
+    issues.push({ path: `${path}.tierMode`, problem: `unknown tier mode "${model.tierMode}"`, action: 'defaulted' });
+    model.tierMode = DEFAULT_CONFIG.feeModel.tierMode;
+  }
+  const channelPercents: Record<string, number> = {};
+  Object.entries(isObject(model.channelPercents) ? model.channelPercents : {}).forEach(([channel, pct]) => {
+    if (typeof pct === 'number') channelPercents[channel] = pct;
+    else issues.push({ path: `${path}.channelPercents.${channel}`, problem: `expected a number, found ${describe(pct)}`, action: 'dropped' });
+  });
+  model.channelPercents = channelPercents;
+  return model;
+};
+
+const validateConfig = (raw: any, issues: SchemaIssue[]): ConfigState => {
+  const source = isObject(raw) ? raw : {};
+  if (!isObject(raw)) issues.push({ path: 'config', problem: `expected settings, found ${describe(raw)}`, action: 'defaulted' });
+
+  const config: any = { ...DEFAULT_CONFIG };
+  (Object.keys(DEFAULT_CONFIG) as (keyof ConfigState)[]).forEach(key => {
+    const def = DEFAULT_CONFIG[key];
+    const val = source[key];
+    const sameType = Array.isArray(def) ? Array.isArray(val) : typeof val === typeof def && val !== null;
+    if (sameType) {
+      config[key] = val;
+    } else if (isObject(raw)) {
+      issues.push({ path: `config.${key}`, problem: `expected ${describe(def)}, found ${describe(val)}`, action: 'defaulted' });
+    }
+  });
+
+  if (!FEE_BASE_MODES.includes(config.feeBaseMode)) {
+    issues.push({ path: 'config.feeBaseMode', problem: `unknown fee base "${config.feeBaseMode}"`, action: 'defaulted' });
+    config.feeBaseMode = DEFAULT_CONFIG.feeBaseMode;
+  }
+  if (!RECOGNITION_MODES.includes(config.recognitionMode)) {
+    issues.push({ path: 'config.recognitionMode', problem: `unknown recognition mode "${config.recognitionMode}"`, action: 'defaulted' });
+    config.recognitionMode = DEFAULT_CONFIG.recognitionMode;
+  }
+  config.properties = (config.properties as any[])
+    .map((p, i) => validateProperty(p, `config.properties[${i}]`, issues))
+    .filter((p): p is PropertyConfig => p !== null);
+
+  config.feeModel = validateFeeModel(config.feeModel, 'config.feeModel', issues);
+  config.numbering = validateSettingsGroup(config.numbering, DEFAULT_CONFIG.numbering, 'config.numbering', issues);
+  config.balances = validateSettingsGroup(config.balances, DEFAULT_CONFIG.balances, 'config.balances', issues);
+  config.taxes = validateSettingsGroup(config.taxes, DEFAULT_CONFIG.taxes, 'config.taxes', issues);
+  config.adjustmentFeeBase = validateSettingsGroup(config.adjustmentFeeBase, DEFAULT_CONFIG.adjustmentFeeBase, 'config.adjustmentFeeBase', issues);
+  if (!Array.isArray(config.taxes.marketplaceChannels)) {
+    issues.push({ path: 'config.taxes.marketplaceChannels', problem: `expected a list, found ${describe(config.taxes.marketplaceChannels)}`, action: 'defaulted' });
+    config.taxes.marketplaceChannels = [];
+  }
+  config.taxes.marketplaceChannels = config.taxes.marketplaceChannels.filter((c: any) => typeof c === 'string');
+  config.exchangeRates = (config.exchangeRates as any[]).filter((r, i) => {
+    const ok = isObject(r) && typeof r.currency === 'string' && typeof r.rate === 'number' && r.rate > 0 &&
+      (r.date === undefined || typeof r.date === 'string');
+    if (!ok) issues.push({ path: `config.exchangeRates[${i}]`, problem: 'rate needs a currency code and a positive rate', action: 'dropped' });
+    return ok;
+  });
+
+  return config;
+};
+
+const validateRecordOfStrings = (raw: any, path: string, issues: SchemaIssue[]): Record<string, string> => {
+  if (!isObject(raw)) {
+    issues.push({ path, problem: `expected a field map, found ${describe(raw)}`, action: 'defaulted' });
+    return {};
+  }
+  const result: Record<string, string> = {};
+  Object.entries(raw).forEach(([k, v]) => {
+    if (typeof v === 'string') result[k] = v;
+    else issues.push({ path: `${path}.${k}`, problem: `expected text, found ${describe(v)}`, action: 'dropped' });
+  });
+  return result;
+};
+
+const DATE_ORDERS = ['MDY', 'DMY', 'YMD'];
+const DECIMAL_SEPARATORS = ['.', ','];
+const THOUSANDS_SEPARATORS = [',', '.', ' ', "'", ''];
+
+const validateLocale = (raw: any, path: string, issues: SchemaIssue[]): FileLocale => {
+  if (!isObject(raw)) {
+    issues.push({ path, problem: `expected a locale, found ${describe(raw)}`, action: 'defaulted' });
+    return DEFAULT_FILE_LOCALE;
+  }
+  const locale = validateSettingsGroup(raw, DEFAULT_FILE_LOCALE, path, issues);
+  const checkOne = <K extends keyof FileLocale>(key: K, allowed: string[]) => {
+    if (!allowed.includes(locale[key])) {
+      issues.push({ path: `${path}.${key}`, problem: `unknown value "${locale[key]}"`, action: 'defaulted' });
+      locale[key] = DEFAULT_FILE_LOCALE[key];
+    }
+  };
+  checkOne('dateOrder', DATE_ORDERS);
+  checkOne('decimalSeparator', DECIMAL_SEPARATORS);
+  checkOne('thousandsSeparator', THOUSANDS_SEPARATORS);
+  return locale;
+};
+
+const validateMappings = (raw: any, issues: SchemaIssue[]): MappingState => {
+  const source = isObject(raw) ? raw : {};
+  if (!isObject(raw)) issues.push({ path: 'mappings', problem: `expected mappings, found ${describe(raw)}`, action: 'defaulted' });
+  if (isObject(raw) && !isObject(raw.sources)) {
+    issues.push({ path: 'mappings.sources', problem: `expected a mapping per file, found ${describe(raw.sources)}`, action: 'defaulted' });
+  }
+  const sources: Record<string, SourceMapping> = {};
+  Object.entries(isObject(source.sources) ? source.sources : {}).forEach(([id, mapping]) => {
+    const path = `mappings.sources.${id}`;
+    if (!isObject(mapping)) {
+      issues.push({ path, problem: `expected a mapping, found ${describe(mapping)}`, action: 'dropped' });
+      return;
+    }
+    if (mapping.preset !== undefined && !findPreset(mapping.preset)) {
+      issues.push({ path: `${path}.preset`, problem: `unknown import preset ${JSON.stringify(mapping.preset)}`, action: 'dropped' });
+    }
+    sources[id] = {
+      fields: validateRecordOfStrings(mapping.fields, `${path}.fields`, issues),
+      ...(mapping.expressions !== undefined
+        ? { expressions: validateRecordOfStrings(mapping.expressions, `${path}.expressions`, issues) }
+        : {}),
+      locale: validateLocale(mapping.locale, `${path}.locale`, issues),
+      ...(findPreset(mapping.preset) ? { preset: mapping.preset } : {})
+    };
+  });
+  return { sources };
+};
+
+// ---- Source files --------------------------------------------------------
+
+const validateRawRows = (raw: any, path: string, issues: SchemaIssue[]): any[] => {
+  if (!Array.isArray(raw)) {
+    issues.push({ path, problem: `expected rows, found ${describe(raw)}`, action: 'defaulted' });
+    return [];
+  }
+  return raw.filter((row, i) => {
+    if (isObject(row)) return true;
+    issues.push({ path: `${path}[${i}]`, problem: `expected a row, found ${describe(row)}`, action: 'dropped' });
+    return false;
+  });
+};
+
+const validateRowIndexes = (raw: any, path: string, issues: SchemaIssue[]): number[] => {
+  if (!Array.isArray(raw)) {
+    issues.push({ path, problem: `expected row numbers, found ${describe(raw)}`, action: 'defaulted' });
+    return [];
+  }
+  const valid = raw.filter(i => Number.isInteger(i) && i >= 0);
+  if (valid.length < raw.length) {
+    issues.push({ path, problem: `${raw.length - valid.length} entry(ies) were not row numbers`, action: 'dropped' });
+  }
+  return valid;
+};
+
+// Source file ids key the mappings and forced rows, so they must be unique
+// across both kinds.
+const validateSourceFiles = (raw: any, kind: SourceKind, taken: Set<string>, issues: SchemaIssue[]): SourceFile[] => {
+  const path = `files.${kind}`;
+  if (!Array.isArray(raw)) {
+    issues.push({ path, problem: `expected a list of files, found ${describe(raw)}`, action: 'defaulted' });
+    return [];
+  }
+  const sources: SourceFile[] = [];
+  raw.forEach((file, i) => {
+    const filePath = `${path}[${i}]`;
+    if (!isObject(file) || typeof file.id !== 'string' || !file.id || taken.has(file.id)) {
+      issues.push({ path: filePath, problem: 'source file has no id, or one already used', action: 'dropped' });
+      return;
+    }
+    taken.add(file.id);
+    sources.push({
+      id: file.id,
+      kind,
+      name: typeof file.name === 'string' ? file.name : '',
+      ...(typeof file.channel === 'string' ? { channel: file.channel } : {}),
+      rows: validateRawRows(file.rows, `${filePath}.rows`, issues)
+    });
+  });
+  return sources;
+};
+
+const validateForcedRows = (raw: any, fileIds: Set<string>, issues: SchemaIssue[]): FilesState['forcedRows'] => {
+  if (!isObject(raw)) {
+    issues.push({ path: 'files.forcedRows', problem: `expected rows per file, found ${describe(raw)}`, action: 'defaulted' });
+    return {};
+  }
+  const forced: FilesState['forcedRows'] = {};
+  Object.entries(raw).forEach(([id, rows]) => {
+    if (!fileIds.has(id)) {
+      issues.push({ path: `files.forcedRows.${id}`, problem: 'no source file with this id', action: 'dropped' });
+      return;
+    }
+    forced[id] = validateRowIndexes(rows, `files.forcedRows.${id}`, issues);
+  });
+  return forced;
+};
+
+const validateFiles = (raw: any, issues: SchemaIssue[]): FilesState => {
+  const source = isObject(raw) ? raw : {};
+  if (!isObject(raw)) issues.push({ path: 'files', problem: `expected source data, found ${describe(raw)}`, action: 'defaulted' });
+
+  const classificationMap: Record<string, ExpenseCategory> = {};
+  Object.entries(isObject(source.classificationMap) ? source.classificationMap : {}).forEach(([account, cat]) => {
+    if (Object.values(ExpenseCategory).includes(cat as ExpenseCategory)) {
+      classificationMap[account] = cat as ExpenseCategory;
+    } else {
+      issues.push({ path: `files.classificationMap.${account}`, problem: `unknown category "${cat}"`, action: 'dropped' });
+    }
+  });
+
+  let classificationRules: FilesState['classificationRules'] = [];
+  if (Array.isArray(source.classificationRules)) {
+    classificationRules = normalizeRules(source.classificationRules);
+    const dropped = source.classificationRules.length - classificationRules.length;
+    if (dropped > 0) {
+      issues.push({ path: 'files.classificationRules', problem: `${dropped} rule(s) had no valid category`, action: 'dropped' });
+    }
+  } else {
+    issues.push({ path: 'files.classificationRules', problem: `expected rules, found ${describe(source.classificationRules)}`, action: 'defaulted' });
+  }
+
+  const fileIds = new Set<string>();
+  const ota = validateSourceFiles(source.ota, 'ota', fileIds, issues);
+  const gl = validateSourceFiles(source.gl, 'gl', fileIds, issues);
+
+  return {
+    ota,
+    gl,
+    classificationMap,
+    classificationRules,
+    forcedRows: validateForcedRows(source.forcedRows, fileIds, issues)
+  };
+};
+
+// ---- Processed rows ------------------------------------------------------
+
+type FieldType = 'string' | 'number' | 'boolean';
+type FieldSpec = Record<string, { type: FieldType; required: boolean }>;
+
+const req = (type: FieldType) => ({ type, required: true });
+const opt = (type: FieldType) => ({ type, required: false });
+
+const OTA_ROW_FIELDS: FieldSpec = {
+  id: req('string'),
+  reservation_id: req('string'),
+  check_in_date: req('string'),
+  check_out_date: opt('string'),
+  booking_date: opt('string'),
+  line_type: opt('string'),
+  parent_id: opt('string'),
+  guest_name: req('string'),
+  gross_amount: req('number'),
+  ota_fees: req('number'),
+  net_payout: req('number'),
+  payout_date: req('string'),
+  accommodation_amount: opt('number'),
+  cleaning_fee: opt('number'),
+  pet_fee: opt('number'),
+  extra_guest_fee: opt('number'),
+  lodging_tax: opt('number'),
+  ota_remitted_tax: opt('number'),
+  channel: opt('string'),
+  currency: opt('string'),
+  fx_rate: opt('number'),
+  property_id: opt('string'),
+  match_rule: opt('string'),
+  match_score: opt('number'),
+  timing_difference: opt('boolean')
+};
+
+const GL_ROW_FIELDS: FieldSpec = {
+  id: req('string'),
+  date: req('string'),
+  account_name: req('string'),
+  source_type: req('string'),
+  description: req('string'),
+  contact: req('string'),
+  debit_amount: req('number'),
+  credit_amount: req('number'),
+  currency: opt('string'),
+  fx_rate: opt('number'),
+  property_id: opt('string'),
+  default_category: opt('string'),
+  rule_id: opt('string'),
+  rule_name: opt('string'),
+  assigned_category: opt('string'),
+  split_percent: opt('number'),
+  include_flag: req('boolean'),
+  is_reconciled_ota: req('boolean'),
+  match_rule: opt('string'),
+  match_score: opt('number'),
+  timing_difference: opt('boolean'),
+  note: opt('string')
+};
+
+// Fields limited to a fixed set of values
+const ENUM_FIELDS: Record<string, string[]> = {
+  default_category: Object.values(ExpenseCategory),
+  assigned_category: Object.values(ExpenseCategory),
+  line_type: ADJUSTMENT_TYPES
+};
+
+// Rows missing a required field are dropped. Optional fields of the wrong
+// type are removed from the row, which keeps it.
+const validateCanonicalRows = <T>(raw: any, path: string, spec: FieldSpec, issues: SchemaIssue[]): T[] => {
+  if (!Array.isArray(raw)) {
+    issues.push({ path, problem: `expected rows, found ${describe(raw)}`, action: 'defaulted' });
+    return [];
+  }
+  const rows: T[] = [];
+  raw.forEach((row, i) => {
+    const rowPath = `${path}[${i}]`;
+    if (!isObject(row)) {
+      issues.push({ path: rowPath, problem: `expected a row, found ${describe(row)}`, action: 'dropped' });
+      return;
+    }
+    const broken = Object.entries(spec)
+      .filter(([key, f]) => f.required && typeof row[key] !== f.type)
+      .map(([key, f]) => `${key} (expected ${f.type}, found ${describe(row[key])})`);
+    if (broken.length) {
+      issues.push({ path: rowPath, problem: `malformed ${broken.join(', ')}`, action: 'dropped' });
+      return;
+    }
+    const clean: any = { ...row };
+    Object.entries(spec).forEach(([key, f]) => {
+      const badType = !f.required && clean[key] !== undefined && clean[key] !== null && typeof clean[key] !== f.type;
+      const badValue = key in ENUM_FIELDS && clean[key] !== undefined && !ENUM_FIELDS[key].includes(clean[key]);
+      if (badType || badValue) {
+        issues.push({ path: `${rowPath}.${key}`, problem: `invalid value ${JSON.stringify(clean[key])}`, action: 'dropped' });
+        delete clean[key];
+      }
+    });
+    if (clean.originalData === undefined) clean.originalData = {};
+    rows.push(clean);
+  });
+  return rows;
+};
+
+const RECOGNITION_FIELDS = ['nights', 'periodNights', 'laterNights', 'gross_amount', 'ota_fees', 'net_payout'];
+
+// A prorated share that does not add up is removed; the booking is then
+// counted in full
+const validateRecognition = (rows: any[], path: string, issues: SchemaIssue[]) => {
+  rows.forEach((row, i) => {
+    if (row.recognition === undefined) return;
+    const r = row.recognition;
+    if (!isObject(r) || RECOGNITION_FIELDS.some(key => typeof r[key] !== 'number')) {
+      issues.push({ path: `${path}[${i}].recognition`, problem: 'not a valid prorated share', action: 'dropped' });
+      delete row.recognition;
+    }
+  });
+};
+
+const STAT_KEYS: (keyof ProcessedDataState['stats'])[] = [
+  'totalOtaRevenue', 'totalOtaNet', 'reconciledCount', 'unreconciledCount', 'timingDifferenceCount', 'untaggedCount'
+];
+
+const DIAGNOSTIC_REASONS: DiagnosticReason[] = [
+  'invalid_date', 'out_of_period', 'unparsed_amount', 'zero_amount', 'duplicate_reservation', 'blank_guest', 'component_mismatch'
+];
+
+const validateDiagnostics = (raw: any, issues: SchemaIssue[]): RowDiagnostic[] => {
+  if (!Array.isArray(raw)) {
+    issues.push({ path: 'processedData.diagnostics', problem: `expected a list, found ${describe(raw)}`, action: 'defaulted' });
+    return [];
+  }
+  return raw.filter((d, i) => {
+    const ok = isObject(d) &&
+      (d.source === 'ota' || d.source === 'gl') &&
+      typeof d.file === 'string' &&
+      Number.isInteger(d.row) &&
+      DIAGNOSTIC_REASONS.includes(d.reason) &&
+      typeof d.dropped === 'boolean';
+    if (!ok) issues.push({ path: `processedData.diagnostics[${i}]`, problem: 'not a valid row diagnostic', action: 'dropped' });
+    return ok;
+  });
+};
+
+const validateProcessedData = (raw: any, issues: SchemaIssue[]): ProcessedDataState | null => {
+  if (raw === null || raw === undefined) return null;
+  if (!isObject(raw)) {
+    issues.push({ path: 'processedData', problem: `expected processed data, found ${describe(raw)}`, action: 'dropped' });
+    return null;
+  }
+
+  const otaBookings = validateCanonicalRows<ProcessedDataState['otaBookings'][number]>(raw.otaBookings, 'processedData.otaBookings', OTA_ROW_FIELDS, issues);
+  validateRecognition(otaBookings, 'processedData.otaBookings', issues);
+  const glRows = (key: string) => validateCanonicalRows<ProcessedDataState['glIncome'][number]>(raw[key], `processedData.${key}`, GL_ROW_FIELDS, issues);
+
+  const stats: any = isObject(raw.stats) ? { ...raw.stats } : {};
+  STAT_KEYS.forEach(key => {
+    if (typeof stats[key] !== 'number') {
+      issues.push({ path: `processedData.stats.${key}`, problem: `expected a number, found ${describe(stats[key])}`, action: 'defaulted' });
+      stats[key] = 0;
+    }
+  });
+
+  let dismissedDuplicates: string[] = [];
+  if (Array.isArray(raw.dismissedDuplicates)) {
+    dismissedDuplicates = raw.dismissedDuplicates.filter((k: any) => typeof k === 'string');
+  } else {
+    issues.push({ path: 'processedData.dismissedDuplicates', problem: `expected a list, found ${describe(raw.dismissedDuplicates)}`, action: 'defaulted' });
+  }
+
+  return {
+    otaBookings,
+    glIncome: glRows('glIncome'),
+    glExpenses: glRows('glExpenses'),
+    reviewRows: glRows('reviewRows'),
+    autoReimbursables: glRows('autoReimbursables'),
+    diagnostics: validateDiagnostics(raw.diagnostics, issues),
+    dismissedDuplicates,
+    stats
+  };
+};
+
+// ---- Entry point ---------------------------------------------------------
+
+export const migrateSession = (raw: any): any => {
+  let current = raw;
+  while (current.version < SESSION_VERSION) {
+    const migrate = MIGRATIONS[current.version];
+    if (!migrate) throw new Error(`No migration from session version ${current.version}.`);
+    current = migrate(current);
+  }
+  return current;
+};
+
+export const loadSession = (raw: any): SessionLoadResult => {
+  if (!isObject(raw)) {
+    return { session: null, issues: [], fromVersion: null, error: 'The file is not an STR Invoicer session.' };
+  }
+  const fromVersion = typeof raw.version === 'number' ? raw.version : null;
+  if (fromVersion === null || !Number.isInteger(fromVersion) || fromVersion < 1) {
+    return { session: null, issues: [], fromVersion, error: 'The file has no session version, so it is not an STR Invoicer session.' };
+  }
+  if (fromVersion > SESSION_VERSION) {
+    return {
+      session: null,
+      issues: [],
+      fromVersion,
+      error: `This session was saved by a newer version of STR Invoicer (schema v${fromVersion}; this app reads up to v${SESSION_VERSION}).`
+    };
+  }
+
+  let migrated: any;
+  try {
+    migrated = migrateSession(raw);
+  } catch (err: any) {
+    return { session: null, issues: [], fromVersion, error: err?.message || 'The session could not be upgraded.' };
+  }
+
+  const issues: SchemaIssue[] = [];
+  const files = validateFiles(migrated.files, issues);
+  const processedData = validateProcessedData(migrated.processedData, issues);
+
+  let currentStep: ProcessStep = migrated.currentStep;
+  if (!Object.values(ProcessStep).includes(currentStep)) {
+    issues.push({ path: 'currentStep', problem: `unknown step "${currentStep}"`, action: 'defaulted' });
+    currentStep = processedData ? ProcessStep.REVIEW : ProcessStep.LOAD;
+  }
+  // Without processed data the later steps have nothing to show
+  if (!processedData && (currentStep === ProcessStep.QUALITY || currentStep === ProcessStep.REVIEW || currentStep === ProcessStep.INVOICE)) {
+    currentStep = files.ota.length || files.gl.length ? ProcessStep.MAP : ProcessStep.LOAD;
+  }
+
+  const savedAt = typeof migrated.savedAt === 'string' ? migrated.savedAt : new Date().toISOString();
+  if (typeof migrated.savedAt !== 'string') {
+    issues.push({ path: 'savedAt', problem: `expected a timestamp, found ${describe(migrated.savedAt)}`, action: 'defaulted' });
+  }
+
+  const session: SessionState = {
+    version: SESSION_VERSION,
+    id: typeof migrated.id === 'string' ? migrated.id : undefined,
+    name: typeof migrated.name === 'string' ? migrated.name : undefined,
+    savedAt,
+    createdAt: typeof migrated.createdAt === 'string' ? migrated.createdAt : undefined,
+    currentStep,
+    files,
+    config: validateConfig(migrated.config, issues),
+    mappings: validateMappings(migrated.mappings, issues),
+    processedData
+  };
+
+  return { session, issues, fromVersion };
+};
@@ -0,0 +1,240 @@
+import {
+  IssuedStatement,
+  NumberingScheme,
+  OwnerBalance,
+  StatementLineItem,
+  StatementSnapshotTotals
+} from '../types';
+import { putAll, STATEMENTS_STORE, withStore } from './db';
+
+// Ledger of issued owner statements. Once a statement is finalized its record
+// is never edited again: a change to the underlying data is issued either as
+// a revision (same number, -R1, -R2...) that supersedes it, or as a credit
+// note that reverses it followed by a fresh statement under a new number.
+
+// What the Invoice step is currently showing, ready to be issued
+export interface StatementDraft {
+  subject: string;
+  subjectLabel: string;
+  ownerName: string;
+  ownerId: string;
+  periodStart: string;
+  periodEnd: string;
+  currency: string;
+  sessionId?: string;
+  totals: StatementSnapshotTotals;
+  balance: OwnerBalance;
+  lineItems: StatementLineItem[];
+}
+
+const newStatementId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 9)}`;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// Owner part of a per-owner number: "Jane O'Brien" -> "JANEOB"
+export const ownerCode = (ownerName: string): string =>
+  ownerName.toUpperCase().replace(/[^A-Z0-9]/g, '').substring(0, 6) || 'OWNER';
+
+// Records from before owner IDs were kept under the owner's name
+const ownerIdOf = (s: IssuedStatement) => s.ownerId ?? s.ownerName;
+
+// Sequences reset on the year the period ends in, not the day the statement
+// happens to be issued, so a late December statement keeps its year.
+export const statementYear = (periodEnd: string): number => {
+  const year = parseInt(periodEnd.substring(0, 4), 10);
+  return Number.isFinite(year) && year > 1900 ? year : new Date().getFullYear();
+};
+
+export const formatStatementNumber = (
+  scheme: NumberingScheme,
+  ownerName: string,
+  year: number,
+  sequence: number
+): string => {
+  const parts: string[] = [];
+  if (scheme.resetYearly) parts.push(String(year));
+  if (scheme.perOwnerSequence) parts.push(ownerCode(ownerName));
+  parts.push(String(sequence).padStart(Math.max(1, scheme.padding || 1), '0'));
+  return `${scheme.prefix.trim()}${parts.join('-')}`;
+};
+
+// Only originals advance the sequence; revisions reuse their original's
+// number and credit notes are numbered after the statement they reverse.
+// Per-owner sequences follow the owner ID, so a corrected name continues
+// the same sequence.
+export const nextSequence = (
+  ledger: IssuedStatement[],
+  scheme: NumberingScheme,
+  ownerId: string,
+  year: number
+): number => {
+  const inScope = ledger.filter(s =>
+    s.kind === 'statement' &&
+    (!scheme.resetYearly || s.year === year) &&
+    (!scheme.perOwnerSequence || ownerIdOf(s) === ownerId)
+  );
+  return inScope.reduce((max, s) => Math.max(max, s.sequence), 0) + 1;
+};
+
+export const previewNumber = (ledger: IssuedStatement[], scheme: NumberingScheme, draft: StatementDraft): string => {
+  const year = statementYear(draft.periodEnd);
+  return formatStatementNumber(scheme, draft.ownerName, year, nextSequence(ledger, scheme, draft.ownerId, year));
+};
+
+// The version currently in force for this statement subject and period
+export const findIssued = (
+  ledger: IssuedStatement[],
+  subject: string,
+  periodStart: string,
+  periodEnd: string
+): IssuedStatement | undefined =>
+  ledger.find(s =>
+    s.kind !== 'credit_note' &&
+    s.status === 'final' &&
+    s.subject === subject &&
+    s.periodStart === periodStart &&
+    s.periodEnd === periodEnd
+  );
+
+// Compared to the cent so float noise from recalculation is not a "change"
+export const snapshotMatches = (issued: IssuedStatement, draft: StatementDraft): boolean => {
+  if ((issued.currency || 'USD') !== draft.currency) return false;
+  const keys = Object.keys(issued.totals) as (keyof StatementSnapshotTotals)[];
+  if (keys.some(k => round2(issued.totals[k]) !== round2(draft.totals[k]))) return false;
+  if (issued.balance) {
+    const balanceKeys: (keyof OwnerBalance)[] = ['openingBalance', 'paymentsReceived', 'paymentToOwner', 'closingBalance'];
+    if (balanceKeys.some(k => round2(issued.balance![k] as number) !== round2(draft.balance[k] as number))) return false;
+  }
+  if (issued.lineItems.length !== draft.lineItems.length) return false;
+  return issued.lineItems.every((item, i) => {
+    const other = draft.lineItems[i];
+    return item.section === other.section &&
+      item.description === other.description &&
+      (item.reference || '') === (other.reference || '') &&
+      round2(item.amount) === round2(other.amount);
+  });
+};
+
+const snapshot = (draft: StatementDraft) => ({
+  subject: draft.subject,
+  subjectLabel: draft.subjectLabel,
+  ownerName: draft.ownerName,
+  ownerId: draft.ownerId,
+  periodStart: draft.periodStart,
+  periodEnd: draft.periodEnd,
+  currency: draft.currency,
+  sessionId: draft.sessionId,
+  totals: { ...draft.totals },
+  balance: { ...draft.balance },
+  lineItems: draft.lineItems.map(item => ({ ...item }))
+});
+
+const negateTotals = (totals: StatementSnapshotTotals): StatementSnapshotTotals => {
+  const negated = { ...totals };
+  (Object.keys(negated) as (keyof StatementSnapshotTotals)[]).forEach(k => { negated[k] = -negated[k]; });
+  return negated;
+};
+
+// ---- Storage -------------------------------------------------------------
+
+// Newest first
+export const listStatements = async (): Promise<IssuedStatement[]> => {
+  const all = await withStore<IssuedStatement[]>(STATEMENTS_STORE, 'readonly', store => store.getAll());
+  return all.sort((a, b) => b.issuedAt.localeCompare(a.issuedAt));
+};
+
+export const issueStatement = async (
+  ledger: IssuedStatement[],
+  scheme: NumberingScheme,
+  draft: StatementDraft
+): Promise<IssuedStatement> => {
+  if (findIssued(ledger, draft.subject, draft.periodStart, draft.periodEnd)) {
+    throw new Error('This statement has already been finalized. Issue a revision or credit note instead.');
+  }
+  const year = statementYear(draft.periodEnd);
+  const sequence = nextSequence(ledger, scheme, draft.ownerId, year);
+  const issued: IssuedStatement = {
+    ...snapshot(draft),
+    id: newStatementId(),
+    number: formatStatementNumber(scheme, draft.ownerName, year, sequence),
+    kind: 'statement',
+    status: 'final',
+    sequence,
+    year,
+    revision: 0,
+    issuedAt: new Date().toISOString()
+  };
+  await putAll(STATEMENTS_STORE, [issued]);
+  return issued;
+};
+
+export const issueRevision = async (
+  previous: IssuedStatement,
+  draft: StatementDraft
+): Promise<IssuedStatement> => {
+  // Revisions hang off the original's number, whichever version is replaced
+  const baseNumber = previous.number.replace(/-R\d+$/, '');
+  const revision = previous.revision + 1;
+  const issued: IssuedStatement = {
+    ...snapshot(draft),
+    id: newStatementId(),
+    number: `${baseNumber}-R${revision}`,
+    kind: 'revision',
+    status: 'final',
+    sequence: previous.sequence,
+    year: previous.year,
+    revision,
+    supersedesId: previous.id,
+    issuedAt: new Date().toISOString()
+  };
+  await putAll(STATEMENTS_STORE, [{ ...previous, status: 'superseded' }, issued]);
+  return issued;
+};
+
+// Reverses `previous` in full and issues the corrected statement under the
+// next number in sequence.
+export const issueCreditNote = async (
+  ledger: IssuedStatement[],
+  scheme: NumberingScheme,
+  previous: IssuedStatement,
+  draft: StatementDraft
+): Promise<{ creditNote: IssuedStatement; reissued: IssuedStatement }> => {
+  const now = new Date().toISOString();
+  const creditNote: IssuedStatement = {
+    id: newStatementId(),
+    number: `CN-${previous.number}`,
+    kind: 'credit_note',
+    status: 'final',
+    sequence: previous.sequence,
+    year: previous.year,
+    revision: previous.revision,
+    creditsId: previous.id,
+    subject: previous.subject,
+    subjectLabel: previous.subjectLabel,
+    ownerName: previous.ownerName,
+    ...(previous.ownerId !== undefined ? { ownerId: previous.ownerId } : {}),
+    periodStart: previous.periodStart,
+    periodEnd: previous.periodEnd,
+    currency: previous.currency,
+    issuedAt: now,
+    sessionId: draft.sessionId,
+    totals: negateTotals(previous.totals),
+    lineItems: previous.lineItems.map(item => ({ ...item, amount: -item.amount }))
+  };
+  const year = statementYear(draft.periodEnd);
+  const sequence = nextSequence(ledger, scheme, draft.ownerId, year);
+  const reissued: IssuedStatement = {
+    ...snapshot(draft),
+    id: newStatementId(),
+    number: formatStatementNumber(scheme, draft.ownerName, year, sequence),
+    kind: 'statement',
+    status: 'final',
+    sequence,
+    year,
+    revision: 0,
+    issuedAt: now
+  };
+  await putAll(STATEMENTS_STORE, [{ ...previous, status: 'credited' }, creditNote, reissued]);
+  return { creditNote, reissued };
+};
@@ -0,0 +1,166 @@
+import {
+  CanonicalGlRow,
+  CanonicalOtaRow,
+  ConfigState,
+  ExpenseCategory,
+  ProcessedDataState,
+  PropertyConfig,
+  StatementLineItem
+} from '../types';
+import { calculateManagementFee, FeeLine } from './feeModel';
+import { calculateTaxes, sumTaxes, TaxSummary } from './taxes';
+import { recognizedBooking } from './recognition';
+import { groupBookings, isReservation, LINE_TYPE_LABELS } from './adjustments';
+import { PayoutReconciliation, reconcilePayouts, sumPayoutReconciliations } from './reconciliation';
+
+// Statement arithmetic: what the owner received, what is deducted, and the
+// line items frozen into the ledger when a statement is finalized.
+
+export interface StatementTotals {
+  grossRevenue: number;
+  netPayouts: number;
+  feeBase: number;
+  feeBaseLabel: string;
+  feeLines: FeeLine[];
+  mgmtFeeAmount: number;
+  totalReimbursables: number;
+  taxes: TaxSummary;
+  totalTax: number;
+  totalDeductions: number;
+  netToOwner: number;
+  reimbursableItems: CanonicalGlRow[];
+  payouts: PayoutReconciliation; // bank side of the payouts; does not change netToOwner
+}
+
+// Shared expenses are charged at the owner's split
+export const chargedAmount = (item: CanonicalGlRow) =>
+  item.assigned_category === ExpenseCategory.SHARED
+    ? item.debit_amount * ((item.split_percent ?? 100) / 100)
+    : item.debit_amount;
+
+export const calculateTotals = (data: ProcessedDataState, config: ConfigState): StatementTotals => {
+  // Prorated bookings are charged on the period's share only. Figures are
+  // taken from the bookings as the Review step left them (merged
+  // duplicates gone, workbench links applied), not the import's stats.
+  const bookings = data.otaBookings.map(recognizedBooking);
+  const grossRevenue = bookings.reduce((sum, b) => sum + b.gross_amount, 0);
+  const netPayouts = bookings.reduce((sum, b) => sum + b.net_payout, 0);
+  const fee = calculateManagementFee(bookings, config);
+  const reimbursableItems = [
+    ...data.autoReimbursables,
+    ...data.reviewRows
+  ].filter(r => r.include_flag);
+  const totalReimbursables = reimbursableItems.reduce((sum, r) => sum + chargedAmount(r), 0);
+  const taxes = calculateTaxes(bookings, fee.amount, totalReimbursables, config.taxes);
+  const totalDeductions = fee.amount + totalReimbursables + taxes.totalDeducted;
+  return {
+    grossRevenue,
+    netPayouts,
+    feeBase: fee.feeBase,
+    feeBaseLabel: fee.feeBaseLabel,
+    feeLines: fee.lines,
+    mgmtFeeAmount: fee.amount,
+    totalReimbursables,
+    taxes,
+    totalTax: taxes.totalDeducted,
+    totalDeductions,
+    netToOwner: netPayouts - totalDeductions,
+    reimbursableItems,
+    payouts: reconcilePayouts(data.otaBookings, data.glIncome)
+  };
+};
+
+// Owner roll-up: properties may use different fee models, so the combined
+// fee base is only a sum for display and the label says so. Per-property fee
+// breakdowns are not combined.
+export const sumTotals = (parts: StatementTotals[], config: ConfigState): StatementTotals => ({
+  grossRevenue: parts.reduce((sum, t) => sum + t.grossRevenue, 0),
+  netPayouts: parts.reduce((sum, t) => sum + t.netPayouts, 0),
+  feeBase: parts.reduce((sum, t) => sum + t.feeBase, 0),
+  feeBaseLabel: 'combined fee base',
+  feeLines: [],
+  mgmtFeeAmount: parts.reduce((sum, t) => sum + t.mgmtFeeAmount, 0),
+  totalReimbursables: parts.reduce((sum, t) => sum + t.totalReimbursables, 0),
+  taxes: sumTaxes(parts.map(t => t.taxes), config.taxes),
+  totalTax: parts.reduce((sum, t) => sum + t.totalTax, 0),
+  totalDeductions: parts.reduce((sum, t) => sum + t.totalDeductions, 0),
+  netToOwner: parts.reduce((sum, t) => sum + t.netToOwner, 0),
+  reimbursableItems: parts.reduce<CanonicalGlRow[]>((all, t) => all.concat(t.reimbursableItems), []),
+  payouts: sumPayoutReconciliations(parts.map(t => t.payouts))
+});
+
+// Taxes deducted from the owner, as printed under the deductions
+export const taxLines = (taxes: TaxSummary): [string, number][] => {
+  const lines: [string, number][] = [];
+  if (taxes.withheldForRemittance) lines.push(['Lodging tax withheld for remittance', taxes.withheldForRemittance]);
+  if (taxes.feeTax) lines.push([`${taxes.feeTaxLabel} on management fee (${taxes.feeTaxPercent}%)`, taxes.feeTax]);
+  if (taxes.reimbursableTax) lines.push([`${taxes.feeTaxLabel} on reimbursables (${taxes.reimbursableTaxPercent}%)`, taxes.reimbursableTax]);
+  return lines;
+};
+
+export interface ChannelSubtotal {
+  channel: string;
+  bookings: number;
+  netPayouts: number;
+}
+
+// Net payouts recognised per booking channel, in order of first appearance.
+// Bookings with no channel are grouped under "Other". Adjustment lines add
+// to the amount but are not counted as bookings.
+export const channelSubtotals = (bookings: CanonicalOtaRow[]): ChannelSubtotal[] => {
+  const byChannel = new Map<string, ChannelSubtotal>();
+  bookings.forEach(b => {
+    const channel = b.channel || 'Other';
+    const entry = byChannel.get(channel) || { channel, bookings: 0, netPayouts: 0 };
+    if (isReservation(b)) entry.bookings++;
+    entry.netPayouts += recognizedBooking(b).net_payout;
+    byChannel.set(channel, entry);
+  });
+  return Array.from(byChannel.values());
+};
+
+// The lines frozen into the ledger when a statement is finalized, in the
+// order they are printed: each booking followed by its adjustments. A roll-up is recorded as one line per property.
+export const buildLineItems = (
+  bookings: CanonicalOtaRow[],
+  totals: StatementTotals,
+  rollup: { property: PropertyConfig; totals: StatementTotals }[]
+): StatementLineItem[] => {
+  if (rollup.length) {
+    return rollup.map(({ property, totals: t }) => ({
+      section: 'property',
+      description: property.name,
+      reference: property.id,
+      amount: t.netToOwner
+    }));
+  }
+  return [
+    ...groupBookings(bookings).flatMap(g => [g.booking, ...g.adjustments]).map((b): StatementLineItem => ({
+      section: 'booking',
+      date: b.check_in_date || b.payout_date,
+      description: b.line_type
+        ? `${LINE_TYPE_LABELS[b.line_type]}: ${b.guest_name || b.reservation_id || 'Guest Booking'}`
+        : b.guest_name || 'Guest Booking',
+      reference: b.reservation_id,
+      ...(b.channel ? { channel: b.channel } : {}),
+      amount: recognizedBooking(b).net_payout
+    })),
+    ...totals.feeLines.map((line): StatementLineItem => ({
+      section: 'fee',
+      description: `Management fee: ${line.label}`,
+      amount: -line.amount
+    })),
+    ...totals.reimbursableItems.map((item): StatementLineItem => ({
+      section: 'expense',
+      date: item.date,
+      description: item.description,
+      reference: item.account_name,
+      amount: -chargedAmount(item)
+    })),
+    ...taxLines(totals.taxes).map(([description, amount]): StatementLineItem => ({
+      section: 'tax',
+      description,
+      amount: -amount
+    }))
+  ];
+};
@@ -0,0 +1,74 @@
+import { CanonicalOtaRow, TaxSettings } from '../types';
+
+// Tax on a statement comes from two places:
+//  - lodging/occupancy tax collected on bookings, split between what the OTA
+//    remits as marketplace facilitator and what the manager must remit;
+//  - tax the manager charges on its own fee and on reimbursed expenses.
+// Only the manager-remitted lodging tax (when withheld) and the fee and
+// reimbursable taxes reduce what the owner receives.
+
+export interface TaxSummary {
+  lodgingTaxCollected: number;
+  remittedByOta: number;
+  remittedByManager: number;
+  withheldForRemittance: number; // remittedByManager, if withholding is on
+  feeTaxLabel: string;
+  feeTaxPercent: number;
+  feeTax: number;
+  reimbursableTaxPercent: number;
+  reimbursableTax: number;
+  totalDeducted: number;
+}
+
+export const isMarketplaceChannel = (booking: CanonicalOtaRow, settings: TaxSettings) =>
+  !!booking.channel && settings.marketplaceChannels.some(c => c.toLowerCase() === booking.channel!.toLowerCase());
+
+// A mapped "tax remitted by OTA" column wins; otherwise a marketplace channel
+// is taken to remit everything it collected.
+export const otaRemittedTax = (booking: CanonicalOtaRow, settings: TaxSettings): number => {
+  const collected = booking.lodging_tax || 0;
+  if (booking.ota_remitted_tax !== undefined) return Math.min(booking.ota_remitted_tax, collected);
+  return isMarketplaceChannel(booking, settings) ? collected : 0;
+};
+
+export const calculateTaxes = (
+  bookings: CanonicalOtaRow[],
+  mgmtFeeAmount: number,
+  totalReimbursables: number,
+  settings: TaxSettings
+): TaxSummary => {
+  const lodgingTaxCollected = bookings.reduce((sum, b) => sum + (b.lodging_tax || 0), 0);
+  const remittedByOta = bookings.reduce((sum, b) => sum + otaRemittedTax(b, settings), 0);
+  const remittedByManager = lodgingTaxCollected - remittedByOta;
+  const withheldForRemittance = settings.withholdManagerRemittedTax ? remittedByManager : 0;
+  const feeTax = mgmtFeeAmount * (settings.feeTaxPercent / 100);
+  const reimbursableTax = totalReimbursables * (settings.reimbursableTaxPercent / 100);
+  return {
+    lodgingTaxCollected,
+    remittedByOta,
+    remittedByManager,
+    withheldForRemittance,
+    feeTaxLabel: settings.feeTaxLabel || 'Tax',
+    feeTaxPercent: settings.feeTaxPercent,
+    feeTax,
+    reimbursableTaxPercent: settings.reimbursableTaxPercent,
+    reimbursableTax,
+    totalDeducted: withheldForRemittance + feeTax + reimbursableTax
+  };
+};
+
+export const sumTaxes = (parts: TaxSummary[], settings: TaxSettings): TaxSummary => {
+  const total = (key: keyof TaxSummary) => parts.reduce((sum, t) => sum + (t[key] as number), 0);
+  return {
+    lodgingTaxCollected: total('lodgingTaxCollected'),
+    remittedByOta: total('remittedByOta'),
+    remittedByManager: total('remittedByManager'),
+    withheldForRemittance: total('withheldForRemittance'),
+    feeTaxLabel: settings.feeTaxLabel || 'Tax',
+    feeTaxPercent: settings.feeTaxPercent,
+    feeTax: total('feeTax'),
+    reimbursableTaxPercent: settings.reimbursableTaxPercent,
+    reimbursableTax: total('reimbursableTax'),
+    totalDeducted: total('totalDeducted')
+  };
+};
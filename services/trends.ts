@@ -0,0 +1,173 @@
+import { IssuedStatement, StatementSnapshotTotals } from '../types';
+import { statementYear } from './statementLedger';
+
+// Figures across finalized statements. Only the version in force of each
+// statement counts (credit notes, and the versions they reverse or that were
+// revised, drop out), and only statements in the currency being reported,
+// since the ledger keeps amounts as they were issued.
+
+export type TrendMetric = 'grossRevenue' | 'netPayouts' | 'mgmtFeeAmount' | 'totalReimbursables' | 'totalTax' | 'netToOwner';
+
+export const TREND_METRICS: { key: TrendMetric; label: string }[] = [
+  { key: 'grossRevenue', label: 'Gross revenue' },
+  { key: 'netPayouts', label: 'Funds received' },
+  { key: 'mgmtFeeAmount', label: 'Management fees' },
+  { key: 'totalReimbursables', label: 'Reimbursables' },
+  { key: 'totalTax', label: 'Tax deducted' },
+  { key: 'netToOwner', label: 'Net to owner' }
+];
+
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// A statement as the reports see it; the Invoice step's unissued draft
+// takes part too
+export interface TrendStatement {
+  number: string;
+  periodStart: string;
+  periodEnd: string;
+  totals: StatementSnapshotTotals;
+  paidToOwner: number;
+  draft?: boolean;
+}
+
+// Statements are placed in the month their period ends in
+export interface TrendMonth {
+  key: string;   // YYYY-MM
+  year: number;
+  month: number; // 1-12
+  label: string; // "Mar 2025"
+  totals: StatementSnapshotTotals;
+  paidToOwner: number;
+  numbers: string[];
+  draft: boolean;
+}
+
+export const emptyTotals = (): StatementSnapshotTotals => ({
+  grossRevenue: 0,
+  netPayouts: 0,
+  feeBase: 0,
+  mgmtFeeAmount: 0,
+  totalReimbursables: 0,
+  totalTax: 0,
+  totalDeductions: 0,
+  netToOwner: 0
+});
+
+// totalTax is absent on ledger records from before taxes were tracked
+export const addTotals = (a: StatementSnapshotTotals, b: StatementSnapshotTotals): StatementSnapshotTotals => {
+  const sum = { ...a };
+  (Object.keys(sum) as (keyof StatementSnapshotTotals)[]).forEach(k => { sum[k] = (a[k] || 0) + (b[k] || 0); });
+  return sum;
+};
+
+export const trendStatement = (s: IssuedStatement): TrendStatement => ({
+  number: s.number,
+  periodStart: s.periodStart,
+  periodEnd: s.periodEnd,
+  totals: s.totals,
+  paidToOwner: s.balance?.paymentToOwner ?? s.totals.netToOwner
+});
+
+// Oldest first
+export const statementsInForce = (ledger: IssuedStatement[], subject: string, currency: string): IssuedStatement[] =>
+  ledger
+    .filter(s =>
+      s.kind !== 'credit_note' &&
+      s.status === 'final' &&
+      s.subject === subject &&
+      (s.currency || 'USD') === currency &&
+      !!s.periodEnd
+    )
+    .sort((a, b) => a.periodEnd.localeCompare(b.periodEnd));
+
+// Distinct statement subjects in the ledger, labelled as last issued
+export const ledgerSubjects = (ledger: IssuedStatement[]): { subject: string; label: string }[] => {
+  const labels = new Map<string, { label: string; issuedAt: string }>();
+  ledger.forEach(s => {
+    const known = labels.get(s.subject);
+    if (!known || s.issuedAt > known.issuedAt) {
+      labels.set(s.subject, { label: s.ownerName ? `${s.subjectLabel} · ${s.ownerName}` : s.subjectLabel, issuedAt: s.issuedAt });
+    }
+  });
+  return Array.from(labels.entries()).map(([subject, { label }]) => ({ subject, label }));
+};
+
+export const monthlyTrend = (statements: TrendStatement[]): TrendMonth[] => {
+  const months = new Map<string, TrendMonth>();
+  statements.forEach(s => {
+    const key = s.periodEnd.substring(0, 7);
+    const year = statementYear(s.periodEnd);
+    const month = parseInt(s.periodEnd.substring(5, 7), 10) || 1;
+    const entry = months.get(key) || {
+      key, year, month, label: `${MONTH_LABELS[month - 1]} ${year}`, totals: emptyTotals(), paidToOwner: 0, numbers: [], draft: false
+    };
+    entry.totals = addTotals(entry.totals, s.totals);
+    entry.paidToOwner += s.paidToOwner;
+    entry.numbers.push(s.number);
+    entry.draft = entry.draft || !!s.draft;
+    months.set(key, entry);
+  });
+  return Array.from(months.values()).sort((a, b) => a.key.localeCompare(b.key));
+};
+
+// One point per calendar month of `year`, against the same month a year
+// earlier; months without a statement are null
+export const yearOverYear = (months: TrendMonth[], year: number, metric: TrendMetric) =>
+  MONTH_LABELS.map((label, i) => {
+    const value = (y: number) => {
+      const m = months.find(m => m.year === y && m.month === i + 1);
+      return m ? m.totals[metric] || 0 : null;
+    };
+    return { label, current: value(year), previous: value(year - 1) };
+  });
+
+// Statements earlier in the same year as the period, plus the period itself
+export const yearToDate = (
+  ledger: IssuedStatement[],
+  subject: string,
+  currency: string,
+  period: { periodStart: string; periodEnd: string; totals: StatementSnapshotTotals }
+): { totals: StatementSnapshotTotals; statements: number } => {
+  const year = statementYear(period.periodEnd);
+  const prior = statementsInForce(ledger, subject, currency)
+    .filter(s => statementYear(s.periodEnd) === year && (!period.periodStart || s.periodEnd < period.periodStart));
+  return {
+    totals: prior.reduce((sum, s) => addTotals(sum, s.totals), period.totals),
+    statements: prior.length
+  };
+};
+
+export interface AnnualSummary {
+  year: number;
+  months: TrendMonth[];
+  totals: StatementSnapshotTotals;
+  paidToOwner: number;
+  otaFees: number; // gross revenue less funds received: channel commission and fees
+  expensesByAccount: { account: string; amount: number }[];
+  statements: IssuedStatement[];
+}
+
+// What the owner's tax preparer needs for the year: income, fees and
+// charges, and what was paid out, from the statements issued for it
+export const annualSummary = (ledger: IssuedStatement[], subject: string, currency: string, year: number): AnnualSummary => {
+  const statements = statementsInForce(ledger, subject, currency).filter(s => statementYear(s.periodEnd) === year);
+  const expenses = new Map<string, number>();
+  statements.forEach(s => s.lineItems
+    .filter(item => item.section === 'expense')
+    .forEach(item => {
+      const account = item.reference || item.description;
+      expenses.set(account, (expenses.get(account) || 0) - item.amount);
+    }));
+  const totals = statements.reduce((sum, s) => addTotals(sum, s.totals), emptyTotals());
+  return {
+    year,
+    months: monthlyTrend(statements.map(trendStatement)),
+    totals,
+    paidToOwner: statements.reduce((sum, s) => sum + (s.balance?.paymentToOwner ?? s.totals.netToOwner), 0),
+    otaFees: totals.grossRevenue - totals.netPayouts,
+    expensesByAccount: Array.from(expenses.entries())
+      .map(([account, amount]) => ({ account, amount }))
+      .sort((a, b) => b.amount - a.amount),
+    statements
+  };
+};
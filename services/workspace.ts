@@ -0,0 +1,102 @@
+import { SessionState } from '../types';
+import { SESSIONS_STORE, withStore as withDbStore } from './db';
+
+// Local, offline session storage backed by IndexedDB. Every session is kept
+// whole under its id; listings are built from the stored records.
+
+export interface WorkspaceSession extends SessionState {
+  id: string;
+  name: string;
+}
+
+export interface SessionSummary {
+  id: string;
+  name: string;
+  ownerName: string;
+  periodStart: string;
+  periodEnd: string;
+  currentStep: SessionState['currentStep'];
+  savedAt: string;
+  createdAt?: string;
+}
+
+export const newSessionId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 9)}`;
+
+export const defaultSessionName = (session: SessionState): string => {
+  const owner = session.config.ownerName || 'Untitled';
+  const period = session.config.periodStart
+    ? `${session.config.periodStart} – ${session.config.periodEnd || '…'}`
+    : 'No period';
+  return `${owner} · ${period}`;
+};
+
+const withStore = <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) =>
+  withDbStore<T>(SESSIONS_STORE, mode, run);
+
+const toSummary = (s: WorkspaceSession): SessionSummary => ({
+  id: s.id,
+  name: s.name,
+  ownerName: s.config?.ownerName || '',
+  periodStart: s.config?.periodStart || '',
+  periodEnd: s.config?.periodEnd || '',
+  currentStep: s.currentStep,
+  savedAt: s.savedAt,
+  createdAt: s.createdAt
+});
+
+// Sorted by owner, then most recent period first
+export const listSessions = async (): Promise<SessionSummary[]> => {
+  const all = await withStore<WorkspaceSession[]>('readonly', store => store.getAll());
+  return all
+    .map(toSummary)
+    .sort((a, b) =>
+      a.ownerName.localeCompare(b.ownerName) ||
+      b.periodStart.localeCompare(a.periodStart) ||
+      b.savedAt.localeCompare(a.savedAt)
+    );
+};
+
+export const getSession = (id: string): Promise<WorkspaceSession | undefined> =>
+  withStore<WorkspaceSession | undefined>('readonly', store => store.get(id));
+
+export const putSession = async (session: WorkspaceSession): Promise<void> => {
+  await withStore('readwrite', store => store.put(session));
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  await withStore('readwrite', store => store.delete(id));
+};
+
+export const renameSession = async (id: string, name: string): Promise<void> => {
+  const session = await getSession(id);
+  if (!session) return;
+  await putSession({ ...session, name });
+};
+
+export const duplicateSession = async (id: string): Promise<WorkspaceSession | undefined> => {
+  const session = await getSession(id);
+  if (!session) return undefined;
+  const now = new Date().toISOString();
+  const copy: WorkspaceSession = {
+    ...session,
+    id: newSessionId(),
+    name: `${session.name} (copy)`,
+    createdAt: now,
+    savedAt: now
+  };
+  await putSession(copy);
+  return copy;
+};
+
+// Autosave entry point: keeps the name and creation time already stored for
+// this id, so a rename in the workspace list is not undone by the next save.
+export const saveToWorkspace = async (id: string, session: SessionState): Promise<void> => {
+  const existing = await getSession(id);
+  await putSession({
+    ...session,
+    id,
+    name: existing?.name || session.name || defaultSessionName(session),
+    createdAt: existing?.createdAt || session.createdAt || session.savedAt
+  });
+};
@@ -1,6 +1,7 @@
 export enum ProcessStep {
   LOAD = 'LOAD',
   MAP = 'MAP',
+  QUALITY = 'QUALITY',
   REVIEW = 'REVIEW',
   INVOICE = 'INVOICE'
 }
@@ -14,6 +15,53 @@ export enum ExpenseCategory {
   REVIEW_ALWAYS = 'REVIEW_ALWAYS'
 }
 
+export type FeeBaseMode = 'gross_revenue' | 'net_payouts';
+
+// OTA lines other than the reservation itself, each linked back to the
+// reservation it belongs to
+export type BookingAdjustmentType = 'adjustment' | 'resolution' | 'cancellation_fee' | 'refund';
+export type BookingLineType = 'reservation' | BookingAdjustmentType;
+
+// Per adjustment type: whether it is counted in the management fee base
+export type AdjustmentFeeBase = Record<BookingAdjustmentType, boolean>;
+
+// Which date places a booking in a statement period; 'nightly' splits a stay
+// across periods by the nights spent in each
+export type RecognitionMode = 'check_in' | 'check_out' | 'payout_date' | 'nightly';
+
+// A single unit in portfolio mode. Fee terms and owner override the
+// top-level ConfigState values when producing that unit's statement.
+export interface PropertyConfig {
+  id: string;
+  name: string;
+  listingIds: string[]; // OTA listing IDs / GL tracking codes that identify this unit
+  ownerName: string;
+  ownerId: string;      // statement history key for ownerName; see ConfigState.ownerId
+  mgmtFeePercent: number;
+  feeBaseMode: FeeBaseMode;
+  feeModel?: FeeModel; // absent = use the portfolio-wide fee model
+}
+
+// A band of the fee base. Bands are listed in ascending order; the last one
+// has no upper limit (upTo null).
+export interface FeeTier {
+  upTo: number | null;
+  percent: number;
+}
+
+// Composite management fee. mgmtFeePercent is the rate when there are no
+// tiers; every other part is optional and adds to or adjusts that fee.
+export interface FeeModel {
+  tiers: FeeTier[];
+  tierMode: 'marginal' | 'whole'; // marginal: each band at its own rate; whole: the band reached applies to everything
+  minimumFee: number;             // per statement period
+  perBookingFee: number;
+  excludeCleaningFees: boolean;   // cleaning is passed through, not fee-bearing
+  excludePetFees: boolean;
+  excludeExtraGuestFees: boolean;
+  channelPercents: Record<string, number>; // channel -> flat rate replacing the tiers for its bookings
+}
+
 export interface ConfigState {
   periodStart: string;
   periodEnd: string;
@@ -21,35 +69,205 @@ export interface ConfigState {
   managerContact: string;
   managerBank: string;
   ownerName: string;
+  ownerId: string;               // key of the owner's statement history and numbering; set once from the name
   mgmtFeePercent: number;
-  feeBaseMode: 'gross_revenue' | 'net_payouts';
+  feeBaseMode: FeeBaseMode;
+  feeModel: FeeModel;
+  recognitionMode: RecognitionMode;
+  kpiSummary: boolean;           // occupancy and rate figures on the statement
+  adjustmentFeeBase: AdjustmentFeeBase;
+  portfolioMode: boolean;
+  properties: PropertyConfig[];
+  numbering: NumberingScheme;
+  balances: BalanceSettings;
+  taxes: TaxSettings;
+  currency: string;              // ISO 4217 code every amount is converted to
+  exchangeRates: ExchangeRate[];
+}
+
+// 1 unit of `currency` = `rate` units of the statement currency. Dated rates
+// apply from their date on; an undated rate is the fallback.
+export interface ExchangeRate {
+  currency: string;
+  rate: number;
+  date?: string;
+}
+
+// Lodging/occupancy tax is reported per booking: an OTA acting as marketplace
+// facilitator remits it itself; anything else the manager must remit and can
+// hold back from the owner's funds. Fee and reimbursable taxes (VAT, GST) are
+// charged to the owner on top of the amounts they apply to.
+export interface TaxSettings {
+  marketplaceChannels: string[];     // channels that remit all lodging tax they collect
+  withholdManagerRemittedTax: boolean;
+  feeTaxLabel: string;               // e.g. VAT, GST, Sales Tax
+  feeTaxPercent: number;
+  reimbursableTaxPercent: number;
+}
+
+// Owner account carried between statements. A positive balance is money held
+// for the owner; a negative one is a deficit the owner owes the manager.
+export interface BalanceSettings {
+  reserveTarget: number;          // float the manager keeps back from payouts
+  ownerPaymentsReceived: number;  // paid in by the owner this period
+  manualOpeningBalance: boolean;  // use openingBalance instead of the ledger
+  openingBalance: number;
+}
+
+// Statement numbers look like <prefix><year>-<owner code>-<sequence>; the
+// year and owner parts appear only when the sequence is scoped by them.
+export interface NumberingScheme {
+  prefix: string;
+  perOwnerSequence: boolean; // each owner has their own 1, 2, 3...
+  resetYearly: boolean;      // sequence restarts each year (period-end year)
+  padding: number;           // minimum digits in the sequence part
+}
+
+// Conditions are ANDed; blank conditions are ignored. When several rules
+// match, the highest priority wins (ties: first in the list).
+export interface ClassificationRule {
+  id: string;
+  name: string;
+  priority: number;
+  enabled: boolean;
+  account?: string;            // exact, case-insensitive
+  contact?: string;            // substring, case-insensitive
+  descriptionPattern?: string; // regular expression, case-insensitive
+  minAmount?: number;          // inclusive, on the debit amount
+  maxAmount?: number;
+  sourceType?: string;         // exact, case-insensitive
+  category: ExpenseCategory;
+  splitPercent?: number;       // default owner share for SHARED
+  note?: string;
+}
+
+export type SourceKind = 'ota' | 'gl';
+
+// One uploaded export. Any number of OTA and GL files can be loaded; each is
+// read with its own mapping and merged with the others of its kind.
+export interface SourceFile {
+  id: string;
+  kind: SourceKind;
+  name: string;      // file name as uploaded
+  channel?: string;  // OTA: label for bookings whose row carries no channel of its own
+  rows: any[];
 }
 
 export interface FilesState {
-  otaRaw: any[];
-  glRaw: any[];
+  ota: SourceFile[];
+  gl: SourceFile[];
   classificationMap: Record<string, ExpenseCategory>;
+  classificationRules: ClassificationRule[];
+  forcedRows: Record<string, number[]>; // source file id -> rows kept despite falling outside the period
+}
+
+// Known export layouts (services/importPresets.ts)
+export type ImportPresetId =
+  | 'airbnb_transactions'
+  | 'airbnb_earnings'
+  | 'vrbo_payouts'
+  | 'booking_payouts'
+  | 'xero_gl'
+  | 'qbo_journal'
+  | 'wave_transactions';
+
+export interface SourceMapping {
+  fields: Record<string, string>; // internal field -> csv header
+  expressions?: Record<string, string>; // internal field -> expression over the columns; wins over fields
+  locale: FileLocale;
+  preset?: ImportPresetId;        // applies the export's own quirks when processing
 }
 
 export interface MappingState {
-  ota: Record<string, string>; // internal field -> csv header
-  gl: Record<string, string>;
+  sources: Record<string, SourceMapping>; // keyed by source file id
+}
+
+// A mapping saved for reuse. It is applied to any later file of the same
+// kind whose header set has the same fingerprint (services/mappingProfiles.ts).
+export interface MappingProfile {
+  id: string;
+  name: string;
+  kind: SourceKind;
+  fingerprint: string;
+  headers: string[];  // the header set it was saved from
+  fields: Record<string, string>;
+  expressions?: Record<string, string>;
+  locale: FileLocale;
+  channel?: string;   // OTA: channel label for files that have none
+  preset?: ImportPresetId;
+  updatedAt: string;
 }
 
+export type DateOrder = 'MDY' | 'DMY' | 'YMD';
+
+// How a source file writes dates and numbers ("03/04/2025", "1.234,56").
+// Detected from the mapped columns when files are loaded; editable on the
+// Map step.
+export interface FileLocale {
+  dateOrder: DateOrder;
+  decimalSeparator: '.' | ',';
+  thousandsSeparator: ',' | '.' | ' ' | "'" | '';
+}
+
+// How an OTA booking was tied to GL income. See services/reconciliation.ts.
+export type MatchRule =
+  | 'reference'       // reservation ID appears in the GL text
+  | 'scored'          // best global assignment on amount, date and text
+  | 'batched_payout'  // one deposit covers several bookings
+  | 'split_payout'    // one booking paid out over several deposits
+  | 'manual';         // linked by hand in the Review step
+
 // Normalized Data Structures
 export interface CanonicalOtaRow {
   id: string; // generated uuid
   reservation_id: string;
   check_in_date: string; // ISO date string YYYY-MM-DD
   check_out_date?: string;
+  booking_date?: string; // when the reservation was made
+  line_type?: BookingAdjustmentType; // absent on the reservation line itself
+  parent_id?: string;   // adjustments: the reservation line on this statement, when there is one
   guest_name: string;
   gross_amount: number;
   ota_fees: number;
   net_payout: number;
   payout_date: string;
+  accommodation_amount?: number; // nightly rate total; with the fees below, the parts of gross_amount
+  cleaning_fee?: number;
+  pet_fee?: number;
+  extra_guest_fee?: number;
+  lodging_tax?: number;       // occupancy/lodging tax collected on the booking
+  ota_remitted_tax?: number;  // part of it remitted by the OTA itself
+  channel?: string;     // Airbnb, Vrbo, Direct...
+  currency?: string;    // currency the row was reported in
+  fx_rate?: number;     // rate used to convert it; absent when no rate was found
+  property_id?: string; // portfolio mode only
+
+  // Reconciliation fields
+  matched_gl_ids?: string[];
+  match_rule?: MatchRule;
+  match_score?: number; // 0-1
+  timing_difference?: boolean; // payout lands outside the period; not expected in this GL
+  recognition?: BookingRecognition; // nightly mode: stay runs outside the period
   originalData: any;
 }
 
+// The period's share of a booking prorated by nights. Amounts are the part
+// recognised in the period; the booking keeps its full amounts.
+export interface BookingRecognition {
+  nights: number;
+  periodNights: number;
+  laterNights: number; // after the period end; deferred to later statements
+  gross_amount: number;
+  ota_fees: number;
+  net_payout: number;
+  accommodation_amount?: number;
+  cleaning_fee?: number;
+  pet_fee?: number;
+  extra_guest_fee?: number;
+  lodging_tax?: number;
+  ota_remitted_tax?: number;
+}
+
 export interface CanonicalGlRow {
   id: string; // generated uuid
   date: string;
@@ -59,37 +277,142 @@ export interface CanonicalGlRow {
   contact: string;
   debit_amount: number;
   credit_amount: number;
+  currency?: string;
+  fx_rate?: number;
+  property_id?: string; // portfolio mode only
   
   // Classification fields
   default_category?: ExpenseCategory;
+  rule_id?: string;   // rule (or classification map) that set default_category
+  rule_name?: string;
   assigned_category?: ExpenseCategory;
   split_percent?: number; // 0-100
   include_flag: boolean;
   
   // Reconciliation fields
   is_reconciled_ota: boolean; // if true, this is income we ignore because it's OTA payout
+  matched_ota_ids?: string[];
+  match_rule?: MatchRule;
+  match_score?: number; // 0-1
+  timing_difference?: boolean; // deposit relates to a booking outside the period
   note?: string;
   
   originalData: any;
 }
 
+// Something processData noticed about a source row. Rows are identified by
+// their source file and their index in its rows.
+export type DiagnosticReason =
+  | 'invalid_date'          // date did not parse; row dropped
+  | 'out_of_period'         // outside the statement period; row dropped
+  | 'unparsed_amount'       // amount did not parse and was read as 0
+  | 'zero_amount'           // nothing to put on the statement
+  | 'duplicate_reservation'
+  | 'blank_guest'
+  | 'component_mismatch';   // booking components do not add up to the gross
+
+export interface RowDiagnostic {
+  source: SourceKind;
+  file: string;     // source file id
+  row: number;
+  field?: string;   // internal field key, when one cell is at fault
+  value?: string;   // that cell as read from the file
+  reason: DiagnosticReason;
+  dropped: boolean; // left out of the processed rows
+}
+
 export interface ProcessedDataState {
   otaBookings: CanonicalOtaRow[];
   glIncome: CanonicalGlRow[];
   glExpenses: CanonicalGlRow[];
   reviewRows: CanonicalGlRow[]; // Rows needing manual review
   autoReimbursables: CanonicalGlRow[]; // Rows auto-classified as reimbursable
+  diagnostics: RowDiagnostic[];
+  dismissedDuplicates: string[]; // duplicate groups confirmed as separate transactions (services/duplicates.ts)
   stats: {
     totalOtaRevenue: number;
     totalOtaNet: number;
     reconciledCount: number;
     unreconciledCount: number;
+    timingDifferenceCount: number;
+    untaggedCount: number; // portfolio mode: rows that matched no property
   };
 }
 
 // Session Persistence
+// Bump together with a new migration in services/sessionSchema.ts whenever
+// the persisted shape changes.
+// ---- Statement ledger ----------------------------------------------------
+
+export type StatementKind = 'statement' | 'revision' | 'credit_note';
+
+// final: the current issued version. superseded: replaced by a revision.
+// credited: reversed by a credit note and reissued under a new number.
+export type StatementStatus = 'final' | 'superseded' | 'credited';
+
+export interface StatementLineItem {
+  section: 'booking' | 'fee' | 'expense' | 'tax' | 'property';
+  date?: string;
+  description: string;
+  reference?: string;
+  channel?: string; // bookings only
+  amount: number; // signed as it affects the owner: deductions are negative
+}
+
+export interface StatementSnapshotTotals {
+  grossRevenue: number;
+  netPayouts: number;
+  feeBase: number;
+  mgmtFeeAmount: number;
+  totalReimbursables: number;
+  totalTax: number; // tax deducted from the owner; absent on older ledger records
+  totalDeductions: number;
+  netToOwner: number;
+}
+
+export interface OwnerBalance {
+  openingBalance: number;
+  openingSource: 'ledger' | 'manual' | 'none';
+  priorNumber?: string;      // statement the opening balance was carried from
+  activity: number;          // the period's net to owner
+  paymentsReceived: number;
+  available: number;         // opening + activity + payments received
+  reserveHeld: number;
+  paymentToOwner: number;
+  closingBalance: number;    // carried to the next statement
+}
+
+// One issued document, frozen at the moment it was finalized
+export interface IssuedStatement {
+  id: string;
+  number: string;
+  kind: StatementKind;
+  status: StatementStatus;
+  sequence: number;        // shared by a statement and all of its revisions
+  year: number;
+  revision: number;        // 0 for the original
+  supersedesId?: string;   // revision: the version it replaced
+  creditsId?: string;      // credit note: the statement it reverses
+  subject: string;         // 'single:<owner id>' | 'property:<id>' | 'owner:<owner id>'
+  subjectLabel: string;
+  ownerName: string;
+  ownerId?: string;        // absent on records from before owner IDs, which were kept under ownerName
+  periodStart: string;
+  periodEnd: string;
+  currency?: string;       // absent on records from before multi-currency (USD)
+  issuedAt: string;
+  sessionId?: string;
+  totals: StatementSnapshotTotals;
+  balance?: OwnerBalance;  // absent on credit notes
+  lineItems: StatementLineItem[];
+}
+
+export const SESSION_VERSION = 18;
+
 export interface SessionState {
-  version: 1;
+  version: typeof SESSION_VERSION;
+  id?: string;   // workspace key; absent in files exported before the workspace existed
+  name?: string;
   savedAt: string;
   createdAt?: string;
   currentStep: ProcessStep;
@@ -98,21 +421,3 @@ export interface SessionState {
   mappings: MappingState;
   processedData: ProcessedDataState | null;
 }
-
-export function isSessionState(value: any): value is SessionState {
-  return (
-    value &&
-    typeof value === 'object' &&
-    value.version === 1 &&
-    typeof value.savedAt === 'string' &&
-    typeof value.currentStep === 'string' &&
-    value.files &&
-    typeof value.files === 'object' &&
-    value.config &&
-    typeof value.config === 'object' &&
-    value.mappings &&
-    typeof value.mappings === 'object'
-    // processedData can be null, so strict check might be optional, but key should exist if we want to be strict.
-    // However, JS often omits keys if undefined. We'll trust the structure if main blocks exist.
-  );
-}
\ No newline at end of file